@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('UNMATCHED', 'RESOLVED', 'IGNORED');
+
+-- AlterTable: gateway-settled payments have no cashier
+ALTER TABLE "Payment" ALTER COLUMN "receivedBy" DROP NOT NULL;
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "gateway" TEXT;
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "gatewayReference" TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS "Payment_gatewayReference_key" ON "Payment"("gatewayReference");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PaymentReconciliation" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT,
+    "gateway" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT,
+    "channel" TEXT,
+    "reason" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "ReconciliationStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "billingRecordId" TEXT,
+    "paymentId" TEXT,
+    "resolvedBy" TEXT,
+    "resolutionNotes" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentReconciliation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PaymentReconciliation_gateway_reference_key" ON "PaymentReconciliation"("gateway", "reference");
+CREATE INDEX IF NOT EXISTS "PaymentReconciliation_hospitalId_idx" ON "PaymentReconciliation"("hospitalId");
+CREATE INDEX IF NOT EXISTS "PaymentReconciliation_status_idx" ON "PaymentReconciliation"("status");
+CREATE INDEX IF NOT EXISTS "PaymentReconciliation_createdAt_idx" ON "PaymentReconciliation"("createdAt");
+
+ALTER TABLE "PaymentReconciliation" ADD CONSTRAINT "PaymentReconciliation_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "PaymentReconciliation" ADD CONSTRAINT "PaymentReconciliation_resolvedBy_fkey" FOREIGN KEY ("resolvedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
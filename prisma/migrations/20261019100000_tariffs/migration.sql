@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "Tariff" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "BillingCategory" NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "hmoPrice" DOUBLE PRECISION,
+    "nhisPrice" DOUBLE PRECISION,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "effectiveTo" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tariff_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Tariff_hospitalId_code_effectiveFrom_key" ON "Tariff"("hospitalId", "code", "effectiveFrom");
+CREATE INDEX IF NOT EXISTS "Tariff_hospitalId_idx" ON "Tariff"("hospitalId");
+CREATE INDEX IF NOT EXISTS "Tariff_code_idx" ON "Tariff"("code");
+CREATE INDEX IF NOT EXISTS "Tariff_category_idx" ON "Tariff"("category");
+
+ALTER TABLE "Tariff" ADD CONSTRAINT "Tariff_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Tariff" ADD CONSTRAINT "Tariff_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable: link bill lines to the tariff they were priced from
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "serviceCode" TEXT;
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "tariffId" TEXT;
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "priceOverridden" BOOLEAN NOT NULL DEFAULT false;
+CREATE INDEX IF NOT EXISTS "BillingItem_tariffId_idx" ON "BillingItem"("tariffId");
+ALTER TABLE "BillingItem" ADD CONSTRAINT "BillingItem_tariffId_fkey" FOREIGN KEY ("tariffId") REFERENCES "Tariff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
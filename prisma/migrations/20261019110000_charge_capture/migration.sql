@@ -0,0 +1,4 @@
+-- AlterTable: trace automatically captured charges back to the clinical action
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "sourceType" TEXT;
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "sourceId" TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS "BillingItem_sourceType_sourceId_key" ON "BillingItem"("sourceType", "sourceId");
@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "ClaimStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'QUERIED', 'APPROVED', 'PARTIALLY_PAID', 'PAID', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "Claim" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "insuranceProvider" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "status" "ClaimStatus" NOT NULL DEFAULT 'DRAFT',
+    "totalAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "approvedAmount" DOUBLE PRECISION,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "payerReference" TEXT,
+    "queryNotes" TEXT,
+    "rejectionReason" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Claim_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Claim_hospitalId_idx" ON "Claim"("hospitalId");
+CREATE INDEX IF NOT EXISTS "Claim_insuranceProvider_idx" ON "Claim"("insuranceProvider");
+CREATE INDEX IF NOT EXISTS "Claim_status_idx" ON "Claim"("status");
+CREATE INDEX IF NOT EXISTS "Claim_submittedAt_idx" ON "Claim"("submittedAt");
+
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ClaimRemittance" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClaimRemittance_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ClaimRemittance_claimId_idx" ON "ClaimRemittance"("claimId");
+
+ALTER TABLE "ClaimRemittance" ADD CONSTRAINT "ClaimRemittance_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ClaimRemittance" ADD CONSTRAINT "ClaimRemittance_recordedBy_fkey" FOREIGN KEY ("recordedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable: split bills into payer portion and patient co-pay
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "payerAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "patientAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "claimId" TEXT;
+CREATE INDEX IF NOT EXISTS "BillingRecord_claimId_idx" ON "BillingRecord"("claimId");
+ALTER TABLE "BillingRecord" ADD CONSTRAINT "BillingRecord_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill the split for existing bills
+UPDATE "BillingRecord"
+SET "payerAmount" = CASE
+        WHEN "insuranceProvider" IS NOT NULL AND "insuranceCoverage" IS NOT NULL
+        THEN ROUND(("totalAmount" * LEAST(GREATEST("insuranceCoverage", 0), 100) / 100)::numeric, 2)::double precision
+        ELSE 0
+    END;
+UPDATE "BillingRecord" SET "patientAmount" = "totalAmount" - "payerAmount";
+
+-- AlterTable: trace insurer payments to their remittance
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "remittanceId" TEXT;
+CREATE INDEX IF NOT EXISTS "Payment_remittanceId_idx" ON "Payment"("remittanceId");
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_remittanceId_fkey" FOREIGN KEY ("remittanceId") REFERENCES "ClaimRemittance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
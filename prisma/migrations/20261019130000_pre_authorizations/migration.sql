@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PreAuthStatus" AS ENUM ('REQUESTED', 'APPROVED', 'DENIED', 'EXPIRED');
+CREATE TYPE "PreAuthServiceType" AS ENUM ('ADMISSION', 'SURGERY', 'IMAGING', 'LAB', 'PROCEDURE');
+
+-- AlterTable: record the patient's insurer so orders know when pre-auth applies
+ALTER TABLE "Patient" ADD COLUMN IF NOT EXISTS "insuranceProvider" TEXT;
+ALTER TABLE "Patient" ADD COLUMN IF NOT EXISTS "insurancePolicyNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PreAuthorization" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "insuranceProvider" TEXT NOT NULL,
+    "insurancePolicyNumber" TEXT,
+    "serviceType" "PreAuthServiceType" NOT NULL,
+    "requestedServices" JSONB NOT NULL,
+    "requestedAmount" DOUBLE PRECISION,
+    "status" "PreAuthStatus" NOT NULL DEFAULT 'REQUESTED',
+    "code" TEXT,
+    "approvedAmount" DOUBLE PRECISION,
+    "approvedDays" INTEGER,
+    "usedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "validUntil" TIMESTAMP(3),
+    "denialReason" TEXT,
+    "notes" TEXT,
+    "requestedBy" TEXT NOT NULL,
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PreAuthorization_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PreAuthorization_hospitalId_insuranceProvider_code_key" ON "PreAuthorization"("hospitalId", "insuranceProvider", "code");
+CREATE INDEX IF NOT EXISTS "PreAuthorization_hospitalId_idx" ON "PreAuthorization"("hospitalId");
+CREATE INDEX IF NOT EXISTS "PreAuthorization_patientId_idx" ON "PreAuthorization"("patientId");
+CREATE INDEX IF NOT EXISTS "PreAuthorization_status_idx" ON "PreAuthorization"("status");
+
+ALTER TABLE "PreAuthorization" ADD CONSTRAINT "PreAuthorization_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PreAuthorization" ADD CONSTRAINT "PreAuthorization_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PreAuthorization" ADD CONSTRAINT "PreAuthorization_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PreAuthorization" ADD CONSTRAINT "PreAuthorization_decidedBy_fkey" FOREIGN KEY ("decidedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable: link admissions and lab orders to the pre-auth that covers them
+ALTER TABLE "Admission" ADD COLUMN IF NOT EXISTS "preAuthorizationId" TEXT;
+ALTER TABLE "Admission" ADD CONSTRAINT "Admission_preAuthorizationId_fkey" FOREIGN KEY ("preAuthorizationId") REFERENCES "PreAuthorization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "LabOrder" ADD COLUMN IF NOT EXISTS "preAuthorizationId" TEXT;
+ALTER TABLE "LabOrder" ADD CONSTRAINT "LabOrder_preAuthorizationId_fkey" FOREIGN KEY ("preAuthorizationId") REFERENCES "PreAuthorization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('INVOICE', 'RECEIPT');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DocumentSequence" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "type" "DocumentType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "DocumentSequence_hospitalId_type_year_key" ON "DocumentSequence"("hospitalId", "type", "year");
+
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable: human-readable document numbers
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "invoiceNumber" TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS "BillingRecord_hospitalId_invoiceNumber_key" ON "BillingRecord"("hospitalId", "invoiceNumber");
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "receiptNumber" TEXT;
+CREATE INDEX IF NOT EXISTS "Payment_receiptNumber_idx" ON "Payment"("receiptNumber");
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AdjustmentType" AS ENUM ('DISCOUNT', 'WAIVER', 'WRITE_OFF');
+CREATE TYPE "AdjustmentValueType" AS ENUM ('PERCENT', 'FIXED');
+CREATE TYPE "AdjustmentStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable: running total of approved adjustments
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "adjustmentAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "BillingAdjustment" (
+    "id" TEXT NOT NULL,
+    "billingRecordId" TEXT NOT NULL,
+    "billingItemId" TEXT,
+    "type" "AdjustmentType" NOT NULL,
+    "valueType" "AdjustmentValueType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "AdjustmentStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedBy" TEXT NOT NULL,
+    "decidedBy" TEXT,
+    "decisionNotes" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BillingAdjustment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "BillingAdjustment_billingRecordId_idx" ON "BillingAdjustment"("billingRecordId");
+CREATE INDEX IF NOT EXISTS "BillingAdjustment_status_idx" ON "BillingAdjustment"("status");
+
+ALTER TABLE "BillingAdjustment" ADD CONSTRAINT "BillingAdjustment_billingRecordId_fkey" FOREIGN KEY ("billingRecordId") REFERENCES "BillingRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BillingAdjustment" ADD CONSTRAINT "BillingAdjustment_billingItemId_fkey" FOREIGN KEY ("billingItemId") REFERENCES "BillingItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "BillingAdjustment" ADD CONSTRAINT "BillingAdjustment_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "BillingAdjustment" ADD CONSTRAINT "BillingAdjustment_decidedBy_fkey" FOREIGN KEY ("decidedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "RefundType" AS ENUM ('REFUND', 'REVERSAL');
+CREATE TYPE "RefundMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'GATEWAY');
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'REJECTED', 'FAILED');
+
+-- AlterTable: running total of completed refunds per payment
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "Refund" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "type" "RefundType" NOT NULL DEFAULT 'REFUND',
+    "method" "RefundMethod",
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "bankDetails" JSONB,
+    "gatewayRefundId" TEXT,
+    "failureReason" TEXT,
+    "requestedBy" TEXT NOT NULL,
+    "decidedBy" TEXT,
+    "decisionNotes" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Refund_paymentId_idx" ON "Refund"("paymentId");
+CREATE INDEX IF NOT EXISTS "Refund_hospitalId_idx" ON "Refund"("hospitalId");
+CREATE INDEX IF NOT EXISTS "Refund_status_idx" ON "Refund"("status");
+CREATE INDEX IF NOT EXISTS "Refund_completedAt_idx" ON "Refund"("completedAt");
+
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_requestedBy_fkey" FOREIGN KEY ("requestedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_decidedBy_fkey" FOREIGN KEY ("decidedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "CashierSessionStatus" AS ENUM ('OPEN', 'CLOSED', 'SIGNED_OFF');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CashierSession" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "cashierId" TEXT NOT NULL,
+    "status" "CashierSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "expectedAmounts" JSONB,
+    "declaredAmounts" JSONB,
+    "variance" DOUBLE PRECISION,
+    "closingNotes" TEXT,
+    "signedOffBy" TEXT,
+    "signedOffAt" TIMESTAMP(3),
+    "signOffNotes" TEXT,
+
+    CONSTRAINT "CashierSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CashierSession_hospitalId_idx" ON "CashierSession"("hospitalId");
+CREATE INDEX IF NOT EXISTS "CashierSession_cashierId_idx" ON "CashierSession"("cashierId");
+CREATE INDEX IF NOT EXISTS "CashierSession_status_idx" ON "CashierSession"("status");
+CREATE INDEX IF NOT EXISTS "CashierSession_closedAt_idx" ON "CashierSession"("closedAt");
+
+-- One open till per cashier (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX IF NOT EXISTS "CashierSession_cashierId_open_key" ON "CashierSession"("cashierId") WHERE "status" = 'OPEN';
+
+-- AlterTable: tie till movements to the session they happened in
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "cashierSessionId" TEXT;
+ALTER TABLE "Refund" ADD COLUMN IF NOT EXISTS "cashierSessionId" TEXT;
+ALTER TABLE "WalletTransaction" ADD COLUMN IF NOT EXISTS "cashierSessionId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Payment_cashierSessionId_idx" ON "Payment"("cashierSessionId");
+
+ALTER TABLE "CashierSession" ADD CONSTRAINT "CashierSession_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CashierSession" ADD CONSTRAINT "CashierSession_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CashierSession" ADD CONSTRAINT "CashierSession_signedOffBy_fkey" FOREIGN KEY ("signedOffBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_cashierSessionId_fkey" FOREIGN KEY ("cashierSessionId") REFERENCES "CashierSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_cashierSessionId_fkey" FOREIGN KEY ("cashierSessionId") REFERENCES "CashierSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "WalletTransaction" ADD CONSTRAINT "WalletTransaction_cashierSessionId_fkey" FOREIGN KEY ("cashierSessionId") REFERENCES "CashierSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "CorporateAccountStatus" AS ENUM ('ACTIVE', 'SUSPENDED', 'CLOSED');
+CREATE TYPE "CorporateRelationship" AS ENUM ('EMPLOYEE', 'DEPENDANT');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CorporateAccount" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT,
+    "contactEmail" TEXT,
+    "contactPhone" TEXT,
+    "address" TEXT,
+    "coveragePercent" DOUBLE PRECISION NOT NULL DEFAULT 100,
+    "creditLimit" DOUBLE PRECISION,
+    "paymentTermsDays" INTEGER NOT NULL DEFAULT 30,
+    "status" "CorporateAccountStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CorporateAccount_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CorporateAccount_hospitalId_code_key" ON "CorporateAccount"("hospitalId", "code");
+CREATE INDEX IF NOT EXISTS "CorporateAccount_hospitalId_idx" ON "CorporateAccount"("hospitalId");
+CREATE INDEX IF NOT EXISTS "CorporateAccount_status_idx" ON "CorporateAccount"("status");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CorporateMember" (
+    "id" TEXT NOT NULL,
+    "corporateAccountId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "relationship" "CorporateRelationship" NOT NULL DEFAULT 'EMPLOYEE',
+    "employeeNumber" TEXT,
+    "principalId" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "enrolledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CorporateMember_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CorporateMember_corporateAccountId_patientId_key" ON "CorporateMember"("corporateAccountId", "patientId");
+CREATE INDEX IF NOT EXISTS "CorporateMember_patientId_idx" ON "CorporateMember"("patientId");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CorporatePayment" (
+    "id" TEXT NOT NULL,
+    "corporateAccountId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "receiptNumber" TEXT,
+    "notes" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receivedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CorporatePayment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CorporatePayment_corporateAccountId_idx" ON "CorporatePayment"("corporateAccountId");
+CREATE INDEX IF NOT EXISTS "CorporatePayment_receivedAt_idx" ON "CorporatePayment"("receivedAt");
+
+-- AlterTable: route bills to accounts and trace allocated payments
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "corporateAccountId" TEXT;
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "corporateCoverage" DOUBLE PRECISION;
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "corporatePaymentId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "BillingRecord_corporateAccountId_idx" ON "BillingRecord"("corporateAccountId");
+CREATE INDEX IF NOT EXISTS "Payment_corporatePaymentId_idx" ON "Payment"("corporatePaymentId");
+
+ALTER TABLE "CorporateAccount" ADD CONSTRAINT "CorporateAccount_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CorporateAccount" ADD CONSTRAINT "CorporateAccount_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CorporateMember" ADD CONSTRAINT "CorporateMember_corporateAccountId_fkey" FOREIGN KEY ("corporateAccountId") REFERENCES "CorporateAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CorporateMember" ADD CONSTRAINT "CorporateMember_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CorporateMember" ADD CONSTRAINT "CorporateMember_principalId_fkey" FOREIGN KEY ("principalId") REFERENCES "CorporateMember"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "CorporatePayment" ADD CONSTRAINT "CorporatePayment_corporateAccountId_fkey" FOREIGN KEY ("corporateAccountId") REFERENCES "CorporateAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "CorporatePayment" ADD CONSTRAINT "CorporatePayment_receivedBy_fkey" FOREIGN KEY ("receivedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "BillingRecord" ADD CONSTRAINT "BillingRecord_corporateAccountId_fkey" FOREIGN KEY ("corporateAccountId") REFERENCES "CorporateAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_corporatePaymentId_fkey" FOREIGN KEY ("corporatePaymentId") REFERENCES "CorporatePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
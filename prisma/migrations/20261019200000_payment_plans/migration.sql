@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PaymentPlanStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PaymentPlan" (
+    "id" TEXT NOT NULL,
+    "billingRecordId" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "status" "PaymentPlanStatus" NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentPlan_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PaymentPlan_billingRecordId_idx" ON "PaymentPlan"("billingRecordId");
+CREATE INDEX IF NOT EXISTS "PaymentPlan_hospitalId_idx" ON "PaymentPlan"("hospitalId");
+CREATE INDEX IF NOT EXISTS "PaymentPlan_status_idx" ON "PaymentPlan"("status");
+
+-- One active plan per bill (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX IF NOT EXISTS "PaymentPlan_billingRecordId_active_key" ON "PaymentPlan"("billingRecordId") WHERE "status" = 'ACTIVE';
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PaymentPlanInstallment" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastRemindedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentPlanInstallment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PaymentPlanInstallment_planId_sequence_key" ON "PaymentPlanInstallment"("planId", "sequence");
+CREATE INDEX IF NOT EXISTS "PaymentPlanInstallment_dueDate_idx" ON "PaymentPlanInstallment"("dueDate");
+
+-- AddForeignKey
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_billingRecordId_fkey" FOREIGN KEY ("billingRecordId") REFERENCES "BillingRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PaymentPlan" ADD CONSTRAINT "PaymentPlan_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "PaymentPlanInstallment" ADD CONSTRAINT "PaymentPlanInstallment_planId_fkey" FOREIGN KEY ("planId") REFERENCES "PaymentPlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
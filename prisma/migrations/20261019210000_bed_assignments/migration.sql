@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "BedAssignment" (
+    "id" TEXT NOT NULL,
+    "admissionId" TEXT NOT NULL,
+    "bedId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "assignedBy" TEXT NOT NULL,
+
+    CONSTRAINT "BedAssignment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "BedAssignment_admissionId_idx" ON "BedAssignment"("admissionId");
+CREATE INDEX IF NOT EXISTS "BedAssignment_bedId_idx" ON "BedAssignment"("bedId");
+
+ALTER TABLE "BedAssignment" ADD CONSTRAINT "BedAssignment_admissionId_fkey" FOREIGN KEY ("admissionId") REFERENCES "Admission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BedAssignment" ADD CONSTRAINT "BedAssignment_bedId_fkey" FOREIGN KEY ("bedId") REFERENCES "Bed"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "BedAssignment" ADD CONSTRAINT "BedAssignment_assignedBy_fkey" FOREIGN KEY ("assignedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: current beds become open-ended assignments from the admission date
+INSERT INTO "BedAssignment" ("id", "admissionId", "bedId", "startedAt", "endedAt", "assignedBy")
+SELECT gen_random_uuid()::text, a."id", a."bedId", a."admissionDate", a."dischargeDate", COALESCE(a."assignedWardManager", a."admittedBy")
+FROM "Admission" a
+WHERE a."bedId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "BedAssignment" b WHERE b."admissionId" = a."id");
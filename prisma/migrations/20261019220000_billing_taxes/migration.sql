@@ -0,0 +1,4 @@
+-- AlterTable: tax charged on each line and carried in the bill total
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE "BillingItem" ADD COLUMN IF NOT EXISTS "taxes" JSONB;
+ALTER TABLE "BillingRecord" ADD COLUMN IF NOT EXISTS "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
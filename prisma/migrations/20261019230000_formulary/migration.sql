@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DrugForm" AS ENUM ('TABLET', 'CAPSULE', 'SYRUP', 'SUSPENSION', 'INJECTION', 'INFUSION', 'CREAM', 'OINTMENT', 'DROPS', 'INHALER', 'SUPPOSITORY', 'OTHER');
+CREATE TYPE "DrugRoute" AS ENUM ('ORAL', 'IV', 'IM', 'SC', 'TOPICAL', 'INHALED', 'RECTAL', 'SUBLINGUAL', 'OPHTHALMIC', 'OTIC', 'NASAL', 'OTHER');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "FormularyDrug" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "genericName" TEXT NOT NULL,
+    "brandName" TEXT,
+    "strength" TEXT NOT NULL,
+    "form" "DrugForm" NOT NULL,
+    "route" "DrugRoute" NOT NULL,
+    "inventoryItemId" TEXT,
+    "tariffCode" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FormularyDrug_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "FormularyDrug_hospitalId_idx" ON "FormularyDrug"("hospitalId");
+CREATE INDEX IF NOT EXISTS "FormularyDrug_genericName_idx" ON "FormularyDrug"("genericName");
+CREATE INDEX IF NOT EXISTS "FormularyDrug_inventoryItemId_idx" ON "FormularyDrug"("inventoryItemId");
+
+ALTER TABLE "FormularyDrug" ADD CONSTRAINT "FormularyDrug_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "FormularyDrug" ADD CONSTRAINT "FormularyDrug_inventoryItemId_fkey" FOREIGN KEY ("inventoryItemId") REFERENCES "InventoryItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "formularyDrugId" TEXT;
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "offFormulary" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS "PrescriptionItem_formularyDrugId_idx" ON "PrescriptionItem"("formularyDrugId");
+
+ALTER TABLE "PrescriptionItem" ADD CONSTRAINT "PrescriptionItem_formularyDrugId_fkey" FOREIGN KEY ("formularyDrugId") REFERENCES "FormularyDrug"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "InventoryBatch" (
+    "id" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "batchNumber" TEXT,
+    "expiryDate" TIMESTAMP(3),
+    "receivedQuantity" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DOUBLE PRECISION NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryBatch_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "InventoryBatch_inventoryItemId_idx" ON "InventoryBatch"("inventoryItemId");
+CREATE INDEX IF NOT EXISTS "InventoryBatch_expiryDate_idx" ON "InventoryBatch"("expiryDate");
+
+ALTER TABLE "InventoryBatch" ADD CONSTRAINT "InventoryBatch_inventoryItemId_fkey" FOREIGN KEY ("inventoryItemId") REFERENCES "InventoryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "StockIssue" (
+    "id" TEXT NOT NULL,
+    "inventoryBatchId" TEXT NOT NULL,
+    "prescriptionItemId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DOUBLE PRECISION NOT NULL,
+    "issuedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockIssue_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "StockIssue_inventoryBatchId_idx" ON "StockIssue"("inventoryBatchId");
+CREATE INDEX IF NOT EXISTS "StockIssue_prescriptionItemId_idx" ON "StockIssue"("prescriptionItemId");
+
+ALTER TABLE "StockIssue" ADD CONSTRAINT "StockIssue_inventoryBatchId_fkey" FOREIGN KEY ("inventoryBatchId") REFERENCES "InventoryBatch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "StockIssue" ADD CONSTRAINT "StockIssue_prescriptionItemId_fkey" FOREIGN KEY ("prescriptionItemId") REFERENCES "PrescriptionItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "StockIssue" ADD CONSTRAINT "StockIssue_issuedBy_fkey" FOREIGN KEY ("issuedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "quantity" INTEGER NOT NULL DEFAULT 1;
+
+-- Backfill: existing stock becomes one batch per item, costed at its unit price
+INSERT INTO "InventoryBatch" ("id", "inventoryItemId", "batchNumber", "expiryDate", "receivedQuantity", "quantity", "unitCost", "receivedAt")
+SELECT gen_random_uuid()::text, i."id", i."batchNumber", i."expiryDate", i."stock", i."stock", i."unitPrice", i."createdAt"
+FROM "InventoryItem" i
+WHERE i."stock" > 0
+  AND NOT EXISTS (SELECT 1 FROM "InventoryBatch" b WHERE b."inventoryItemId" = i."id");
@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "PrescriptionStatus" ADD VALUE IF NOT EXISTS 'PARTIALLY_DISPENSED' BEFORE 'DISPENSED';
+
+-- AlterTable
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "dispensedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DispenseEvent" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" TEXT NOT NULL,
+    "dispensedBy" TEXT NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DispenseEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "DispenseEvent_prescriptionId_idx" ON "DispenseEvent"("prescriptionId");
+CREATE INDEX IF NOT EXISTS "DispenseEvent_createdAt_idx" ON "DispenseEvent"("createdAt");
+
+ALTER TABLE "DispenseEvent" ADD CONSTRAINT "DispenseEvent_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "DispenseEvent" ADD CONSTRAINT "DispenseEvent_dispensedBy_fkey" FOREIGN KEY ("dispensedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DispenseEventItem" (
+    "id" TEXT NOT NULL,
+    "dispenseEventId" TEXT NOT NULL,
+    "prescriptionItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DispenseEventItem_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "DispenseEventItem_dispenseEventId_idx" ON "DispenseEventItem"("dispenseEventId");
+CREATE INDEX IF NOT EXISTS "DispenseEventItem_prescriptionItemId_idx" ON "DispenseEventItem"("prescriptionItemId");
+
+ALTER TABLE "DispenseEventItem" ADD CONSTRAINT "DispenseEventItem_dispenseEventId_fkey" FOREIGN KEY ("dispenseEventId") REFERENCES "DispenseEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "DispenseEventItem" ADD CONSTRAINT "DispenseEventItem_prescriptionItemId_fkey" FOREIGN KEY ("prescriptionItemId") REFERENCES "PrescriptionItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "StockIssue" ADD COLUMN IF NOT EXISTS "dispenseEventItemId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "StockIssue_dispenseEventItemId_idx" ON "StockIssue"("dispenseEventItemId");
+
+ALTER TABLE "StockIssue" ADD CONSTRAINT "StockIssue_dispenseEventItemId_fkey" FOREIGN KEY ("dispenseEventItemId") REFERENCES "DispenseEventItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: dispensed prescriptions count what left stock, else the full quantity
+UPDATE "PrescriptionItem" pi
+SET "dispensedQuantity" = COALESCE(
+    (SELECT SUM(si."quantity") FROM "StockIssue" si WHERE si."prescriptionItemId" = pi."id"),
+    pi."quantity"
+)
+FROM "Prescription" p
+WHERE p."id" = pi."prescriptionId"
+  AND p."status" = 'DISPENSED'
+  AND pi."dispensedQuantity" = 0;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DoseUnit" AS ENUM ('MCG', 'MG', 'G', 'ML', 'IU', 'UNITS', 'TABLET', 'CAPSULE', 'DROP', 'PUFF');
+CREATE TYPE "FrequencyCode" AS ENUM ('STAT', 'OD', 'BD', 'TDS', 'QDS', 'Q4H', 'Q6H', 'Q8H', 'Q12H', 'NOCTE', 'WEEKLY', 'PRN');
+CREATE TYPE "DoseBasis" AS ENUM ('FIXED', 'PER_KG');
+
+-- AlterTable
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "doseAmount" DOUBLE PRECISION;
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "doseUnit" "DoseUnit";
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "route" "DrugRoute";
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "frequencyCode" "FrequencyCode";
+ALTER TABLE "PrescriptionItem" ADD COLUMN IF NOT EXISTS "durationDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DoseRange" (
+    "id" TEXT NOT NULL,
+    "formularyDrugId" TEXT NOT NULL,
+    "minAgeMonths" INTEGER,
+    "maxAgeMonths" INTEGER,
+    "minWeightKg" DOUBLE PRECISION,
+    "maxWeightKg" DOUBLE PRECISION,
+    "route" "DrugRoute",
+    "basis" "DoseBasis" NOT NULL DEFAULT 'FIXED',
+    "unit" "DoseUnit" NOT NULL,
+    "minDose" DOUBLE PRECISION,
+    "maxDose" DOUBLE PRECISION,
+    "maxDailyDose" DOUBLE PRECISION,
+    "absoluteMaxDose" DOUBLE PRECISION,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoseRange_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "DoseRange_formularyDrugId_idx" ON "DoseRange"("formularyDrugId");
+
+ALTER TABLE "DoseRange" ADD CONSTRAINT "DoseRange_formularyDrugId_fkey" FOREIGN KEY ("formularyDrugId") REFERENCES "FormularyDrug"("id") ON DELETE CASCADE ON UPDATE CASCADE;
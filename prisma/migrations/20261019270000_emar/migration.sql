@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "MedicationDoseStatus" AS ENUM ('SCHEDULED', 'GIVEN', 'HELD', 'REFUSED');
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "MedicationDose" (
+    "id" TEXT NOT NULL,
+    "admissionId" TEXT NOT NULL,
+    "prescriptionItemId" TEXT NOT NULL,
+    "scheduledAt" TIMESTAMP(3),
+    "status" "MedicationDoseStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "administeredAt" TIMESTAMP(3),
+    "recordedBy" TEXT,
+    "doseGiven" TEXT,
+    "reason" TEXT,
+    "notes" TEXT,
+    "nursingRoundId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MedicationDose_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MedicationDose_prescriptionItemId_scheduledAt_key" ON "MedicationDose"("prescriptionItemId", "scheduledAt");
+CREATE INDEX IF NOT EXISTS "MedicationDose_admissionId_idx" ON "MedicationDose"("admissionId");
+CREATE INDEX IF NOT EXISTS "MedicationDose_status_idx" ON "MedicationDose"("status");
+CREATE INDEX IF NOT EXISTS "MedicationDose_scheduledAt_idx" ON "MedicationDose"("scheduledAt");
+CREATE INDEX IF NOT EXISTS "MedicationDose_nursingRoundId_idx" ON "MedicationDose"("nursingRoundId");
+
+ALTER TABLE "MedicationDose" ADD CONSTRAINT "MedicationDose_admissionId_fkey" FOREIGN KEY ("admissionId") REFERENCES "Admission"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "MedicationDose" ADD CONSTRAINT "MedicationDose_prescriptionItemId_fkey" FOREIGN KEY ("prescriptionItemId") REFERENCES "PrescriptionItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MedicationDose" ADD CONSTRAINT "MedicationDose_recordedBy_fkey" FOREIGN KEY ("recordedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "MedicationDose" ADD CONSTRAINT "MedicationDose_nursingRoundId_fkey" FOREIGN KEY ("nursingRoundId") REFERENCES "NursingRound"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "ControlledDrugEntryType" AS ENUM ('OPENING', 'RECEIPT', 'DISPENSE', 'WASTE', 'ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "InventoryItem" ADD COLUMN IF NOT EXISTS "controlled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "InventoryItem" ADD COLUMN IF NOT EXISTS "controlledSchedule" TEXT;
+ALTER TABLE "FormularyDrug" ADD COLUMN IF NOT EXISTS "controlled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "DispenseEvent" ADD COLUMN IF NOT EXISTS "witnessedBy" TEXT;
+
+ALTER TABLE "DispenseEvent" ADD CONSTRAINT "DispenseEvent_witnessedBy_fkey" FOREIGN KEY ("witnessedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ControlledDrugEntry" (
+    "id" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "entryType" "ControlledDrugEntryType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "batchNumbers" TEXT,
+    "patientId" TEXT,
+    "prescriptionId" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "witnessedBy" TEXT,
+    "reason" TEXT,
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ControlledDrugEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ControlledDrugEntry_inventoryItemId_sequence_key" ON "ControlledDrugEntry"("inventoryItemId", "sequence");
+CREATE INDEX IF NOT EXISTS "ControlledDrugEntry_hospitalId_idx" ON "ControlledDrugEntry"("hospitalId");
+CREATE INDEX IF NOT EXISTS "ControlledDrugEntry_createdAt_idx" ON "ControlledDrugEntry"("createdAt");
+CREATE INDEX IF NOT EXISTS "ControlledDrugEntry_patientId_idx" ON "ControlledDrugEntry"("patientId");
+
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_inventoryItemId_fkey" FOREIGN KEY ("inventoryItemId") REFERENCES "InventoryItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_recordedBy_fkey" FOREIGN KEY ("recordedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_witnessedBy_fkey" FOREIGN KEY ("witnessedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The register is append-only: corrections are new ADJUSTMENT entries
+CREATE OR REPLACE FUNCTION "controlled_drug_entry_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'Controlled drug register entries cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "ControlledDrugEntry_immutable" ON "ControlledDrugEntry";
+CREATE TRIGGER "ControlledDrugEntry_immutable"
+    BEFORE UPDATE OR DELETE ON "ControlledDrugEntry"
+    FOR EACH ROW EXECUTE FUNCTION "controlled_drug_entry_immutable"();
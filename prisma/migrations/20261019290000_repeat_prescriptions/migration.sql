@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "refillsAllowed" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "refillsIssued" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "refillIntervalDays" INTEGER;
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "repeatExpiresAt" TIMESTAMP(3);
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "nextRefillDue" TIMESTAMP(3);
+ALTER TABLE "Prescription" ADD COLUMN IF NOT EXISTS "repeatOfId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Prescription_repeatOfId_idx" ON "Prescription"("repeatOfId");
+CREATE INDEX IF NOT EXISTS "Prescription_nextRefillDue_idx" ON "Prescription"("nextRefillDue");
+
+ALTER TABLE "Prescription" ADD CONSTRAINT "Prescription_repeatOfId_fkey" FOREIGN KEY ("repeatOfId") REFERENCES "Prescription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,417 @@
+import { Request, Response } from 'express';
+import { AdjustmentType, AdjustmentValueType, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import {
+  AdjustmentError,
+  adjustmentApprovalLimit,
+  applyAdjustment,
+  committedAdjustments,
+  computeAdjustmentAmount,
+  lockBill,
+} from '../services/billingAdjustments';
+
+const prisma = new PrismaClient();
+
+const ADJUSTMENT_TYPES: AdjustmentType[] = ['DISCOUNT', 'WAIVER', 'WRITE_OFF'];
+const VALUE_TYPES: AdjustmentValueType[] = ['PERCENT', 'FIXED'];
+
+export const requestAdjustment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { type, valueType, billingItemId, reason } = req.body;
+    const value = parseFloat(req.body.value);
+
+    if (!ADJUSTMENT_TYPES.includes(type) || !VALUE_TYPES.includes(valueType) || isNaN(value) || !reason) {
+      res.status(400).json({ error: 'Adjustment type, value type, value and reason are required' });
+      return;
+    }
+
+    const existingBilling = await prisma.billingRecord.findUnique({ where: { id } });
+
+    if (!existingBilling) {
+      res.status(404).json({ error: 'Billing record not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existingBilling.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existingBilling.status === 'CANCELLED' || existingBilling.status === 'PAID') {
+      res.status(400).json({ error: `Cannot adjust a ${existingBilling.status} bill` });
+      return;
+    }
+
+    // The payer portion is already with the HMO; adjust through the claim instead
+    if (existingBilling.claimId) {
+      res.status(400).json({ error: 'Bill is part of an insurance claim and cannot be adjusted' });
+      return;
+    }
+
+    const settings = await getHospitalSettings(existingBilling.hospitalId);
+    const limit = adjustmentApprovalLimit(req.user.role, settings);
+    const userId = req.user.id;
+
+    const { adjustment, billingRecord } = await prisma.$transaction(async (tx) => {
+      await lockBill(tx, id);
+      const amount = await computeAdjustmentAmount(tx, id, { billingItemId, valueType, value });
+      const autoApprove = (await committedAdjustments(tx, id)) + amount <= limit;
+
+      const adjustment = await tx.billingAdjustment.create({
+        data: {
+          billingRecordId: id,
+          billingItemId: billingItemId || null,
+          type,
+          valueType,
+          value,
+          amount,
+          reason,
+          requestedBy: userId,
+          ...(autoApprove && {
+            status: 'APPROVED' as const,
+            decidedBy: userId,
+            decidedAt: new Date(),
+          }),
+        },
+      });
+
+      const billingRecord = autoApprove ? await applyAdjustment(tx, adjustment) : null;
+      return { adjustment, billingRecord };
+    });
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId: existingBilling.hospitalId,
+      action: 'REQUEST_BILL_ADJUSTMENT',
+      entity: 'BILLING_RECORD',
+      entityId: id,
+      details: {
+        adjustmentId: adjustment.id,
+        type,
+        valueType,
+        value,
+        amount: adjustment.amount,
+        billingItemId,
+        reason,
+        status: adjustment.status,
+        autoApproved: adjustment.status === 'APPROVED',
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    if (billingRecord) {
+      broadcastBillingUpdate(billingRecord.hospitalId, 'updated', billingRecord);
+    }
+
+    res.status(201).json({ adjustment, billingRecord });
+  } catch (error) {
+    if (error instanceof AdjustmentError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Request adjustment error:', error);
+    res.status(500).json({ error: 'Failed to request adjustment' });
+  }
+};
+
+export const getBillAdjustments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const billingRecord = await prisma.billingRecord.findUnique({ where: { id } });
+
+    if (!billingRecord) {
+      res.status(404).json({ error: 'Billing record not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && billingRecord.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const adjustments = await prisma.billingAdjustment.findMany({
+      where: { billingRecordId: id },
+      include: {
+        billingItem: { select: { id: true, description: true } },
+        requestedByUser: { select: { id: true, firstName: true, lastName: true } },
+        decidedByUser: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ adjustments });
+  } catch (error) {
+    console.error('Get bill adjustments error:', error);
+    res.status(500).json({ error: 'Failed to get adjustments' });
+  }
+};
+
+export const getPendingAdjustments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    // Build filter
+    const where: Record<string, unknown> = { status: 'PENDING' };
+
+    if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
+      where.billingRecord = { hospitalId: req.user.hospitalId };
+    }
+
+    const adjustments = await prisma.billingAdjustment.findMany({
+      where,
+      include: {
+        billingRecord: {
+          select: {
+            id: true,
+            hospitalId: true,
+            invoiceNumber: true,
+            totalAmount: true,
+            paidAmount: true,
+            patient: { select: { id: true, firstName: true, lastName: true } },
+          },
+        },
+        billingItem: { select: { id: true, description: true } },
+        requestedByUser: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Flag what this user may approve, weighed as approval will: with the bill's other adjustments
+    const limits = new Map<string, number>();
+    const queue = [];
+    for (const adjustment of adjustments) {
+      const hospitalId = adjustment.billingRecord.hospitalId;
+      if (!limits.has(hospitalId)) {
+        limits.set(hospitalId, adjustmentApprovalLimit(req.user.role, await getHospitalSettings(hospitalId)));
+      }
+      const committed = await committedAdjustments(prisma, adjustment.billingRecordId, adjustment.id);
+      queue.push({
+        ...adjustment,
+        canApprove: adjustment.requestedBy !== req.user.id && committed + adjustment.amount <= limits.get(hospitalId)!,
+      });
+    }
+
+    res.json({ adjustments: queue });
+  } catch (error) {
+    console.error('Get pending adjustments error:', error);
+    res.status(500).json({ error: 'Failed to get pending adjustments' });
+  }
+};
+
+export const approveAdjustment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { adjustmentId } = req.params;
+    const { notes } = req.body;
+
+    const existing = await prisma.billingAdjustment.findUnique({
+      where: { id: adjustmentId },
+      include: { billingRecord: true },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Adjustment not found' });
+      return;
+    }
+
+    const hospitalId = existing.billingRecord.hospitalId;
+
+    if (req.user.role !== 'SUPER_ADMIN' && hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'PENDING') {
+      res.status(400).json({ error: `Adjustment already ${existing.status}` });
+      return;
+    }
+
+    if (existing.requestedBy === req.user.id) {
+      res.status(403).json({ error: 'You cannot approve your own adjustment' });
+      return;
+    }
+
+    const limit = adjustmentApprovalLimit(req.user.role, await getHospitalSettings(hospitalId));
+
+    if (existing.amount > limit) {
+      res.status(403).json({ error: 'Adjustment exceeds your approval limit' });
+      return;
+    }
+
+    const userId = req.user.id;
+
+    const { adjustment, billingRecord } = await prisma.$transaction(async (tx) => {
+      await lockBill(tx, existing.billingRecordId);
+
+      // The bill may have changed while the request waited; re-check it still fits
+      const amount = await computeAdjustmentAmount(tx, existing.billingRecordId, {
+        billingItemId: existing.billingItemId,
+        valueType: existing.valueType,
+        value: existing.value,
+      });
+
+      // Counted with the bill's other adjustments, so split requests add up
+      if ((await committedAdjustments(tx, existing.billingRecordId, adjustmentId)) + amount > limit) {
+        throw new AdjustmentError('Adjustments on this bill would exceed your approval limit', 403);
+      }
+
+      // Only one decision wins when two approvers act at once
+      const { count } = await tx.billingAdjustment.updateMany({
+        where: { id: adjustmentId, status: 'PENDING' },
+        data: {
+          status: 'APPROVED',
+          amount,
+          decidedBy: userId,
+          decisionNotes: notes,
+          decidedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new AdjustmentError('Adjustment has already been decided', 409);
+      }
+
+      const adjustment = await tx.billingAdjustment.findUniqueOrThrow({ where: { id: adjustmentId } });
+      const billingRecord = await applyAdjustment(tx, adjustment);
+      return { adjustment, billingRecord };
+    });
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId,
+      action: 'APPROVE_BILL_ADJUSTMENT',
+      entity: 'BILLING_RECORD',
+      entityId: existing.billingRecordId,
+      details: {
+        adjustmentId,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        requestedBy: existing.requestedBy,
+        notes,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    broadcastBillingUpdate(hospitalId, 'updated', billingRecord);
+
+    res.json({ adjustment, billingRecord });
+  } catch (error) {
+    if (error instanceof AdjustmentError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Approve adjustment error:', error);
+    res.status(500).json({ error: 'Failed to approve adjustment' });
+  }
+};
+
+export const rejectAdjustment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { adjustmentId } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      res.status(400).json({ error: 'Rejection notes are required' });
+      return;
+    }
+
+    const existing = await prisma.billingAdjustment.findUnique({
+      where: { id: adjustmentId },
+      include: { billingRecord: { select: { hospitalId: true } } },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Adjustment not found' });
+      return;
+    }
+
+    const hospitalId = existing.billingRecord.hospitalId;
+
+    if (req.user.role !== 'SUPER_ADMIN' && hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'PENDING') {
+      res.status(400).json({ error: `Adjustment already ${existing.status}` });
+      return;
+    }
+
+    // Only someone who could have approved it may turn it down
+    const limit = adjustmentApprovalLimit(req.user.role, await getHospitalSettings(hospitalId));
+
+    if (existing.amount > limit) {
+      res.status(403).json({ error: 'Adjustment exceeds your approval limit' });
+      return;
+    }
+
+    const userId = req.user.id;
+
+    const adjustment = await prisma.$transaction(async (tx) => {
+      // Only one decision wins when two approvers act at once
+      const { count } = await tx.billingAdjustment.updateMany({
+        where: { id: adjustmentId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          decidedBy: userId,
+          decisionNotes: notes,
+          decidedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new AdjustmentError('Adjustment has already been decided', 409);
+      }
+
+      return tx.billingAdjustment.findUniqueOrThrow({ where: { id: adjustmentId } });
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId,
+      action: 'REJECT_BILL_ADJUSTMENT',
+      entity: 'BILLING_RECORD',
+      entityId: existing.billingRecordId,
+      details: { adjustmentId, type: existing.type, amount: existing.amount, notes },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ adjustment });
+  } catch (error) {
+    if (error instanceof AdjustmentError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Reject adjustment error:', error);
+    res.status(500).json({ error: 'Failed to reject adjustment' });
+  }
+};
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import { checkPreAuthorization, PreAuthorizationError, preAuthSettings } from '../services/preAuthorization';
+import { applyWalletToBill, checkMinimumDeposit, getWalletBalance, WalletError, walletSettings } from '../services/wallet';
+import { accrueAdmission, interimBill } from '../services/bedCharges';
 
 const prisma = new PrismaClient();
 
@@ -14,8 +19,10 @@ export const createAdmission = async (req: Request, res: Response): Promise<void
     const {
       patientId,
       visitId,
+      wardId,
       diagnosis,
       admissionNotes,
+      preAuthorizationCode,
     } = req.body;
 
     // Validate required fields
@@ -56,15 +63,70 @@ export const createAdmission = async (req: Request, res: Response): Promise<void
       }
     }
 
+    // Intended ward, if known, sets the deposit rule; the bed is assigned later
+    let ward = null;
+    if (wardId) {
+      ward = await prisma.ward.findFirst({
+        where: { id: wardId, hospitalId, active: true },
+      });
+
+      if (!ward) {
+        res.status(404).json({ error: 'Ward not found' });
+        return;
+      }
+    }
+
+    // Insured admissions need the payer's pre-auth code
+    const settings = await getHospitalSettings(hospitalId);
+    const { enforcement } = preAuthSettings(settings);
+    let preAuthCheck;
+    try {
+      preAuthCheck = await checkPreAuthorization({
+        hospitalId,
+        patient,
+        serviceTypes: ['ADMISSION', 'SURGERY'],
+        required: enforcement !== 'OFF',
+        enforcement,
+        code: preAuthorizationCode,
+        description: 'admission',
+      });
+    } catch (error) {
+      if (error instanceof PreAuthorizationError) {
+        res.status(error.status).json({ error: error.message, preAuthorizationRequired: true });
+        return;
+      }
+      throw error;
+    }
+
+    // Self-paying patients need the ward's minimum deposit in their wallet;
+    // without a ward the GENERAL rule applies
+    let depositCheck;
+    try {
+      depositCheck = await checkMinimumDeposit({
+        patientId,
+        wardType: ward?.type || 'GENERAL',
+        settings,
+        exempt: !!preAuthCheck.preAuthorization,
+      });
+    } catch (error) {
+      if (error instanceof WalletError) {
+        res.status(error.status).json({ error: error.message, depositRequired: true });
+        return;
+      }
+      throw error;
+    }
+
     // Create admission
     const admission = await prisma.admission.create({
       data: {
         hospitalId,
         patientId,
         visitId,
+        wardId: ward?.id,
         admittedBy: req.user.id,
         diagnosis,
         admissionNotes,
+        preAuthorizationId: preAuthCheck.preAuthorization?.id,
         status: 'PENDING',
       },
       include: {
@@ -106,12 +168,21 @@ export const createAdmission = async (req: Request, res: Response): Promise<void
         patientId,
         diagnosis,
         status: 'PENDING',
+        preAuthorizationId: preAuthCheck.preAuthorization?.id,
+        preAuthorizationWarning: preAuthCheck.warning,
+        minimumDeposit: depositCheck.minimumDeposit,
+        walletBalance: depositCheck.balance,
+        depositWarning: depositCheck.warning,
       },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
-    res.status(201).json({ admission });
+    res.status(201).json({
+      admission,
+      ...(preAuthCheck.warning && { preAuthorizationWarning: preAuthCheck.warning }),
+      ...(depositCheck.warning && { depositWarning: depositCheck.warning }),
+    });
   } catch (error) {
     console.error('Create admission error:', error);
     res.status(500).json({ error: 'Failed to create admission' });
@@ -293,7 +364,9 @@ export const assignBed = async (req: Request, res: Response): Promise<void> => {
       });
     }
 
-    // Update admission and bed in a transaction
+    // Update admission and bed in a transaction; the bed history closes the
+    // previous stay so a mid-day transfer is priced by time in each bed
+    const movedAt = new Date();
     const [admission] = await prisma.$transaction([
       prisma.admission.update({
         where: { id },
@@ -340,6 +413,18 @@ export const assignBed = async (req: Request, res: Response): Promise<void> => {
           currentAdmissionId: id,
         },
       }),
+      prisma.bedAssignment.updateMany({
+        where: { admissionId: id, endedAt: null },
+        data: { endedAt: movedAt },
+      }),
+      prisma.bedAssignment.create({
+        data: {
+          admissionId: id,
+          bedId: bed.id,
+          startedAt: movedAt,
+          assignedBy: req.user.id,
+        },
+      }),
     ]);
 
     // Audit log
@@ -398,28 +483,34 @@ export const dischargePatient = async (req: Request, res: Response): Promise<voi
     }
 
     // Update admission and free bed in a transaction
-    const updates = [
-      prisma.admission.update({
-        where: { id },
-        data: {
-          status: 'DISCHARGED',
-          dischargeDate: new Date(),
-          dischargeNotes,
-          dischargeSummary,
-        },
-        include: {
-          patient: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-            },
+    const dischargedAt = new Date();
+    const discharge = prisma.admission.update({
+      where: { id },
+      data: {
+        status: 'DISCHARGED',
+        dischargeDate: dischargedAt,
+        dischargeNotes,
+        dischargeSummary,
+      },
+      include: {
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
           },
         },
+      },
+    });
+
+    // Close the bed stay, and free the bed if assigned
+    const updates: Prisma.PrismaPromise<unknown>[] = [
+      prisma.bedAssignment.updateMany({
+        where: { admissionId: id, endedAt: null },
+        data: { endedAt: dischargedAt },
       }),
     ];
 
-    // Free the bed if assigned
     if (existingAdmission.bedId) {
       updates.push(
         prisma.bed.update({
@@ -429,11 +520,41 @@ export const dischargePatient = async (req: Request, res: Response): Promise<voi
             currentPatientId: null,
             currentAdmissionId: null,
           },
-        }) as any
+        })
       );
     }
 
-    const [admission] = await prisma.$transaction(updates);
+    const [admission] = await prisma.$transaction([discharge, ...updates]);
+
+    // Bill the remaining bed-days, including the discharge day, before settling
+    try {
+      await accrueAdmission(admission.id);
+    } catch (error) {
+      console.error('Discharge bed-day accrual error:', error);
+    }
+
+    // Settle what the deposit covers; whatever is left can be refunded from the wallet
+    const userId = req.user.id;
+    const applied: { billingRecordId: string; amount: number }[] = [];
+    const { autoApply } = walletSettings(await getHospitalSettings(existingAdmission.hospitalId));
+
+    if (autoApply && (await getWalletBalance(existingAdmission.patientId)) > 0) {
+      const openBills = await prisma.billingRecord.findMany({
+        where: { patientId: existingAdmission.patientId, status: { in: ['PENDING', 'PARTIAL'] } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      for (const bill of openBills) {
+        const result = await prisma.$transaction((tx) => applyWalletToBill(tx, bill.id, userId));
+        if (result) {
+          applied.push({ billingRecordId: bill.id, amount: result.amount });
+          broadcastBillingUpdate(existingAdmission.hospitalId, 'payment', result.billingRecord);
+        }
+      }
+    }
+
+    const walletBalance = await getWalletBalance(existingAdmission.patientId);
 
     // Audit log
     await createAuditLog(prisma, {
@@ -445,12 +566,14 @@ export const dischargePatient = async (req: Request, res: Response): Promise<voi
       details: { 
         patientId: existingAdmission.patientId,
         dischargeDate: new Date(),
+        walletApplied: applied,
+        walletBalance,
       },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
-    res.json({ admission });
+    res.json({ admission, wallet: { applied, balance: walletBalance } });
   } catch (error) {
     console.error('Discharge patient error:', error);
     res.status(500).json({ error: 'Failed to discharge patient' });
@@ -527,3 +650,33 @@ export const getActiveAdmissions = async (req: Request, res: Response): Promise<
     res.status(500).json({ error: 'Failed to get active admissions' });
   }
 };
+
+export const getInterimBill = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existingAdmission = await prisma.admission.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existingAdmission) {
+      res.status(404).json({ error: 'Admission not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' &&
+        existingAdmission.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json(await interimBill(existingAdmission.id));
+  } catch (error) {
+    console.error('Get interim bill error:', error);
+    res.status(500).json({ error: 'Failed to get interim bill' });
+  }
+};
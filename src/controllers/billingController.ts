@@ -1,9 +1,33 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { resolveBillingStatus, splitBillAmount } from '../utils/billing';
+import { MAX_RANGE_DAYS, addDays, daysInRange, hospitalTimezone, isDateKey, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { canOverridePrices, resolveBillItems, TariffError } from '../services/tariffs';
+import { renderInvoicePdf, renderReceiptPdf } from '../services/billingDocuments';
+import { nextDocumentNumber } from '../services/documentNumbers';
+import { autoApplyWallet } from '../services/wallet';
+import { CashierSessionError, cashierSettings, tillSessionFor } from '../services/cashierSessions';
+import { CorporateAccountError, routeBillToAccount } from '../services/corporateAccounts';
+import { planProgress } from '../services/paymentPlans';
+import { computeItemTaxes, taxRules, taxSummary } from '../services/taxes';
 
 const prisma = new PrismaClient();
 
+/**
+ * Match bills by invoice number or by the receipt number of any payment on them.
+ */
+const documentNumberFilter = (number: string) => {
+  const search = number.trim();
+  return {
+    OR: [
+      { invoiceNumber: { contains: search, mode: 'insensitive' as const } },
+      { payments: { some: { receiptNumber: { contains: search, mode: 'insensitive' as const } } } },
+    ],
+  };
+};
+
 export const createBill = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -11,13 +35,18 @@ export const createBill = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const { id: clientId, visitId, patientId, items, insuranceProvider, insurancePolicyNumber, insuranceCoverage } = req.body;
+    const { id: clientId, visitId, patientId, items, insuranceProvider, insurancePolicyNumber, insuranceCoverage, corporateAccountId } = req.body;
 
     if (!visitId || !patientId || !items || items.length === 0) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
     }
 
+    if (corporateAccountId && insuranceProvider) {
+      res.status(400).json({ error: 'A bill goes to either an insurer or a corporate account, not both' });
+      return;
+    }
+
     // Check visit exists and hospital access
     const visit = await prisma.visit.findUnique({ where: { id: visitId } });
 
@@ -31,49 +60,85 @@ export const createBill = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Price items from the hospital's tariffs; ad-hoc prices need override permission
+    const settings = await getHospitalSettings(visit.hospitalId);
+    let resolvedItems;
+    try {
+      resolvedItems = await resolveBillItems(visit.hospitalId, items, {
+        insuranceProvider,
+        allowOverride: canOverridePrices(req.user.role, settings),
+      });
+    } catch (error) {
+      if (error instanceof TariffError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    // Tax each line under the hospital's current rules
+    const rules = taxRules(settings);
+    const taxedItems = resolvedItems.map((item) => {
+      const { taxAmount, taxes } = computeItemTaxes(item, rules);
+      return { ...item, taxAmount, ...(taxes.length > 0 && { taxes }) };
+    });
+
     // Calculate total amount
-    const totalAmount = items.reduce((sum: number, item: { amount: number; quantity: number }) => {
-      return sum + (item.amount * item.quantity);
+    const taxAmount = taxedItems.reduce((sum, item) => sum + item.taxAmount, 0);
+    const totalAmount = taxedItems.reduce((sum, item) => {
+      return sum + (item.amount * item.quantity) + item.taxAmount;
     }, 0);
-
-    // Create billing record with items and optional insurance info
-    const billingRecord = await prisma.billingRecord.create({
-      data: {
-        ...(clientId && { id: clientId }),  // Use client ID if provided for offline sync
-        visitId,
-        patientId,
-        hospitalId: visit.hospitalId,
-        status: 'PENDING',
-        totalAmount,
-        paidAmount: 0,
-        insuranceProvider: insuranceProvider || undefined,
-        insurancePolicyNumber: insurancePolicyNumber || undefined,
-        insuranceCoverage: insuranceCoverage ? parseFloat(insuranceCoverage) : undefined,
-        createdBy: req.user.id,
-        items: {
-          create: items.map((item: {
-            description: string;
-            category: string;
-            amount: number;
-            quantity?: number;
-          }) => ({
-            description: item.description,
-            category: item.category,
-            amount: item.amount,
-            quantity: item.quantity || 1,
-          })),
+    const coverage = insuranceCoverage ? parseFloat(insuranceCoverage) : undefined;
+
+    // Create billing record with items and optional insurance info; the invoice
+    // number is drawn in the same transaction so a failed insert leaves no gap
+    const userId = req.user.id;
+    const billingRecord = await prisma.$transaction(async (tx) => {
+      const created = await tx.billingRecord.create({
+        data: {
+          ...(clientId && { id: clientId }),  // Use client ID if provided for offline sync
+          invoiceNumber: await nextDocumentNumber(tx, visit.hospitalId, 'INVOICE'),
+          visitId,
+          patientId,
+          hospitalId: visit.hospitalId,
+          status: 'PENDING',
+          totalAmount,
+          taxAmount,
+          paidAmount: 0,
+          insuranceProvider: insuranceProvider || undefined,
+          insurancePolicyNumber: insurancePolicyNumber || undefined,
+          insuranceCoverage: coverage,
+          ...splitBillAmount(totalAmount, insuranceProvider, coverage),
+          createdBy: userId,
+          items: {
+            create: taxedItems,
+          },
         },
-      },
-      include: {
-        items: true,
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+        include: {
+          items: true,
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
+      });
+
+      // Corporate members are billed to their employer at checkout
+      if (corporateAccountId) {
+        await routeBillToAccount(tx, created.id, corporateAccountId);
+      }
+
+      // Deposits cover the bill straight away
+      const applied = await autoApplyWallet(tx, created.id, visit.hospitalId, userId);
+      if (!applied && !corporateAccountId) return created;
+
+      return tx.billingRecord.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { items: true, payments: true, patient: { select: { id: true, firstName: true, lastName: true } } },
+      });
     });
 
     // Audit log
@@ -85,9 +150,13 @@ export const createBill = async (req: Request, res: Response): Promise<void> =>
       entityId: billingRecord.id,
       details: { 
         visitId, 
+        invoiceNumber: billingRecord.invoiceNumber,
         totalAmount, 
+        taxAmount,
         itemsCount: items.length,
+        overriddenItems: resolvedItems.filter((item) => item.priceOverridden).length,
         hasInsurance: !!insuranceProvider,
+        corporateAccountId,
       },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
@@ -95,6 +164,10 @@ export const createBill = async (req: Request, res: Response): Promise<void> =>
 
     res.status(201).json({ billingRecord });
   } catch (error) {
+    if (error instanceof CorporateAccountError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Create bill error:', error);
     res.status(500).json({ error: 'Failed to create bill' });
   }
@@ -114,6 +187,11 @@ export const addPayment = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    if (method === 'DEPOSIT') {
+      res.status(400).json({ error: 'Deposits are applied from the patient wallet' });
+      return;
+    }
+
     // Check billing record exists
     const existingBilling = await prisma.billingRecord.findUnique({
       where: { id: billingRecordId },
@@ -130,54 +208,60 @@ export const addPayment = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Create payment
-    const payment = await prisma.payment.create({
-      data: {
-        billingRecordId,
-        amount,
-        method,
-        reference,
-        receivedBy: req.user.id,
-      },
-    });
-
-    // Update billing record
-    const newPaidAmount = existingBilling.paidAmount + amount;
-    let newStatus = existingBilling.status;
-
-    if (newPaidAmount >= existingBilling.totalAmount) {
-      newStatus = 'PAID';
-    } else if (newPaidAmount > 0) {
-      newStatus = 'PARTIAL';
-    }
-
-    const billingRecord = await prisma.billingRecord.update({
-      where: { id: billingRecordId },
-      data: {
-        paidAmount: newPaidAmount,
-        status: newStatus,
-      },
-      include: {
-        items: true,
-        payments: {
-          include: {
-            receivedByUser: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
+    const userId = req.user.id;
+
+    // Money at the desk goes through the cashier's open till; insurer payments do not
+    const { requireOpenSession } = cashierSettings(await getHospitalSettings(existingBilling.hospitalId));
+
+    // Payment, receipt number and bill update commit together
+    const { payment, billingRecord } = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          billingRecordId,
+          amount,
+          method,
+          reference,
+          receiptNumber: await nextDocumentNumber(tx, existingBilling.hospitalId, 'RECEIPT'),
+          receivedBy: userId,
+          cashierSessionId: await tillSessionFor(tx, userId, existingBilling.hospitalId, requireOpenSession && method !== 'INSURANCE'),
+        },
+      });
+
+      // Increment rather than overwrite, so refunds and other payments landing at once are kept
+      const paid = await tx.billingRecord.update({
+        where: { id: billingRecordId },
+        data: { paidAmount: { increment: amount } },
+      });
+
+      const billingRecord = await tx.billingRecord.update({
+        where: { id: billingRecordId },
+        data: {
+          status: resolveBillingStatus(paid.totalAmount, paid.paidAmount, paid.status),
+        },
+        include: {
+          items: true,
+          payments: {
+            include: {
+              receivedByUser: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                },
               },
             },
           },
-        },
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
+      });
+
+      return { payment, billingRecord };
     });
 
     // Audit log
@@ -187,13 +271,24 @@ export const addPayment = async (req: Request, res: Response): Promise<void> =>
       action: 'ADD_PAYMENT',
       entity: 'PAYMENT',
       entityId: payment.id,
-      details: { billingRecordId, amount, method, newStatus },
+      details: {
+        billingRecordId,
+        receiptNumber: payment.receiptNumber,
+        amount,
+        method,
+        newStatus: billingRecord.status,
+        cashierSessionId: payment.cashierSessionId,
+      },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
     res.status(201).json({ payment, billingRecord });
   } catch (error) {
+    if (error instanceof CashierSessionError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Add payment error:', error);
     res.status(500).json({ error: 'Failed to add payment' });
   }
@@ -261,16 +356,27 @@ export const getOutstandingBills = async (req: Request, res: Response): Promise<
       return;
     }
 
+    const { number, overdue } = req.query;
+
     // Build filter
     const where: Record<string, unknown> = {
       status: { in: ['PENDING', 'PARTIAL'] },
     };
 
+    // Only bills on a payment plan can fall overdue
+    if (overdue === 'true') {
+      where.paymentPlans = { some: { status: 'ACTIVE' } };
+    }
+
     // Scope by hospital
     if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
       where.hospitalId = req.user.hospitalId;
     }
 
+    if (number) {
+      Object.assign(where, documentNumberFilter(number as string));
+    }
+
     const billingRecords = await prisma.billingRecord.findMany({
       where,
       include: {
@@ -291,11 +397,43 @@ export const getOutstandingBills = async (req: Request, res: Response): Promise<
             department: true,
           },
         },
+        paymentPlans: {
+          where: { status: 'ACTIVE' },
+          include: { installments: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    res.json({ billingRecords });
+    // Flag instalments that have fallen due, in each hospital's timezone
+    const timezones = new Map<string, string>();
+    const withPlans = [];
+    for (const { paymentPlans, ...bill } of billingRecords) {
+      const plan = paymentPlans[0];
+      if (plan && !timezones.has(bill.hospitalId)) {
+        timezones.set(bill.hospitalId, hospitalTimezone(await getHospitalSettings(bill.hospitalId)));
+      }
+      const progress = plan ? planProgress(plan, bill, timezones.get(bill.hospitalId)!) : null;
+      if (overdue === 'true' && !progress?.overdue) continue;
+
+      withPlans.push({
+        ...bill,
+        paymentPlan: plan && progress
+          ? {
+              id: plan.id,
+              totalAmount: plan.totalAmount,
+              remaining: progress.remaining,
+              nextDue: progress.nextDue,
+              overdue: progress.overdue,
+              overdueAmount: progress.overdueAmount,
+              overdueSince: progress.overdueSince,
+              daysOverdue: progress.daysOverdue,
+            }
+          : null,
+      });
+    }
+
+    res.json({ billingRecords: withPlans });
   } catch (error) {
     console.error('Get outstanding bills error:', error);
     res.status(500).json({ error: 'Failed to get outstanding bills' });
@@ -324,8 +462,13 @@ export const getBillsByPatient = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    const { number } = req.query;
+
     const billingRecords = await prisma.billingRecord.findMany({
-      where: { patientId },
+      where: {
+        patientId,
+        ...(number && documentNumberFilter(number as string)),
+      },
       include: {
         items: true,
         payments: {
@@ -356,3 +499,136 @@ export const getBillsByPatient = async (req: Request, res: Response): Promise<vo
     res.status(500).json({ error: 'Failed to get patient billing records' });
   }
 };
+
+export const getInvoicePdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const billingRecord = await prisma.billingRecord.findUnique({ where: { id } });
+
+    if (!billingRecord) {
+      res.status(404).json({ error: 'Billing record not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && billingRecord.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { number, pdf } = await renderInvoicePdf(id);
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: billingRecord.hospitalId,
+      action: 'PRINT_INVOICE',
+      entity: 'BILLING_RECORD',
+      entityId: id,
+      details: { invoiceNumber: number },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${number}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Get invoice PDF error:', error);
+    res.status(500).json({ error: 'Failed to generate invoice' });
+  }
+};
+
+export const getReceiptPdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: { billingRecord: { select: { hospitalId: true } } },
+    });
+
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && payment.billingRecord.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { number, pdf } = await renderReceiptPdf(id);
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: payment.billingRecord.hospitalId,
+      action: 'PRINT_RECEIPT',
+      entity: 'PAYMENT',
+      entityId: id,
+      details: { receiptNumber: number, billingRecordId: payment.billingRecordId },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${number}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Get receipt PDF error:', error);
+    res.status(500).json({ error: 'Failed to generate receipt' });
+  }
+};
+
+export const getTaxSummary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.query.hospitalId as string
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    // Whole local days, defaulting to the month to date
+    const timezone = hospitalTimezone(await getHospitalSettings(hospitalId));
+    const today = localDateKey(new Date(), timezone);
+    const startDate = (req.query.startDate as string) || `${today.slice(0, 7)}-01`;
+    const endDate = (req.query.endDate as string) || today;
+
+    if (!isDateKey(startDate) || !isDateKey(endDate) || startDate > endDate) {
+      res.status(400).json({ error: 'Provide startDate and endDate as YYYY-MM-DD, start on or before end' });
+      return;
+    }
+
+    if (daysInRange(startDate, endDate) > MAX_RANGE_DAYS) {
+      res.status(400).json({ error: `A tax summary can cover at most ${MAX_RANGE_DAYS} days` });
+      return;
+    }
+
+    const dayAfterEnd = addDays(endDate, 1);
+    const summary = await taxSummary(hospitalId, startOfLocalDay(startDate, timezone), startOfLocalDay(dayAfterEnd, timezone));
+
+    res.json({ hospitalId, startDate, endDate, ...summary });
+  } catch (error) {
+    console.error('Get tax summary error:', error);
+    res.status(500).json({ error: 'Failed to get tax summary' });
+  }
+};
@@ -0,0 +1,377 @@
+import { Request, Response } from 'express';
+import { CashierSession, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { hospitalTimezone, isDateKey, localDateKey } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import {
+  CashierSessionError,
+  cashierSettings,
+  closeSession,
+  expectedAmounts,
+  findOpenSession,
+  isTillMethod,
+  zReport,
+} from '../services/cashierSessions';
+
+const prisma = new PrismaClient();
+
+const findAccessibleSession = async (req: Request, res: Response): Promise<CashierSession | null> => {
+  const session = await prisma.cashierSession.findUnique({ where: { id: req.params.id } });
+
+  if (!session) {
+    res.status(404).json({ error: 'Cashier session not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && session.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return session;
+};
+
+// Cashiers see their own tills; admins see every till in the hospital
+const isTillAdmin = (role: string): boolean => role === 'ADMIN' || role === 'SUPER_ADMIN';
+
+export const openSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const openingFloat = req.body.openingFloat !== undefined ? parseFloat(req.body.openingFloat) : 0;
+
+    if (isNaN(openingFloat) || openingFloat < 0) {
+      res.status(400).json({ error: 'Opening float must be zero or more' });
+      return;
+    }
+
+    // Determine hospital ID
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.body.hospitalId
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const existing = await findOpenSession(prisma, req.user.id);
+
+    if (existing) {
+      res.status(409).json({ error: 'You already have an open cashier session', session: existing });
+      return;
+    }
+
+    const session = await prisma.cashierSession.create({
+      data: {
+        hospitalId,
+        cashierId: req.user.id,
+        openingFloat,
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId,
+      action: 'OPEN_CASHIER_SESSION',
+      entity: 'CASHIER_SESSION',
+      entityId: session.id,
+      details: { openingFloat },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ session });
+  } catch (error) {
+    console.error('Open cashier session error:', error);
+    res.status(500).json({ error: 'Failed to open cashier session' });
+  }
+};
+
+export const getCurrentSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const session = await findOpenSession(prisma, req.user.id);
+
+    if (!session) {
+      res.json({ session: null });
+      return;
+    }
+
+    res.json({ session, expected: await expectedAmounts(prisma, session.id) });
+  } catch (error) {
+    console.error('Get current cashier session error:', error);
+    res.status(500).json({ error: 'Failed to get cashier session' });
+  }
+};
+
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { page = '1', limit = '50', status, cashierId, startDate, endDate } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    if (req.user.role !== 'SUPER_ADMIN') {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (!isTillAdmin(req.user.role)) {
+      where.cashierId = req.user.id;
+    } else if (cashierId) {
+      where.cashierId = cashierId;
+    }
+
+    if (status) where.status = status;
+
+    if (startDate || endDate) {
+      const dateFilter: Record<string, Date> = {};
+      if (startDate) dateFilter.gte = new Date(startDate as string);
+      if (endDate) dateFilter.lte = new Date(endDate as string);
+      where.openedAt = dateFilter;
+    }
+
+    const [sessions, total] = await Promise.all([
+      prisma.cashierSession.findMany({
+        where,
+        include: {
+          cashier: { select: { id: true, firstName: true, lastName: true } },
+          signedOffByUser: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { openedAt: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.cashierSession.count({ where }),
+    ]);
+
+    res.json({
+      sessions,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get cashier sessions error:', error);
+    res.status(500).json({ error: 'Failed to get cashier sessions' });
+  }
+};
+
+export const getSessionById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleSession(req, res);
+    if (!existing) return;
+
+    if (!isTillAdmin(req.user.role) && existing.cashierId !== req.user.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const session = await prisma.cashierSession.findUnique({
+      where: { id: existing.id },
+      include: {
+        cashier: { select: { id: true, firstName: true, lastName: true } },
+        signedOffByUser: { select: { id: true, firstName: true, lastName: true } },
+        payments: {
+          select: { id: true, amount: true, method: true, receiptNumber: true, reference: true, billingRecordId: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        refunds: {
+          select: { id: true, type: true, method: true, amount: true, paymentId: true, completedAt: true },
+          where: { status: 'COMPLETED' },
+        },
+        walletTransactions: {
+          select: { id: true, type: true, method: true, amount: true, receiptNumber: true, createdAt: true },
+        },
+      },
+    });
+
+    // Running totals while the till is still open
+    const expected = existing.status === 'OPEN'
+      ? await expectedAmounts(prisma, existing.id)
+      : existing.expectedAmounts;
+
+    res.json({ session, expected });
+  } catch (error) {
+    console.error('Get cashier session error:', error);
+    res.status(500).json({ error: 'Failed to get cashier session' });
+  }
+};
+
+export const closeCashierSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { declaredAmounts, notes } = req.body;
+
+    if (!declaredAmounts || typeof declaredAmounts !== 'object') {
+      res.status(400).json({ error: 'Declared amounts per payment method are required' });
+      return;
+    }
+
+    const declared: Record<string, number> = {};
+    for (const [method, value] of Object.entries(declaredAmounts)) {
+      const amount = parseFloat(value as string);
+      if (!isTillMethod(method) || isNaN(amount) || amount < 0) {
+        res.status(400).json({ error: `Invalid declared amount for ${method}` });
+        return;
+      }
+      declared[method] = amount;
+    }
+
+    const existing = await findAccessibleSession(req, res);
+    if (!existing) return;
+
+    // Admins may close an abandoned till on a cashier's behalf
+    if (existing.cashierId !== req.user.id && !isTillAdmin(req.user.role)) {
+      res.status(403).json({ error: 'Only the cashier can close their session' });
+      return;
+    }
+
+    const { session, variance } = await closeSession(existing.id, declared, notes);
+
+    const { varianceTolerance } = cashierSettings(await getHospitalSettings(existing.hospitalId));
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'CLOSE_CASHIER_SESSION',
+      entity: 'CASHIER_SESSION',
+      entityId: existing.id,
+      details: {
+        cashierId: existing.cashierId,
+        expected: session.expectedAmounts,
+        declared: session.declaredAmounts,
+        variance: variance.total,
+        notes,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ session, variance, flagged: Math.abs(variance.total) > varianceTolerance });
+  } catch (error) {
+    if (error instanceof CashierSessionError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Close cashier session error:', error);
+    res.status(500).json({ error: 'Failed to close cashier session' });
+  }
+};
+
+export const signOffSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { notes } = req.body;
+
+    const existing = await findAccessibleSession(req, res);
+    if (!existing) return;
+
+    if (existing.status !== 'CLOSED') {
+      res.status(400).json({ error: existing.status === 'OPEN' ? 'Session must be closed first' : 'Session already signed off' });
+      return;
+    }
+
+    if (existing.cashierId === req.user.id) {
+      res.status(403).json({ error: 'You cannot sign off your own session' });
+      return;
+    }
+
+    // Unexplained shortages need a note from the reviewer
+    const { varianceTolerance } = cashierSettings(await getHospitalSettings(existing.hospitalId));
+    if (Math.abs(existing.variance || 0) > varianceTolerance && !notes) {
+      res.status(400).json({ error: 'Notes are required to sign off a session with a variance' });
+      return;
+    }
+
+    const session = await prisma.cashierSession.update({
+      where: { id: existing.id },
+      data: {
+        status: 'SIGNED_OFF',
+        signedOffBy: req.user.id,
+        signedOffAt: new Date(),
+        signOffNotes: notes,
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'SIGN_OFF_CASHIER_SESSION',
+      entity: 'CASHIER_SESSION',
+      entityId: existing.id,
+      details: { cashierId: existing.cashierId, variance: existing.variance, notes },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Sign off cashier session error:', error);
+    res.status(500).json({ error: 'Failed to sign off cashier session' });
+  }
+};
+
+export const getZReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.query.hospitalId as string
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const settings = await getHospitalSettings(hospitalId);
+    const timezone = hospitalTimezone(settings);
+    const date = (req.query.date as string) || localDateKey(new Date(), timezone);
+
+    if (!isDateKey(date)) {
+      res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+      return;
+    }
+
+    const report = await zReport(hospitalId, date, timezone, cashierSettings(settings).varianceTolerance);
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get Z-report error:', error);
+    res.status(500).json({ error: 'Failed to get Z-report' });
+  }
+};
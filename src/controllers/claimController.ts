@@ -0,0 +1,514 @@
+import { Request, Response } from 'express';
+import { Claim, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import {
+  assertClaimTransition,
+  batchClaims,
+  ClaimError,
+  claimsAgeing,
+  recordRemittance,
+} from '../services/claims';
+
+const prisma = new PrismaClient();
+
+/**
+ * Load a claim for a status change, answering 404/403 itself when the
+ * caller cannot act on it.
+ */
+const findAccessibleClaim = async (req: Request, res: Response): Promise<Claim | null> => {
+  const claim = await prisma.claim.findUnique({ where: { id: req.params.id } });
+
+  if (!claim) {
+    res.status(404).json({ error: 'Claim not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && claim.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return claim;
+};
+
+export const createClaimBatch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { periodStart, periodEnd, insuranceProvider } = req.body;
+    const hospitalId = req.user.role === 'SUPER_ADMIN' ? req.body.hospitalId : req.user.hospitalId;
+
+    if (!hospitalId || !periodStart || !periodEnd) {
+      res.status(400).json({ error: 'Missing required fields' });
+      return;
+    }
+
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      res.status(400).json({ error: 'Invalid claim period' });
+      return;
+    }
+
+    const claims = await batchClaims(hospitalId, { periodStart: start, periodEnd: end, insuranceProvider }, req.user.id);
+
+    for (const claim of claims) {
+      await createAuditLog(prisma, {
+        userId: req.user.id,
+        hospitalId,
+        action: 'CREATE_CLAIM',
+        entity: 'CLAIM',
+        entityId: claim.id,
+        details: {
+          insuranceProvider: claim.insuranceProvider,
+          periodStart: start,
+          periodEnd: end,
+          totalAmount: claim.totalAmount,
+        },
+        ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+        userAgent: String(req.headers['user-agent'] || ''),
+      });
+    }
+
+    res.status(claims.length > 0 ? 201 : 200).json({ claims });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Create claim batch error:', error);
+    res.status(500).json({ error: 'Failed to create claims' });
+  }
+};
+
+export const getClaims = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { status, insuranceProvider, page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (insuranceProvider) {
+      where.insuranceProvider = { equals: insuranceProvider as string, mode: 'insensitive' };
+    }
+
+    const [claims, total] = await Promise.all([
+      prisma.claim.findMany({
+        where,
+        include: {
+          _count: { select: { billingRecords: true } },
+        },
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.claim.count({ where }),
+    ]);
+
+    res.json({
+      claims,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get claims error:', error);
+    res.status(500).json({ error: 'Failed to get claims' });
+  }
+};
+
+export const getClaimById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const claim = await prisma.claim.findUnique({
+      where: { id },
+      include: {
+        billingRecords: {
+          include: {
+            items: true,
+            patient: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        remittances: {
+          include: {
+            recordedByUser: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+          orderBy: { receivedAt: 'asc' },
+        },
+        creator: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    if (!claim) {
+      res.status(404).json({ error: 'Claim not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && claim.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json({ claim });
+  } catch (error) {
+    console.error('Get claim error:', error);
+    res.status(500).json({ error: 'Failed to get claim' });
+  }
+};
+
+export const submitClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    assertClaimTransition(existing.status, 'SUBMITTED');
+
+    const { payerReference } = req.body;
+
+    // Ageing runs from the first submission, not from a resubmission after a query
+    const claim = await prisma.claim.update({
+      where: { id: existing.id },
+      data: {
+        status: 'SUBMITTED',
+        submittedAt: existing.submittedAt || new Date(),
+        ...(payerReference && { payerReference }),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: claim.hospitalId,
+      action: existing.status === 'QUERIED' ? 'RESUBMIT_CLAIM' : 'SUBMIT_CLAIM',
+      entity: 'CLAIM',
+      entityId: claim.id,
+      details: { insuranceProvider: claim.insuranceProvider, totalAmount: claim.totalAmount, payerReference },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ claim });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Submit claim error:', error);
+    res.status(500).json({ error: 'Failed to submit claim' });
+  }
+};
+
+export const queryClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { notes } = req.body;
+
+    if (!notes) {
+      res.status(400).json({ error: 'Query notes are required' });
+      return;
+    }
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    assertClaimTransition(existing.status, 'QUERIED');
+
+    const claim = await prisma.claim.update({
+      where: { id: existing.id },
+      data: { status: 'QUERIED', queryNotes: notes },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: claim.hospitalId,
+      action: 'QUERY_CLAIM',
+      entity: 'CLAIM',
+      entityId: claim.id,
+      details: { notes },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ claim });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Query claim error:', error);
+    res.status(500).json({ error: 'Failed to record claim query' });
+  }
+};
+
+export const approveClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const approvedAmount = req.body.approvedAmount !== undefined ? parseFloat(req.body.approvedAmount) : NaN;
+    const { payerReference } = req.body;
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    if (isNaN(approvedAmount) || approvedAmount < 0 || approvedAmount > existing.totalAmount) {
+      res.status(400).json({ error: 'Approved amount must be between 0 and the claimed amount' });
+      return;
+    }
+
+    assertClaimTransition(existing.status, 'APPROVED');
+
+    const claim = await prisma.claim.update({
+      where: { id: existing.id },
+      data: {
+        status: 'APPROVED',
+        approvedAmount,
+        ...(payerReference && { payerReference }),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: claim.hospitalId,
+      action: 'APPROVE_CLAIM',
+      entity: 'CLAIM',
+      entityId: claim.id,
+      details: { totalAmount: claim.totalAmount, approvedAmount, payerReference },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ claim });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Approve claim error:', error);
+    res.status(500).json({ error: 'Failed to approve claim' });
+  }
+};
+
+export const rejectClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { reason } = req.body;
+
+    if (!reason) {
+      res.status(400).json({ error: 'Rejection reason is required' });
+      return;
+    }
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    assertClaimTransition(existing.status, 'REJECTED');
+
+    // Release the bills so the payer portions can be billed or claimed again
+    const [released, claim] = await prisma.$transaction([
+      prisma.billingRecord.updateMany({ where: { claimId: existing.id }, data: { claimId: null } }),
+      prisma.claim.update({
+        where: { id: existing.id },
+        data: { status: 'REJECTED', rejectionReason: reason },
+      }),
+    ]);
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: claim.hospitalId,
+      action: 'REJECT_CLAIM',
+      entity: 'CLAIM',
+      entityId: claim.id,
+      details: { reason, totalAmount: claim.totalAmount, releasedBills: released.count },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ claim });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Reject claim error:', error);
+    res.status(500).json({ error: 'Failed to reject claim' });
+  }
+};
+
+export const deleteClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    if (existing.status !== 'DRAFT') {
+      res.status(400).json({ error: 'Only draft claims can be deleted' });
+      return;
+    }
+
+    // Release the bills so they can be batched again
+    await prisma.$transaction([
+      prisma.billingRecord.updateMany({ where: { claimId: existing.id }, data: { claimId: null } }),
+      prisma.claim.delete({ where: { id: existing.id } }),
+    ]);
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'DELETE_CLAIM',
+      entity: 'CLAIM',
+      entityId: existing.id,
+      details: { insuranceProvider: existing.insuranceProvider, totalAmount: existing.totalAmount },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ message: 'Claim deleted' });
+  } catch (error) {
+    console.error('Delete claim error:', error);
+    res.status(500).json({ error: 'Failed to delete claim' });
+  }
+};
+
+export const addClaimRemittance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const amount = parseFloat(req.body.amount);
+    const { reference, notes, receivedAt } = req.body;
+
+    if (isNaN(amount) || amount <= 0) {
+      res.status(400).json({ error: 'Valid remittance amount is required' });
+      return;
+    }
+
+    const existing = await findAccessibleClaim(req, res);
+    if (!existing) return;
+
+    const { claim, remittance, updatedBillIds } = await recordRemittance(
+      existing.id,
+      { amount, reference, notes, receivedAt: receivedAt ? new Date(receivedAt) : undefined },
+      req.user.id
+    );
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: claim.hospitalId,
+      action: 'RECORD_REMITTANCE',
+      entity: 'CLAIM',
+      entityId: claim.id,
+      details: {
+        remittanceId: remittance.id,
+        amount,
+        reference,
+        billsPaid: updatedBillIds.length,
+        newStatus: claim.status,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ remittance, claim });
+  } catch (error) {
+    if (error instanceof ClaimError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Add claim remittance error:', error);
+    res.status(500).json({ error: 'Failed to record remittance' });
+  }
+};
+
+export const getClaimsAgeing = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? (req.query.hospitalId as string | undefined)
+      : req.user.hospitalId;
+
+    if (hospitalId === null) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const ageing = await claimsAgeing(hospitalId);
+
+    res.json({ ageing });
+  } catch (error) {
+    console.error('Get claims ageing error:', error);
+    res.status(500).json({ error: 'Failed to get claims ageing' });
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { emitClinicalEvent } from '../services/clinicalEvents';
 
 const prisma = new PrismaClient();
 
@@ -89,6 +90,16 @@ export const createConsultation = async (req: Request, res: Response): Promise<v
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
+    // Bill the consultation
+    emitClinicalEvent({
+      type: 'consultation.created',
+      hospitalId: visit.hospitalId,
+      visitId,
+      patientId: visit.patientId,
+      consultationId: consultation.id,
+      userId: req.user.id,
+    });
+
     res.status(201).json({ consultation });
   } catch (error) {
     console.error('Create consultation error:', error);
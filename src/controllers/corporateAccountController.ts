@@ -0,0 +1,601 @@
+import { Request, Response } from 'express';
+import { CorporateAccount, PaymentMethod, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { hospitalTimezone, localDateKey } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import {
+  CorporateAccountError,
+  accountOutstanding,
+  corporateStatement,
+  findActiveMembership,
+  recordCorporatePayment as allocateCorporatePayment,
+  routeBillToAccount,
+} from '../services/corporateAccounts';
+
+const prisma = new PrismaClient();
+
+const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'BANK_TRANSFER', 'MOBILE_MONEY'];
+
+const findAccessibleAccount = async (req: Request, res: Response): Promise<CorporateAccount | null> => {
+  const account = await prisma.corporateAccount.findUnique({ where: { id: req.params.id } });
+
+  if (!account) {
+    res.status(404).json({ error: 'Corporate account not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && account.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return account;
+};
+
+const parseTerms = (body: Record<string, any>) => ({
+  coveragePercent: body.coveragePercent !== undefined ? parseFloat(body.coveragePercent) : undefined,
+  creditLimit: body.creditLimit === null ? null : body.creditLimit !== undefined ? parseFloat(body.creditLimit) : undefined,
+  paymentTermsDays: body.paymentTermsDays !== undefined ? parseInt(body.paymentTermsDays, 10) : undefined,
+});
+
+const invalidTerms = (terms: ReturnType<typeof parseTerms>): string | null => {
+  if (terms.coveragePercent !== undefined && (isNaN(terms.coveragePercent) || terms.coveragePercent <= 0 || terms.coveragePercent > 100)) {
+    return 'Coverage percent must be between 0 and 100';
+  }
+  if (terms.creditLimit !== undefined && terms.creditLimit !== null && (isNaN(terms.creditLimit) || terms.creditLimit < 0)) {
+    return 'Credit limit must be zero or more';
+  }
+  if (terms.paymentTermsDays !== undefined && (isNaN(terms.paymentTermsDays) || terms.paymentTermsDays < 0)) {
+    return 'Payment terms must be zero or more days';
+  }
+  return null;
+};
+
+export const createAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { code, name, contactName, contactEmail, contactPhone, address } = req.body;
+    const terms = parseTerms(req.body);
+    const termsError = invalidTerms(terms);
+
+    if (!code || !name) {
+      res.status(400).json({ error: 'Code and name are required' });
+      return;
+    }
+
+    if (termsError) {
+      res.status(400).json({ error: termsError });
+      return;
+    }
+
+    // Determine hospital ID
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.body.hospitalId
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const normalizedCode = String(code).trim().toUpperCase();
+    const existing = await prisma.corporateAccount.findUnique({
+      where: { hospitalId_code: { hospitalId, code: normalizedCode } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: `A corporate account with code ${normalizedCode} already exists` });
+      return;
+    }
+
+    const account = await prisma.corporateAccount.create({
+      data: {
+        hospitalId,
+        code: normalizedCode,
+        name,
+        contactName,
+        contactEmail,
+        contactPhone,
+        address,
+        coveragePercent: terms.coveragePercent,
+        creditLimit: terms.creditLimit,
+        paymentTermsDays: terms.paymentTermsDays,
+        createdBy: req.user.id,
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId,
+      action: 'CREATE_CORPORATE_ACCOUNT',
+      entity: 'CORPORATE_ACCOUNT',
+      entityId: account.id,
+      details: { code: account.code, name, ...terms },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ account });
+  } catch (error) {
+    console.error('Create corporate account error:', error);
+    res.status(500).json({ error: 'Failed to create corporate account' });
+  }
+};
+
+export const getAccounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { page = '1', limit = '50', status, search } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    if (req.user.role !== 'SUPER_ADMIN') {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (status) where.status = status;
+
+    if (search) {
+      where.OR = [
+        { code: { contains: search as string, mode: 'insensitive' } },
+        { name: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const [accounts, total] = await Promise.all([
+      prisma.corporateAccount.findMany({
+        where,
+        include: { _count: { select: { members: { where: { active: true } } } } },
+        orderBy: { name: 'asc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.corporateAccount.count({ where }),
+    ]);
+
+    res.json({
+      accounts,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get corporate accounts error:', error);
+    res.status(500).json({ error: 'Failed to get corporate accounts' });
+  }
+};
+
+export const getAccountById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleAccount(req, res);
+    if (!existing) return;
+
+    const [account, outstanding] = await Promise.all([
+      prisma.corporateAccount.findUnique({
+        where: { id: existing.id },
+        include: {
+          members: {
+            where: req.query.includeEnded === 'true' ? {} : { active: true },
+            include: {
+              patient: { select: { id: true, firstName: true, lastName: true, dateOfBirth: true } },
+            },
+            orderBy: { enrolledAt: 'asc' },
+          },
+          creator: { select: { id: true, firstName: true, lastName: true } },
+        },
+      }),
+      accountOutstanding(prisma, existing.id),
+    ]);
+
+    res.json({
+      account,
+      outstanding,
+      availableCredit: existing.creditLimit !== null ? Math.max(existing.creditLimit - outstanding, 0) : null,
+    });
+  } catch (error) {
+    console.error('Get corporate account error:', error);
+    res.status(500).json({ error: 'Failed to get corporate account' });
+  }
+};
+
+export const updateAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleAccount(req, res);
+    if (!existing) return;
+
+    const { name, contactName, contactEmail, contactPhone, address, status } = req.body;
+    const terms = parseTerms(req.body);
+    const termsError = invalidTerms(terms);
+
+    if (termsError) {
+      res.status(400).json({ error: termsError });
+      return;
+    }
+
+    // Changed terms apply to bills routed from now on; routed bills keep their split
+    const account = await prisma.corporateAccount.update({
+      where: { id: existing.id },
+      data: {
+        name,
+        contactName,
+        contactEmail,
+        contactPhone,
+        address,
+        status,
+        coveragePercent: terms.coveragePercent,
+        creditLimit: terms.creditLimit,
+        paymentTermsDays: terms.paymentTermsDays,
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'UPDATE_CORPORATE_ACCOUNT',
+      entity: 'CORPORATE_ACCOUNT',
+      entityId: existing.id,
+      details: { changes: req.body, previousStatus: existing.status },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ account });
+  } catch (error) {
+    console.error('Update corporate account error:', error);
+    res.status(500).json({ error: 'Failed to update corporate account' });
+  }
+};
+
+export const enrollMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { patientId, relationship = 'EMPLOYEE', employeeNumber, principalId } = req.body;
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    if (account.status !== 'ACTIVE') {
+      res.status(400).json({ error: `Cannot enroll members on a ${account.status} account` });
+      return;
+    }
+
+    const patient = await prisma.patient.findUnique({ where: { id: patientId } });
+
+    if (!patient || patient.hospitalId !== account.hospitalId) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    // Dependants are covered through an employee who is still enrolled
+    if (relationship === 'DEPENDANT') {
+      const principal = principalId
+        ? await prisma.corporateMember.findFirst({
+            where: { id: principalId, corporateAccountId: account.id, relationship: 'EMPLOYEE', active: true },
+          })
+        : null;
+
+      if (!principal) {
+        res.status(400).json({ error: 'Dependants must be enrolled under an active employee on this account' });
+        return;
+      }
+    }
+
+    const current = await findActiveMembership(prisma, patientId);
+
+    if (current && current.corporateAccountId !== account.id) {
+      res.status(409).json({
+        error: `Patient is already enrolled on ${current.corporateAccount.name}`,
+        membership: current,
+      });
+      return;
+    }
+
+    // Re-enrolling a former member reopens their membership
+    const member = await prisma.corporateMember.upsert({
+      where: { corporateAccountId_patientId: { corporateAccountId: account.id, patientId } },
+      create: {
+        corporateAccountId: account.id,
+        patientId,
+        relationship,
+        employeeNumber,
+        principalId: relationship === 'DEPENDANT' ? principalId : null,
+      },
+      update: {
+        relationship,
+        employeeNumber,
+        principalId: relationship === 'DEPENDANT' ? principalId : null,
+        active: true,
+        enrolledAt: new Date(),
+        endedAt: null,
+      },
+      include: { patient: { select: { id: true, firstName: true, lastName: true } } },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: account.hospitalId,
+      action: 'ENROLL_CORPORATE_MEMBER',
+      entity: 'CORPORATE_ACCOUNT',
+      entityId: account.id,
+      details: { memberId: member.id, patientId, relationship, employeeNumber, principalId },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ member });
+  } catch (error) {
+    console.error('Enroll corporate member error:', error);
+    res.status(500).json({ error: 'Failed to enroll member' });
+  }
+};
+
+export const endMembership = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    const member = await prisma.corporateMember.findFirst({
+      where: { id: req.params.memberId, corporateAccountId: account.id },
+    });
+
+    if (!member) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (!member.active) {
+      res.status(400).json({ error: 'Membership already ended' });
+      return;
+    }
+
+    const endedAt = new Date();
+
+    // An employee leaving takes their dependants' cover with them
+    const ended = await prisma.corporateMember.updateMany({
+      where: { OR: [{ id: member.id }, { principalId: member.id, active: true }] },
+      data: { active: false, endedAt },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: account.hospitalId,
+      action: 'END_CORPORATE_MEMBERSHIP',
+      entity: 'CORPORATE_ACCOUNT',
+      entityId: account.id,
+      details: { memberId: member.id, patientId: member.patientId, membershipsEnded: ended.count },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ message: 'Membership ended', membershipsEnded: ended.count });
+  } catch (error) {
+    console.error('End corporate membership error:', error);
+    res.status(500).json({ error: 'Failed to end membership' });
+  }
+};
+
+export const getPatientMembership = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const membership = await findActiveMembership(prisma, req.params.patientId);
+
+    if (membership && req.user.role !== 'SUPER_ADMIN' && membership.corporateAccount.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json({ membership });
+  } catch (error) {
+    console.error('Get corporate membership error:', error);
+    res.status(500).json({ error: 'Failed to get corporate membership' });
+  }
+};
+
+export const routeBill = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { billingRecordId } = req.body;
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    const billingRecord = await prisma.$transaction((tx) => routeBillToAccount(tx, billingRecordId, account.id));
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: account.hospitalId,
+      action: 'ROUTE_BILL_TO_CORPORATE',
+      entity: 'BILLING_RECORD',
+      entityId: billingRecordId,
+      details: { corporateAccountId: account.id, payerAmount: billingRecord.payerAmount, patientAmount: billingRecord.patientAmount },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    broadcastBillingUpdate(account.hospitalId, 'updated', billingRecord);
+
+    res.json({ billingRecord });
+  } catch (error) {
+    if (error instanceof CorporateAccountError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Route bill to corporate account error:', error);
+    res.status(500).json({ error: 'Failed to route bill' });
+  }
+};
+
+export const getStatement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    const timezone = hospitalTimezone(await getHospitalSettings(account.hospitalId));
+    const month = (req.query.month as string) || localDateKey(new Date(), timezone).slice(0, 7);
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      res.status(400).json({ error: 'Month must be YYYY-MM' });
+      return;
+    }
+
+    res.json(await corporateStatement(account.id, month, timezone));
+  } catch (error) {
+    console.error('Get corporate statement error:', error);
+    res.status(500).json({ error: 'Failed to get corporate statement' });
+  }
+};
+
+export const recordCorporatePayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { method, reference, notes, receivedAt, allocations } = req.body;
+    const amount = parseFloat(req.body.amount);
+
+    if (isNaN(amount) || amount <= 0 || !PAYMENT_METHODS.includes(method)) {
+      res.status(400).json({ error: 'Valid amount and payment method are required' });
+      return;
+    }
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    const { corporatePayment, allocations: applied } = await allocateCorporatePayment(
+      account.id,
+      {
+        amount,
+        method,
+        reference,
+        notes,
+        receivedAt: receivedAt ? new Date(receivedAt) : undefined,
+        allocations: Array.isArray(allocations)
+          ? allocations.map((a: Record<string, any>) => ({ billingRecordId: a.billingRecordId, amount: parseFloat(a.amount) }))
+          : undefined,
+      },
+      req.user.id
+    );
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: account.hospitalId,
+      action: 'RECORD_CORPORATE_PAYMENT',
+      entity: 'CORPORATE_ACCOUNT',
+      entityId: account.id,
+      details: { corporatePaymentId: corporatePayment.id, receiptNumber: corporatePayment.receiptNumber, amount, method, allocations: applied },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    const bills = await prisma.billingRecord.findMany({
+      where: { id: { in: applied.map((a) => a.billingRecordId) } },
+    });
+    for (const bill of bills) {
+      broadcastBillingUpdate(account.hospitalId, 'payment', bill);
+    }
+
+    res.status(201).json({ corporatePayment, allocations: applied });
+  } catch (error) {
+    if (error instanceof CorporateAccountError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Record corporate payment error:', error);
+    res.status(500).json({ error: 'Failed to record corporate payment' });
+  }
+};
+
+export const getCorporatePayments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const account = await findAccessibleAccount(req, res);
+    if (!account) return;
+
+    const { page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const where = { corporateAccountId: account.id };
+
+    const [payments, total] = await Promise.all([
+      prisma.corporatePayment.findMany({
+        where,
+        include: {
+          payments: {
+            select: { id: true, amount: true, billingRecord: { select: { id: true, invoiceNumber: true, patientId: true } } },
+          },
+          receivedByUser: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { receivedAt: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.corporatePayment.count({ where }),
+    ]);
+
+    res.json({
+      payments,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get corporate payments error:', error);
+    res.status(500).json({ error: 'Failed to get corporate payments' });
+  }
+};
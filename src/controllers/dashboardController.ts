@@ -90,10 +90,10 @@ export const getDashboardStats = async (req: Request, res: Response): Promise<vo
 
     const outstandingAmount = (outstandingBills._sum.totalAmount || 0) - (outstandingBills._sum.paidAmount || 0);
 
-    // Pending prescriptions
+    // Pending prescriptions, including balances still owed
     const pendingPrescriptions = await prisma.prescription.count({
       where: {
-        status: 'PENDING',
+        status: { in: ['PENDING', 'PARTIALLY_DISPENSED'] },
         ...(req.user.role === 'SUPER_ADMIN' ? {} : { visit: { hospitalId: req.user.hospitalId || undefined } }),
       },
     });
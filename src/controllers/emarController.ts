@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import { Admission, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { addDays, hospitalTimezone, isDateKey, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import {
+  EmarError,
+  annotateDose,
+  emarSettings,
+  medicationDoseInclude,
+  recordDose,
+  recordUnscheduledDose,
+  syncAdmissionDoses,
+  unscheduledItems,
+} from '../services/emar';
+
+const prisma = new PrismaClient();
+
+const findAccessibleAdmission = async (req: Request, res: Response, admissionId: string): Promise<Admission | null> => {
+  const admission = await prisma.admission.findUnique({ where: { id: admissionId } });
+
+  if (!admission) {
+    res.status(404).json({ error: 'Admission not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && admission.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return admission;
+};
+
+/**
+ * The medication chart for one day of an admission (hospital-local, default
+ * today): scheduled doses with overdue and late flags, unscheduled doses
+ * charted that day, and the PRN items that can be given.
+ */
+export const getAdmissionMar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const admission = await findAccessibleAdmission(req, res, req.params.admissionId);
+    if (!admission) return;
+
+    const settings = await getHospitalSettings(admission.hospitalId);
+    const timezone = hospitalTimezone(settings);
+    const { graceMinutes } = emarSettings(settings);
+
+    const date = (req.query.date as string) || localDateKey(new Date(), timezone);
+    if (!isDateKey(date)) {
+      res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+      return;
+    }
+
+    const from = startOfLocalDay(date, timezone);
+    const to = startOfLocalDay(addDays(date, 1), timezone);
+
+    await syncAdmissionDoses(admission.id);
+
+    const doses = await prisma.medicationDose.findMany({
+      where: {
+        admissionId: admission.id,
+        OR: [
+          { scheduledAt: { gte: from, lt: to } },
+          { scheduledAt: null, administeredAt: { gte: from, lt: to } },
+        ],
+      },
+      include: medicationDoseInclude,
+      orderBy: [{ scheduledAt: 'asc' }, { administeredAt: 'asc' }],
+    });
+
+    const now = new Date();
+    const charted = doses.map((dose) => annotateDose(dose, graceMinutes, now));
+
+    res.json({
+      admissionId: admission.id,
+      date,
+      doses: charted,
+      unscheduledItems: await unscheduledItems(admission.id),
+      summary: {
+        scheduled: charted.filter((dose) => dose.scheduledAt).length,
+        given: charted.filter((dose) => dose.status === 'GIVEN').length,
+        held: charted.filter((dose) => dose.status === 'HELD').length,
+        refused: charted.filter((dose) => dose.status === 'REFUSED').length,
+        overdue: charted.filter((dose) => dose.overdue).length,
+        late: charted.filter((dose) => dose.late).length,
+      },
+    });
+  } catch (error) {
+    console.error('Get medication chart error:', error);
+    res.status(500).json({ error: 'Failed to get medication chart' });
+  }
+};
+
+export const recordAdministration = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await prisma.medicationDose.findUnique({ where: { id: req.params.id } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Dose not found' });
+      return;
+    }
+
+    const admission = await findAccessibleAdmission(req, res, existing.admissionId);
+    if (!admission) return;
+
+    const dose = await prisma.$transaction((tx) => recordDose(tx, existing.id, req.body, req.user!.id));
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: admission.hospitalId,
+      action: 'RECORD_MEDICATION_DOSE',
+      entity: 'MEDICATION_DOSE',
+      entityId: dose.id,
+      details: {
+        admissionId: admission.id,
+        medicationName: dose.prescriptionItem.medicationName,
+        scheduledAt: dose.scheduledAt,
+        status: dose.status,
+        reason: dose.reason,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    const { graceMinutes } = emarSettings(await getHospitalSettings(admission.hospitalId));
+    res.json({ dose: annotateDose(dose, graceMinutes) });
+  } catch (error) {
+    if (error instanceof EmarError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Record medication dose error:', error);
+    res.status(500).json({ error: 'Failed to record medication dose' });
+  }
+};
+
+/**
+ * Chart a PRN (or otherwise unscheduled) dose as it is given.
+ */
+export const recordUnscheduledAdministration = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { prescriptionItemId, ...input } = req.body;
+
+    if (!prescriptionItemId) {
+      res.status(400).json({ error: 'Prescription item ID is required' });
+      return;
+    }
+
+    const admission = await findAccessibleAdmission(req, res, req.params.admissionId);
+    if (!admission) return;
+
+    if (admission.status !== 'ADMITTED') {
+      res.status(400).json({ error: 'Patient is not currently admitted' });
+      return;
+    }
+
+    const dose = await prisma.$transaction((tx) =>
+      recordUnscheduledDose(tx, admission.id, prescriptionItemId, { status: 'GIVEN', ...input }, req.user!.id)
+    );
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: admission.hospitalId,
+      action: 'RECORD_MEDICATION_DOSE',
+      entity: 'MEDICATION_DOSE',
+      entityId: dose.id,
+      details: {
+        admissionId: admission.id,
+        medicationName: dose.prescriptionItem.medicationName,
+        unscheduled: true,
+        status: dose.status,
+        reason: dose.reason,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ dose });
+  } catch (error) {
+    if (error instanceof EmarError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Record unscheduled dose error:', error);
+    res.status(500).json({ error: 'Failed to record medication dose' });
+  }
+};
@@ -0,0 +1,535 @@
+import { Request, Response } from 'express';
+import { FormularyDrug, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { drugLabel, formularyDrugInclude } from '../services/formulary';
+import { checkDoses, dosingPatient, isDoseUnit, isDrugRoute, isFrequencyCode } from '../services/dosing';
+import { markControlled } from '../services/controlledDrugs';
+
+const prisma = new PrismaClient();
+
+const DRUG_FORMS = ['TABLET', 'CAPSULE', 'SYRUP', 'SUSPENSION', 'INJECTION', 'INFUSION', 'CREAM', 'OINTMENT', 'DROPS', 'INHALER', 'SUPPOSITORY', 'OTHER'];
+
+const findAccessibleDrug = async (req: Request, res: Response): Promise<FormularyDrug | null> => {
+  const drug = await prisma.formularyDrug.findUnique({ where: { id: req.params.id } });
+
+  if (!drug) {
+    res.status(404).json({ error: 'Formulary drug not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && drug.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return drug;
+};
+
+// A controlled drug's stock item keeps a register from the moment they are linked
+const controlLinkedStock = async (
+  tx: Prisma.TransactionClient,
+  drug: { controlled: boolean; inventoryItemId: string | null },
+  userId: string
+) => {
+  if (!drug.controlled || !drug.inventoryItemId) return;
+
+  const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: drug.inventoryItemId } });
+  if (!item.controlled) await markControlled(tx, item.id, userId);
+};
+
+// The stock item must be the same hospital's
+const inventoryItemBelongs = async (inventoryItemId: string, hospitalId: string): Promise<boolean> =>
+  !!(await prisma.inventoryItem.findFirst({ where: { id: inventoryItemId, hospitalId }, select: { id: true } }));
+
+export const createDrug = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { genericName, brandName, strength, form, route, inventoryItemId, tariffCode, controlled } = req.body;
+
+    if (!genericName || !strength || !form || !route) {
+      res.status(400).json({ error: 'Generic name, strength, form and route are required' });
+      return;
+    }
+
+    if (!DRUG_FORMS.includes(form) || !isDrugRoute(route)) {
+      res.status(400).json({ error: 'Invalid drug form or route' });
+      return;
+    }
+
+    // Determine hospital ID
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.body.hospitalId
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    if (inventoryItemId && !(await inventoryItemBelongs(inventoryItemId, hospitalId))) {
+      res.status(400).json({ error: 'Inventory item not found' });
+      return;
+    }
+
+    const drug = await prisma.$transaction(async (tx) => {
+      const created = await tx.formularyDrug.create({
+        data: {
+          hospitalId,
+          genericName: String(genericName).trim(),
+          brandName: brandName ? String(brandName).trim() : undefined,
+          strength: String(strength).trim(),
+          form,
+          route,
+          inventoryItemId: inventoryItemId || undefined,
+          tariffCode: tariffCode ? String(tariffCode).trim().toUpperCase() : undefined,
+          controlled: controlled === true,
+        },
+      });
+
+      await controlLinkedStock(tx, created, req.user!.id);
+      return tx.formularyDrug.findUniqueOrThrow({ where: { id: created.id }, include: formularyDrugInclude });
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId,
+      action: 'CREATE_FORMULARY_DRUG',
+      entity: 'FORMULARY_DRUG',
+      entityId: drug.id,
+      details: {
+        label: drugLabel(drug),
+        inventoryItemId: drug.inventoryItemId,
+        tariffCode: drug.tariffCode,
+        controlled: drug.controlled,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ drug });
+  } catch (error) {
+    console.error('Create formulary drug error:', error);
+    res.status(500).json({ error: 'Failed to create formulary drug' });
+  }
+};
+
+export const getDrugs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { page = '1', limit = '50', search, form, route, includeInactive } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    // Scope by hospital
+    if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (includeInactive !== 'true') {
+      where.active = true;
+    }
+
+    if (form) {
+      where.form = form;
+    }
+
+    if (route) {
+      where.route = route;
+    }
+
+    if (search) {
+      where.OR = [
+        { genericName: { contains: search as string, mode: 'insensitive' } },
+        { brandName: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const [drugs, total] = await Promise.all([
+      prisma.formularyDrug.findMany({
+        where,
+        include: formularyDrugInclude,
+        skip,
+        take: limitNum,
+        orderBy: [{ genericName: 'asc' }, { strength: 'asc' }],
+      }),
+      prisma.formularyDrug.count({ where }),
+    ]);
+
+    res.json({
+      drugs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get formulary drugs error:', error);
+    res.status(500).json({ error: 'Failed to get formulary drugs' });
+  }
+};
+
+export const searchDrugs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const q = String(req.query.q || '').trim();
+    const limitNum = Math.min(parseInt((req.query.limit as string) || '10', 10) || 10, 50);
+
+    // Autocomplete needs a couple of characters to be useful
+    if (q.length < 2) {
+      res.json({ drugs: [] });
+      return;
+    }
+
+    const drugs = await prisma.formularyDrug.findMany({
+      where: {
+        active: true,
+        ...(req.user.role !== 'SUPER_ADMIN' && { hospitalId: req.user.hospitalId || undefined }),
+        OR: [
+          { genericName: { contains: q, mode: 'insensitive' } },
+          { brandName: { contains: q, mode: 'insensitive' } },
+        ],
+      },
+      include: formularyDrugInclude,
+      take: limitNum,
+      orderBy: [{ genericName: 'asc' }, { strength: 'asc' }],
+    });
+
+    res.json({
+      drugs: drugs.map((drug) => ({
+        id: drug.id,
+        label: drugLabel(drug),
+        genericName: drug.genericName,
+        brandName: drug.brandName,
+        strength: drug.strength,
+        form: drug.form,
+        route: drug.route,
+        inStock: drug.inventoryItem ? drug.inventoryItem.stock > 0 : null,
+        stock: drug.inventoryItem?.stock ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Search formulary error:', error);
+    res.status(500).json({ error: 'Failed to search formulary' });
+  }
+};
+
+export const getDrugById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await findAccessibleDrug(req, res);
+    if (!existing) return;
+
+    const drug = await prisma.formularyDrug.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: { ...formularyDrugInclude, doseRanges: { orderBy: [{ minAgeMonths: 'asc' }, { minWeightKg: 'asc' }] } },
+    });
+
+    res.json({ drug: { ...drug, label: drugLabel(drug) } });
+  } catch (error) {
+    console.error('Get formulary drug error:', error);
+    res.status(500).json({ error: 'Failed to get formulary drug' });
+  }
+};
+
+export const updateDrug = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { genericName, brandName, strength, form, route, inventoryItemId, tariffCode, active, controlled } = req.body;
+
+    const existing = await findAccessibleDrug(req, res);
+    if (!existing) return;
+
+    if ((form && !DRUG_FORMS.includes(form)) || (route && !isDrugRoute(route))) {
+      res.status(400).json({ error: 'Invalid drug form or route' });
+      return;
+    }
+
+    if (inventoryItemId && !(await inventoryItemBelongs(inventoryItemId, existing.hospitalId))) {
+      res.status(400).json({ error: 'Inventory item not found' });
+      return;
+    }
+
+    // Prescriptions already written keep the label they were written with
+    const drug = await prisma.$transaction(async (tx) => {
+      const updated = await tx.formularyDrug.update({
+        where: { id: existing.id },
+        data: {
+          genericName: genericName ? String(genericName).trim() : undefined,
+          brandName: brandName === null ? null : brandName ? String(brandName).trim() : undefined,
+          strength: strength ? String(strength).trim() : undefined,
+          form,
+          route,
+          inventoryItemId: inventoryItemId === null ? null : inventoryItemId || undefined,
+          tariffCode: tariffCode === null ? null : tariffCode ? String(tariffCode).trim().toUpperCase() : undefined,
+          active,
+          controlled: typeof controlled === 'boolean' ? controlled : undefined,
+        },
+      });
+
+      await controlLinkedStock(tx, updated, req.user!.id);
+      return tx.formularyDrug.findUniqueOrThrow({ where: { id: updated.id }, include: formularyDrugInclude });
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'UPDATE_FORMULARY_DRUG',
+      entity: 'FORMULARY_DRUG',
+      entityId: drug.id,
+      details: { label: drugLabel(drug), changes: req.body },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ drug });
+  } catch (error) {
+    console.error('Update formulary drug error:', error);
+    res.status(500).json({ error: 'Failed to update formulary drug' });
+  }
+};
+
+const optionalNumber = (value: unknown): number | null =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+export const getDoseRanges = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const drug = await findAccessibleDrug(req, res);
+    if (!drug) return;
+
+    const doseRanges = await prisma.doseRange.findMany({
+      where: { formularyDrugId: drug.id },
+      orderBy: [{ minAgeMonths: 'asc' }, { minWeightKg: 'asc' }],
+    });
+
+    res.json({ doseRanges });
+  } catch (error) {
+    console.error('Get dose ranges error:', error);
+    res.status(500).json({ error: 'Failed to get dose ranges' });
+  }
+};
+
+export const createDoseRange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { route, basis = 'FIXED', unit, notes } = req.body;
+
+    const drug = await findAccessibleDrug(req, res);
+    if (!drug) return;
+
+    if (!isDoseUnit(unit) || !['FIXED', 'PER_KG'].includes(basis) || (route && !isDrugRoute(route))) {
+      res.status(400).json({ error: 'Invalid dose unit, basis or route' });
+      return;
+    }
+
+    const bands = {
+      minAgeMonths: optionalNumber(req.body.minAgeMonths),
+      maxAgeMonths: optionalNumber(req.body.maxAgeMonths),
+      minWeightKg: optionalNumber(req.body.minWeightKg),
+      maxWeightKg: optionalNumber(req.body.maxWeightKg),
+    };
+    const doses = {
+      minDose: optionalNumber(req.body.minDose),
+      maxDose: optionalNumber(req.body.maxDose),
+      maxDailyDose: optionalNumber(req.body.maxDailyDose),
+      absoluteMaxDose: optionalNumber(req.body.absoluteMaxDose),
+    };
+
+    if (Object.values({ ...bands, ...doses }).some((value) => value !== null && (Number.isNaN(value) || value < 0))) {
+      res.status(400).json({ error: 'Bands and doses must be numbers of zero or more' });
+      return;
+    }
+
+    if (doses.minDose === null && doses.maxDose === null && doses.maxDailyDose === null) {
+      res.status(400).json({ error: 'At least one of minimum, maximum or daily maximum dose is required' });
+      return;
+    }
+
+    const inverted = (min: number | null, max: number | null) => min !== null && max !== null && min >= max;
+    if (
+      inverted(bands.minAgeMonths, bands.maxAgeMonths) ||
+      inverted(bands.minWeightKg, bands.maxWeightKg) ||
+      (doses.minDose !== null && doses.maxDose !== null && doses.minDose > doses.maxDose)
+    ) {
+      res.status(400).json({ error: 'Minimums must be below maximums' });
+      return;
+    }
+
+    const doseRange = await prisma.doseRange.create({
+      data: {
+        formularyDrugId: drug.id,
+        ...bands,
+        minAgeMonths: bands.minAgeMonths === null ? null : Math.floor(bands.minAgeMonths),
+        maxAgeMonths: bands.maxAgeMonths === null ? null : Math.floor(bands.maxAgeMonths),
+        route: route || null,
+        basis,
+        unit,
+        ...doses,
+        notes: notes ? String(notes).trim() : undefined,
+      },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: drug.hospitalId,
+      action: 'CREATE_DOSE_RANGE',
+      entity: 'DOSE_RANGE',
+      entityId: doseRange.id,
+      details: { formularyDrugId: drug.id, label: drugLabel(drug), ...bands, basis, unit, ...doses },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ doseRange });
+  } catch (error) {
+    console.error('Create dose range error:', error);
+    res.status(500).json({ error: 'Failed to create dose range' });
+  }
+};
+
+export const deleteDoseRange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const drug = await findAccessibleDrug(req, res);
+    if (!drug) return;
+
+    const doseRange = await prisma.doseRange.findFirst({
+      where: { id: req.params.rangeId, formularyDrugId: drug.id },
+    });
+
+    if (!doseRange) {
+      res.status(404).json({ error: 'Dose range not found' });
+      return;
+    }
+
+    await prisma.doseRange.delete({ where: { id: doseRange.id } });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: drug.hospitalId,
+      action: 'DELETE_DOSE_RANGE',
+      entity: 'DOSE_RANGE',
+      entityId: doseRange.id,
+      details: { formularyDrugId: drug.id, label: drugLabel(drug), range: doseRange },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ message: 'Dose range deleted successfully' });
+  } catch (error) {
+    console.error('Delete dose range error:', error);
+    res.status(500).json({ error: 'Failed to delete dose range' });
+  }
+};
+
+/**
+ * Dose calculator: the drug's dose limits for a patient's age and latest
+ * weight, with warnings for a proposed dose when one is given.
+ */
+export const calculateDose = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { patientId, route, doseAmount, doseUnit, frequencyCode } = req.query as Record<string, string | undefined>;
+
+    if (!patientId) {
+      res.status(400).json({ error: 'Patient ID is required' });
+      return;
+    }
+
+    const amount = optionalNumber(doseAmount);
+    if (
+      (amount !== null && !(amount > 0)) ||
+      (amount !== null && !isDoseUnit(doseUnit)) ||
+      (route && !isDrugRoute(route)) ||
+      (frequencyCode && !isFrequencyCode(frequencyCode))
+    ) {
+      res.status(400).json({ error: 'Invalid dose amount, unit, route or frequency code' });
+      return;
+    }
+
+    const drug = await findAccessibleDrug(req, res);
+    if (!drug) return;
+
+    const patient = await prisma.patient.findFirst({
+      where: { id: patientId, hospitalId: drug.hospitalId },
+      select: { id: true },
+    });
+
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    const dosing = await dosingPatient(patient.id, await getHospitalSettings(drug.hospitalId));
+    const { calculations, warnings } = await checkDoses(
+      [
+        {
+          medicationName: drugLabel(drug),
+          formularyDrugId: drug.id,
+          route: isDrugRoute(route) ? route : drug.route,
+          doseAmount: amount,
+          doseUnit: amount !== null && isDoseUnit(doseUnit) ? doseUnit : null,
+          frequencyCode: isFrequencyCode(frequencyCode) ? frequencyCode : null,
+        },
+      ],
+      dosing
+    );
+
+    res.json({
+      drug: { id: drug.id, label: drugLabel(drug) },
+      patient: { id: patient.id, ageMonths: dosing.ageMonths, weightKg: dosing.weightKg, weighedAt: dosing.weighedAt },
+      calculation: calculations[0] || null,
+      warnings,
+    });
+  } catch (error) {
+    console.error('Calculate dose error:', error);
+    res.status(500).json({ error: 'Failed to calculate dose' });
+  }
+};
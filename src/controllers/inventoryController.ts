@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { MAX_RANGE_DAYS, addDays, daysInRange, hospitalTimezone, isDateKey, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { InventoryError, StockChange, announceStockChanges, issueStock, receiveBatch } from '../services/inventory';
+import {
+  ControlledDrugError,
+  hasRegisterEntries,
+  markControlled,
+  registerReport,
+  renderRegisterPdf,
+  verifyWitness,
+} from '../services/controlledDrugs';
 
 const prisma = new PrismaClient();
 
@@ -20,6 +31,8 @@ export const createInventoryItem = async (req: Request, res: Response): Promise<
       expiryDate,
       batchNumber,
       supplier,
+      controlled,
+      controlledSchedule,
     } = req.body;
 
     if (!name || !category || stock === undefined || !reorderLevel || !unitPrice) {
@@ -37,19 +50,39 @@ export const createInventoryItem = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Create inventory item
-    const inventoryItem = await prisma.inventoryItem.create({
-      data: {
-        hospitalId,
-        name,
-        category,
-        stock,
-        reorderLevel,
-        unitPrice,
-        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
-        batchNumber,
-        supplier,
-      },
+    // Create inventory item; opening stock becomes its first batch
+    const inventoryItem = await prisma.$transaction(async (tx) => {
+      const created = await tx.inventoryItem.create({
+        data: {
+          hospitalId,
+          name,
+          category,
+          stock: 0,
+          reorderLevel,
+          unitPrice,
+          expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+          batchNumber,
+          supplier,
+          controlled: controlled === true,
+          controlledSchedule: controlled === true ? controlledSchedule : undefined,
+        },
+      });
+
+      if (stock <= 0) return created;
+
+      // Opening stock of a controlled item is the register's first receipt
+      const { item } = await receiveBatch(
+        tx,
+        created.id,
+        {
+          quantity: stock,
+          unitCost: unitPrice,
+          batchNumber,
+          expiryDate: expiryDate ? new Date(expiryDate) : null,
+        },
+        { type: 'RECEIPT', userId: req.user!.id, reference: 'Opening stock' }
+      );
+      return item;
     });
 
     // Audit log
@@ -59,7 +92,7 @@ export const createInventoryItem = async (req: Request, res: Response): Promise<
       action: 'CREATE_INVENTORY_ITEM',
       entity: 'INVENTORY_ITEM',
       entityId: inventoryItem.id,
-      details: { name, category, stock },
+      details: { name, category, stock, controlled: inventoryItem.controlled },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
@@ -174,6 +207,8 @@ export const updateInventoryItem = async (req: Request, res: Response): Promise<
       expiryDate,
       batchNumber,
       supplier,
+      controlled,
+      controlledSchedule,
     } = req.body;
 
     // Check item exists
@@ -190,18 +225,32 @@ export const updateInventoryItem = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Update item
-    const inventoryItem = await prisma.inventoryItem.update({
-      where: { id },
-      data: {
-        name,
-        category,
-        reorderLevel,
-        unitPrice,
-        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
-        batchNumber,
-        supplier,
-      },
+    // The register must stay complete once it has been started
+    if (controlled === false && existingItem.controlled && (await hasRegisterEntries(id))) {
+      res.status(409).json({ error: 'Item has controlled-drug register entries and must stay controlled' });
+      return;
+    }
+
+    // Update item; becoming controlled opens the register at the current stock
+    const inventoryItem = await prisma.$transaction(async (tx) => {
+      const updated = await tx.inventoryItem.update({
+        where: { id },
+        data: {
+          name,
+          category,
+          reorderLevel,
+          unitPrice,
+          expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+          batchNumber,
+          supplier,
+          controlled: controlled === false ? false : undefined,
+          controlledSchedule: controlledSchedule === null ? null : controlledSchedule || undefined,
+        },
+      });
+
+      return controlled === true && !existingItem.controlled
+        ? markControlled(tx, id, req.user!.id)
+        : updated;
     });
 
     // Audit log
@@ -211,7 +260,7 @@ export const updateInventoryItem = async (req: Request, res: Response): Promise<
       action: 'UPDATE_INVENTORY_ITEM',
       entity: 'INVENTORY_ITEM',
       entityId: inventoryItem.id,
-      details: { name: inventoryItem.name },
+      details: { name: inventoryItem.name, controlled: inventoryItem.controlled },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
@@ -231,7 +280,7 @@ export const updateStock = async (req: Request, res: Response): Promise<void> =>
     }
 
     const { id } = req.params;
-    const { adjustment, type } = req.body;
+    const { adjustment, type, unitCost, batchNumber, expiryDate, reason, witnessId, witnessPassword } = req.body;
 
     if (adjustment === undefined || !type) {
       res.status(400).json({ error: 'Adjustment and type are required' });
@@ -252,26 +301,62 @@ export const updateStock = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Calculate new stock
-    let newStock = existingItem.stock;
-    if (type === 'ADD') {
-      newStock += adjustment;
-    } else if (type === 'SUBTRACT') {
-      newStock -= adjustment;
-      if (newStock < 0) {
-        res.status(400).json({ error: 'Insufficient stock' });
-        return;
-      }
-    } else if (type === 'SET') {
-      newStock = adjustment;
+    // Stock lives in batches: increases arrive as a batch, decreases draw
+    // earliest expiry first (expired stock included, for write-offs)
+    const target = type === 'ADD'
+      ? existingItem.stock + adjustment
+      : type === 'SUBTRACT'
+        ? existingItem.stock - adjustment
+        : adjustment;
+
+    if (target < 0) {
+      res.status(400).json({ error: 'Insufficient stock' });
+      return;
     }
 
-    // Update stock
-    const inventoryItem = await prisma.inventoryItem.update({
-      where: { id },
-      data: { stock: newStock },
+    // Reducing controlled stock needs a co-signing witness
+    const witness = existingItem.controlled && target < existingItem.stock
+      ? await verifyWitness(prisma, { hospitalId: existingItem.hospitalId, userId: req.user.id, witnessId, witnessPassword })
+      : null;
+
+    const change = await prisma.$transaction(async (tx): Promise<StockChange | null> => {
+      const difference = target - existingItem.stock;
+      const movement = {
+        type: type === 'ADD' ? ('RECEIPT' as const) : ('ADJUSTMENT' as const),
+        userId: req.user!.id,
+        witnessedBy: witness?.id,
+        reason,
+      };
+
+      if (difference > 0) {
+        return receiveBatch(
+          tx,
+          id,
+          {
+            quantity: difference,
+            unitCost: unitCost !== undefined ? parseFloat(unitCost) : existingItem.unitPrice,
+            batchNumber: batchNumber || existingItem.batchNumber,
+            expiryDate: expiryDate ? new Date(expiryDate) : existingItem.expiryDate,
+          },
+          movement
+        );
+      }
+      if (difference < 0) {
+        const { change } = await issueStock(tx, id, -difference, {
+          userId: req.user!.id,
+          includeExpired: true,
+          register: { ...movement, type: 'ADJUSTMENT' },
+        });
+        return change;
+      }
+      return null;
     });
 
+    if (change) announceStockChanges([change]);
+
+    const inventoryItem = change?.item || existingItem;
+    const newStock = inventoryItem.stock;
+
     // Audit log
     await createAuditLog(prisma, {
       userId: req.user.id,
@@ -285,6 +370,8 @@ export const updateStock = async (req: Request, res: Response): Promise<void> =>
         adjustment,
         previousStock: existingItem.stock,
         newStock,
+        reason,
+        witnessedBy: witness?.id,
       },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
@@ -292,6 +379,10 @@ export const updateStock = async (req: Request, res: Response): Promise<void> =>
 
     res.json({ inventoryItem });
   } catch (error) {
+    if (error instanceof InventoryError || error instanceof ControlledDrugError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Update stock error:', error);
     res.status(500).json({ error: 'Failed to update stock' });
   }
@@ -354,6 +445,14 @@ export const deleteInventoryItem = async (req: Request, res: Response): Promise<
       return;
     }
 
+    // Dispensed stock must stay traceable to its batch
+    const issued = await prisma.stockIssue.count({ where: { batch: { inventoryItemId: id } } });
+
+    if (issued > 0 || (await hasRegisterEntries(id))) {
+      res.status(409).json({ error: 'Inventory item has stock movements and cannot be deleted' });
+      return;
+    }
+
     // Delete item
     await prisma.inventoryItem.delete({ where: { id } });
 
@@ -375,3 +474,241 @@ export const deleteInventoryItem = async (req: Request, res: Response): Promise<
     res.status(500).json({ error: 'Failed to delete inventory item' });
   }
 };
+
+export const receiveStock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { quantity, unitCost, batchNumber, expiryDate, reference } = req.body;
+
+    // Check item exists
+    const existingItem = await prisma.inventoryItem.findUnique({ where: { id } });
+
+    if (!existingItem) {
+      res.status(404).json({ error: 'Inventory item not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && existingItem.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const change = await prisma.$transaction((tx) =>
+      receiveBatch(
+        tx,
+        id,
+        {
+          quantity: parseInt(quantity, 10),
+          unitCost: unitCost !== undefined ? parseFloat(unitCost) : existingItem.unitPrice,
+          batchNumber,
+          expiryDate: expiryDate ? new Date(expiryDate) : null,
+        },
+        { type: 'RECEIPT', userId: req.user!.id, reference }
+      )
+    );
+
+    announceStockChanges([change]);
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingItem.hospitalId,
+      action: 'RECEIVE_STOCK',
+      entity: 'INVENTORY_ITEM',
+      entityId: id,
+      details: { name: existingItem.name, quantity, unitCost, batchNumber, expiryDate, newStock: change.item.stock },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ inventoryItem: change.item });
+  } catch (error) {
+    if (error instanceof InventoryError || error instanceof ControlledDrugError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Receive stock error:', error);
+    res.status(500).json({ error: 'Failed to receive stock' });
+  }
+};
+
+export const getBatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { includeEmpty } = req.query;
+
+    const inventoryItem = await prisma.inventoryItem.findUnique({ where: { id } });
+
+    if (!inventoryItem) {
+      res.status(404).json({ error: 'Inventory item not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && inventoryItem.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const batches = await prisma.inventoryBatch.findMany({
+      where: { inventoryItemId: id, ...(includeEmpty !== 'true' && { quantity: { gt: 0 } }) },
+      orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }],
+    });
+
+    const now = new Date();
+    res.json({
+      inventoryItem,
+      batches: batches.map((batch) => ({ ...batch, expired: !!batch.expiryDate && batch.expiryDate <= now })),
+    });
+  } catch (error) {
+    console.error('Get inventory batches error:', error);
+    res.status(500).json({ error: 'Failed to get inventory batches' });
+  }
+};
+
+/**
+ * Write off damaged or expired stock, earliest expiry first. Controlled drugs
+ * need a reason and a co-signing witness.
+ */
+export const wasteStock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { quantity, reason, witnessId, witnessPassword } = req.body;
+    const units = parseInt(quantity, 10);
+
+    if (!Number.isInteger(units) || units <= 0 || !reason) {
+      res.status(400).json({ error: 'Quantity and reason are required' });
+      return;
+    }
+
+    // Check item exists
+    const existingItem = await prisma.inventoryItem.findUnique({ where: { id } });
+
+    if (!existingItem) {
+      res.status(404).json({ error: 'Inventory item not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && existingItem.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const witness = existingItem.controlled
+      ? await verifyWitness(prisma, { hospitalId: existingItem.hospitalId, userId: req.user.id, witnessId, witnessPassword })
+      : null;
+
+    const { change, lines, cost } = await prisma.$transaction((tx) =>
+      issueStock(tx, id, units, {
+        userId: req.user!.id,
+        includeExpired: true,
+        register: { type: 'WASTE', witnessedBy: witness?.id, reason },
+      })
+    );
+
+    if (change) announceStockChanges([change]);
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingItem.hospitalId,
+      action: 'WASTE_STOCK',
+      entity: 'INVENTORY_ITEM',
+      entityId: id,
+      details: {
+        name: existingItem.name,
+        quantity: units,
+        reason,
+        cost,
+        batches: lines.map((line) => line.batchNumber),
+        witnessedBy: witness?.id,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ inventoryItem: change?.item || existingItem, wasted: units, cost, batches: lines });
+  } catch (error) {
+    if (error instanceof InventoryError || error instanceof ControlledDrugError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Waste stock error:', error);
+    res.status(500).json({ error: 'Failed to waste stock' });
+  }
+};
+
+/**
+ * The controlled-drug register for a period (local YYYY-MM-DD dates, default
+ * this month), as JSON or, with `format=pdf`, ready to print.
+ */
+export const getControlledRegister = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? (req.query.hospitalId as string)
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const settings = await getHospitalSettings(hospitalId);
+    const timezone = hospitalTimezone(settings);
+    const today = localDateKey(new Date(), timezone);
+    const { startDate = `${today.slice(0, 7)}-01`, endDate = today, inventoryItemId, format } = req.query as Record<string, string>;
+
+    if (!isDateKey(startDate) || !isDateKey(endDate) || startDate > endDate) {
+      res.status(400).json({ error: 'Valid start and end dates (YYYY-MM-DD) are required' });
+      return;
+    }
+
+    if (daysInRange(startDate, endDate) > MAX_RANGE_DAYS) {
+      res.status(400).json({ error: `The register can be listed for at most ${MAX_RANGE_DAYS} days at a time` });
+      return;
+    }
+
+    const dayAfterEnd = addDays(endDate, 1);
+    const report = await registerReport({
+      hospitalId,
+      from: startOfLocalDay(startDate, timezone),
+      to: startOfLocalDay(dayAfterEnd, timezone),
+      inventoryItemId,
+    });
+
+    if (format === 'pdf') {
+      const pdf = await renderRegisterPdf(hospitalId, report, { startDate, endDate });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="cd-register-${startDate}-${endDate}.pdf"`);
+      res.send(pdf);
+      return;
+    }
+
+    res.json({ startDate, endDate, items: report });
+  } catch (error) {
+    console.error('Get controlled drug register error:', error);
+    res.status(500).json({ error: 'Failed to get controlled drug register' });
+  }
+};
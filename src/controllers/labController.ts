@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { emitClinicalEvent } from '../services/clinicalEvents';
+import {
+  checkPreAuthorization,
+  consumePreAuthorization,
+  PreAuthorizationError,
+  preAuthSettings,
+} from '../services/preAuthorization';
+import { findLabTestTariff, priceForPayer } from '../services/tariffs';
 
 const prisma = new PrismaClient();
 
@@ -11,7 +20,7 @@ export const createLabOrder = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { visitId, patientId, testType, sampleId } = req.body;
+    const { visitId, patientId, testType, sampleId, preAuthorizationCode } = req.body;
 
     if (!visitId || !patientId || !testType) {
       res.status(400).json({ error: 'Missing required fields' });
@@ -31,6 +40,42 @@ export const createLabOrder = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const patient = await prisma.patient.findUnique({ where: { id: visit.patientId } });
+
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    // High-cost tests for insured patients need the payer's pre-auth code
+    const settings = await getHospitalSettings(visit.hospitalId);
+    const { enforcement, labCostThreshold, labTestTypes } = preAuthSettings(settings);
+    const tariff = patient.insuranceProvider
+      ? await findLabTestTariff(visit.hospitalId, testType, settings)
+      : null;
+    const cost = tariff ? priceForPayer(tariff, patient.insuranceProvider) : 0;
+
+    let preAuthCheck;
+    try {
+      preAuthCheck = await checkPreAuthorization({
+        hospitalId: visit.hospitalId,
+        patient,
+        serviceTypes: ['LAB', 'IMAGING', 'PROCEDURE'],
+        required: enforcement !== 'OFF'
+          && (cost >= labCostThreshold || labTestTypes.includes(String(testType).toUpperCase())),
+        enforcement,
+        code: preAuthorizationCode,
+        amount: cost,
+        description: testType,
+      });
+    } catch (error) {
+      if (error instanceof PreAuthorizationError) {
+        res.status(error.status).json({ error: error.message, preAuthorizationRequired: true });
+        return;
+      }
+      throw error;
+    }
+
     // Create lab order
     const labOrder = await prisma.labOrder.create({
       data: {
@@ -39,6 +84,7 @@ export const createLabOrder = async (req: Request, res: Response): Promise<void>
         orderedBy: req.user.id,
         testType,
         sampleId,
+        preAuthorizationId: preAuthCheck.preAuthorization?.id,
         status: 'ORDERED',
       },
       include: {
@@ -66,12 +112,35 @@ export const createLabOrder = async (req: Request, res: Response): Promise<void>
       action: 'CREATE_LAB_ORDER',
       entity: 'LAB_ORDER',
       entityId: labOrder.id,
-      details: { testType, visitId },
+      details: {
+        testType,
+        visitId,
+        preAuthorizationId: preAuthCheck.preAuthorization?.id,
+        preAuthorizationWarning: preAuthCheck.warning,
+      },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
-    res.status(201).json({ labOrder });
+    if (preAuthCheck.preAuthorization) {
+      await consumePreAuthorization(preAuthCheck.preAuthorization.id, cost);
+    }
+
+    // Bill the test
+    emitClinicalEvent({
+      type: 'lab-order.created',
+      hospitalId: visit.hospitalId,
+      visitId,
+      patientId: visit.patientId,
+      labOrderId: labOrder.id,
+      testType,
+      userId: req.user.id,
+    });
+
+    res.status(201).json({
+      labOrder,
+      ...(preAuthCheck.warning && { preAuthorizationWarning: preAuthCheck.warning }),
+    });
   } catch (error) {
     console.error('Create lab order error:', error);
     res.status(500).json({ error: 'Failed to create lab order' });
@@ -27,6 +27,8 @@ export const createPatient = async (req: Request, res: Response): Promise<void>
       bloodGroup,
       allergies,
       currentMedications,
+      insuranceProvider,
+      insurancePolicyNumber,
     } = req.body;
 
     // Validate required fields
@@ -63,6 +65,8 @@ export const createPatient = async (req: Request, res: Response): Promise<void>
         bloodGroup,
         allergies: allergies || [],
         currentMedications: currentMedications || [],
+        insuranceProvider: insuranceProvider || undefined,
+        insurancePolicyNumber: insurancePolicyNumber || undefined,
         createdBy: req.user.id,
       },
       include: {
@@ -224,6 +228,8 @@ export const updatePatient = async (req: Request, res: Response): Promise<void>
       allergies,
       currentMedications,
       medicalHistory,
+      insuranceProvider,
+      insurancePolicyNumber,
     } = req.body;
 
     // Check patient exists
@@ -258,6 +264,8 @@ export const updatePatient = async (req: Request, res: Response): Promise<void>
         allergies,
         currentMedications,
         medicalHistory,
+        insuranceProvider,
+        insurancePolicyNumber,
       },
     });
 
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import { BillingRecord, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { hospitalTimezone, isDateKey } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import {
+  PaymentPlanError,
+  PlanFrequency,
+  buildSchedule,
+  createPaymentPlan,
+  getActivePlan,
+  planProgress,
+} from '../services/paymentPlans';
+import { patientOutstanding } from '../services/wallet';
+
+const prisma = new PrismaClient();
+
+const findAccessibleBill = async (req: Request, res: Response): Promise<BillingRecord | null> => {
+  const bill = await prisma.billingRecord.findUnique({ where: { id: req.params.id } });
+
+  if (!bill) {
+    res.status(404).json({ error: 'Billing record not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && bill.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return bill;
+};
+
+export const createPlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { installments, installmentCount, frequency = 'MONTHLY', firstDueDate, notes } = req.body;
+
+    const bill = await findAccessibleBill(req, res);
+    if (!bill) return;
+
+    // Either an explicit schedule or equal instalments generated from a count
+    let schedule: { dueDate: string; amount: number }[];
+
+    if (Array.isArray(installments)) {
+      schedule = installments.map((installment: Record<string, any>) => ({
+        dueDate: String(installment.dueDate),
+        amount: parseFloat(installment.amount),
+      }));
+    } else {
+      const count = parseInt(installmentCount, 10);
+
+      if (isNaN(count) || !isDateKey(firstDueDate) || !['WEEKLY', 'MONTHLY'].includes(frequency)) {
+        res.status(400).json({ error: 'Provide instalments, or an instalment count, frequency and first due date' });
+        return;
+      }
+
+      schedule = buildSchedule(await patientOutstanding(prisma, bill.id), count, firstDueDate, frequency as PlanFrequency);
+    }
+
+    if (schedule.some((installment) => !isDateKey(installment.dueDate))) {
+      res.status(400).json({ error: 'Due dates must be YYYY-MM-DD' });
+      return;
+    }
+
+    const plan = await createPaymentPlan(bill.id, schedule, req.user.id, notes);
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: bill.hospitalId,
+      action: 'CREATE_PAYMENT_PLAN',
+      entity: 'BILLING_RECORD',
+      entityId: bill.id,
+      details: { planId: plan.id, totalAmount: plan.totalAmount, installments: schedule },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json(await getActivePlan(prisma, bill.id));
+  } catch (error) {
+    if (error instanceof PaymentPlanError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Create payment plan error:', error);
+    res.status(500).json({ error: 'Failed to create payment plan' });
+  }
+};
+
+export const getBillPaymentPlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const bill = await findAccessibleBill(req, res);
+    if (!bill) return;
+
+    const [active, history] = await Promise.all([
+      getActivePlan(prisma, bill.id),
+      prisma.paymentPlan.findMany({
+        where: { billingRecordId: bill.id, status: { not: 'ACTIVE' } },
+        include: { installments: { orderBy: { sequence: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    res.json({ plan: active?.plan || null, progress: active?.progress || null, history });
+  } catch (error) {
+    console.error('Get payment plan error:', error);
+    res.status(500).json({ error: 'Failed to get payment plan' });
+  }
+};
+
+export const cancelPlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { reason } = req.body;
+
+    const bill = await findAccessibleBill(req, res);
+    if (!bill) return;
+
+    const plan = await prisma.paymentPlan.findFirst({ where: { billingRecordId: bill.id, status: 'ACTIVE' } });
+
+    if (!plan) {
+      res.status(404).json({ error: 'Bill has no active payment plan' });
+      return;
+    }
+
+    const cancelled = await prisma.paymentPlan.update({
+      where: { id: plan.id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        notes: [plan.notes, `Cancelled: ${reason}`].filter(Boolean).join('\n'),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: bill.hospitalId,
+      action: 'CANCEL_PAYMENT_PLAN',
+      entity: 'BILLING_RECORD',
+      entityId: bill.id,
+      details: { planId: plan.id, reason },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ plan: cancelled });
+  } catch (error) {
+    console.error('Cancel payment plan error:', error);
+    res.status(500).json({ error: 'Failed to cancel payment plan' });
+  }
+};
+
+export const getPaymentPlans = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { page = '1', limit = '50', status = 'ACTIVE', overdue } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    // Build filter
+    const where: Record<string, unknown> = { status };
+
+    if (req.user.role !== 'SUPER_ADMIN') {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    const plans = await prisma.paymentPlan.findMany({
+      where,
+      include: {
+        installments: true,
+        billingRecord: {
+          include: {
+            payments: true,
+            patient: { select: { id: true, firstName: true, lastName: true, phone: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Overdue state is derived from payments, so filter after working it out
+    const timezones = new Map<string, string>();
+    const withProgress = [];
+    for (const plan of plans) {
+      if (!timezones.has(plan.hospitalId)) {
+        timezones.set(plan.hospitalId, hospitalTimezone(await getHospitalSettings(plan.hospitalId)));
+      }
+      const { payments, ...billingRecord } = plan.billingRecord;
+      const progress = planProgress(plan, plan.billingRecord, timezones.get(plan.hospitalId)!);
+      if (overdue === 'true' && !progress.overdue) continue;
+      withProgress.push({ ...plan, billingRecord, progress });
+    }
+
+    if (overdue === 'true') {
+      withProgress.sort((a, b) => b.progress.daysOverdue - a.progress.daysOverdue);
+    }
+
+    const total = withProgress.length;
+
+    res.json({
+      plans: withProgress.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get payment plans error:', error);
+    res.status(500).json({ error: 'Failed to get payment plans' });
+  }
+};
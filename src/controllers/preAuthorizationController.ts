@@ -0,0 +1,347 @@
+import { Request, Response } from 'express';
+import { PreAuthServiceType, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { expireStalePreAuthorizations } from '../services/preAuthorization';
+
+const prisma = new PrismaClient();
+
+const SERVICE_TYPES: PreAuthServiceType[] = ['ADMISSION', 'SURGERY', 'IMAGING', 'LAB', 'PROCEDURE'];
+
+export const requestPreAuthorization = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { patientId, serviceType, requestedServices, requestedAmount, notes } = req.body;
+
+    if (!patientId || !serviceType || !Array.isArray(requestedServices) || requestedServices.length === 0) {
+      res.status(400).json({ error: 'Missing required fields' });
+      return;
+    }
+
+    if (!SERVICE_TYPES.includes(serviceType)) {
+      res.status(400).json({ error: `Service type must be one of ${SERVICE_TYPES.join(', ')}` });
+      return;
+    }
+
+    const patient = await prisma.patient.findUnique({ where: { id: patientId } });
+
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && patient.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Payer defaults to the patient's registered insurer
+    const insuranceProvider = req.body.insuranceProvider || patient.insuranceProvider;
+
+    if (!insuranceProvider) {
+      res.status(400).json({ error: 'Patient has no insurance provider on record' });
+      return;
+    }
+
+    const preAuthorization = await prisma.preAuthorization.create({
+      data: {
+        hospitalId: patient.hospitalId,
+        patientId,
+        insuranceProvider,
+        insurancePolicyNumber: req.body.insurancePolicyNumber || patient.insurancePolicyNumber,
+        serviceType,
+        requestedServices,
+        requestedAmount: requestedAmount !== undefined ? parseFloat(requestedAmount) : undefined,
+        notes,
+        requestedBy: req.user.id,
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: patient.hospitalId,
+      action: 'REQUEST_PRE_AUTHORIZATION',
+      entity: 'PRE_AUTHORIZATION',
+      entityId: preAuthorization.id,
+      details: { patientId, insuranceProvider, serviceType, requestedAmount },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ preAuthorization });
+  } catch (error) {
+    console.error('Request pre-authorization error:', error);
+    res.status(500).json({ error: 'Failed to request pre-authorization' });
+  }
+};
+
+export const getPreAuthorizations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { status, patientId, serviceType, page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (status) where.status = status;
+    if (patientId) where.patientId = patientId;
+    if (serviceType) where.serviceType = serviceType;
+
+    // Lapsed approvals should show as expired
+    await expireStalePreAuthorizations(where.hospitalId as string | undefined);
+
+    const [preAuthorizations, total] = await Promise.all([
+      prisma.preAuthorization.findMany({
+        where,
+        include: {
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.preAuthorization.count({ where }),
+    ]);
+
+    res.json({
+      preAuthorizations,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get pre-authorizations error:', error);
+    res.status(500).json({ error: 'Failed to get pre-authorizations' });
+  }
+};
+
+export const getPreAuthorizationById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    await expireStalePreAuthorizations(req.user.role === 'SUPER_ADMIN' ? undefined : req.user.hospitalId || undefined);
+
+    const preAuthorization = await prisma.preAuthorization.findUnique({
+      where: { id },
+      include: {
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        requestedByUser: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        decidedByUser: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        admissions: {
+          select: {
+            id: true,
+            admissionDate: true,
+            status: true,
+          },
+        },
+        labOrders: {
+          select: {
+            id: true,
+            testType: true,
+            status: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!preAuthorization) {
+      res.status(404).json({ error: 'Pre-authorization not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && preAuthorization.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json({ preAuthorization });
+  } catch (error) {
+    console.error('Get pre-authorization error:', error);
+    res.status(500).json({ error: 'Failed to get pre-authorization' });
+  }
+};
+
+export const approvePreAuthorization = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { code, approvedAmount, approvedDays, validUntil, notes } = req.body;
+
+    if (!code) {
+      res.status(400).json({ error: 'Pre-authorization code is required' });
+      return;
+    }
+
+    const existing = await prisma.preAuthorization.findUnique({ where: { id } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Pre-authorization not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existing.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'REQUESTED') {
+      res.status(400).json({ error: `Pre-authorization already ${existing.status}` });
+      return;
+    }
+
+    // The same HMO never issues one code twice
+    const duplicate = await prisma.preAuthorization.findFirst({
+      where: {
+        hospitalId: existing.hospitalId,
+        insuranceProvider: existing.insuranceProvider,
+        code: String(code).trim(),
+      },
+    });
+
+    if (duplicate) {
+      res.status(409).json({ error: 'Pre-authorization code already recorded for this payer' });
+      return;
+    }
+
+    const preAuthorization = await prisma.preAuthorization.update({
+      where: { id },
+      data: {
+        status: 'APPROVED',
+        code: String(code).trim(),
+        approvedAmount: approvedAmount !== undefined && approvedAmount !== null ? parseFloat(approvedAmount) : null,
+        approvedDays: approvedDays !== undefined && approvedDays !== null ? parseInt(approvedDays, 10) : null,
+        validUntil: validUntil ? new Date(validUntil) : null,
+        notes: notes ?? existing.notes,
+        decidedBy: req.user.id,
+        decidedAt: new Date(),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'APPROVE_PRE_AUTHORIZATION',
+      entity: 'PRE_AUTHORIZATION',
+      entityId: id,
+      details: { code: preAuthorization.code, approvedAmount, approvedDays, validUntil },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ preAuthorization });
+  } catch (error) {
+    console.error('Approve pre-authorization error:', error);
+    res.status(500).json({ error: 'Failed to approve pre-authorization' });
+  }
+};
+
+export const denyPreAuthorization = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (!reason) {
+      res.status(400).json({ error: 'Denial reason is required' });
+      return;
+    }
+
+    const existing = await prisma.preAuthorization.findUnique({ where: { id } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Pre-authorization not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existing.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'REQUESTED') {
+      res.status(400).json({ error: `Pre-authorization already ${existing.status}` });
+      return;
+    }
+
+    const preAuthorization = await prisma.preAuthorization.update({
+      where: { id },
+      data: {
+        status: 'DENIED',
+        denialReason: reason,
+        decidedBy: req.user.id,
+        decidedAt: new Date(),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'DENY_PRE_AUTHORIZATION',
+      entity: 'PRE_AUTHORIZATION',
+      entityId: id,
+      details: { reason },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ preAuthorization });
+  } catch (error) {
+    console.error('Deny pre-authorization error:', error);
+    res.status(500).json({ error: 'Failed to deny pre-authorization' });
+  }
+};
@@ -1,9 +1,64 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { emitClinicalEvent } from '../services/clinicalEvents';
+import { FormularyError, formularyDrugInclude, resolvePrescriptionItems } from '../services/formulary';
+import { DispensedItem, DispensingError, dispenseFromStock, remainingQuantity } from '../services/dispensing';
+import { InventoryError, announceStockChanges } from '../services/inventory';
+import { checkPrescription as screenPrescription, hasSevereAlerts } from '../services/clinicalDecisionSupport';
+import { checkDoses, dosingPatient } from '../services/dosing';
+import { ControlledDrugError, verifyWitness } from '../services/controlledDrugs';
+import {
+  RepeatPrescriptionError,
+  refillPrescription,
+  refillsDue,
+  repeatSettings,
+  repeatStatus,
+  repeatTerms,
+} from '../services/repeatPrescriptions';
 
 const prisma = new PrismaClient();
 
+// Prescription items with the formulary drug and its stock, for pharmacy
+const itemsInclude = {
+  include: { formularyDrug: { include: formularyDrugInclude } },
+};
+
+// Who handed over what, and when
+const dispenseEventsInclude = {
+  include: {
+    dispenser: { select: { id: true, firstName: true, lastName: true } },
+    witness: { select: { id: true, firstName: true, lastName: true } },
+    items: { select: { prescriptionItemId: true, quantity: true } },
+  },
+  orderBy: { createdAt: 'asc' as const },
+};
+
+// Bill what was handed over in one dispense; each dispense line is charged once
+const billDispensed = (
+  hospitalId: string,
+  prescription: { id: string; visitId: string; patientId: string; items: { id: string; formularyDrug: { tariffCode: string | null } | null }[] },
+  dispensed: DispensedItem[],
+  userId: string
+) =>
+  emitClinicalEvent({
+    type: 'prescription.dispensed',
+    hospitalId,
+    visitId: prescription.visitId,
+    patientId: prescription.patientId,
+    prescriptionId: prescription.id,
+    items: dispensed
+      .filter((line) => line.dispenseEventItemId)
+      .map((line) => ({
+        id: line.dispenseEventItemId!,
+        medicationName: line.medicationName,
+        tariffCode: prescription.items.find((item) => item.id === line.itemId)?.formularyDrug?.tariffCode,
+        quantity: line.dispensed,
+      })),
+    userId,
+  });
+
 export const createPrescription = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -11,9 +66,18 @@ export const createPrescription = async (req: Request, res: Response): Promise<v
       return;
     }
 
-    const { consultationId, patientId, visitId, items } = req.body;
-
-    if (!patientId || !visitId || !items || items.length === 0) {
+    const {
+      consultationId,
+      patientId,
+      visitId,
+      items,
+      overrideReason,
+      refillsAllowed,
+      refillIntervalDays,
+      repeatUntil,
+    } = req.body;
+
+    if (!patientId || !visitId || !Array.isArray(items) || items.length === 0) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
     }
@@ -31,6 +95,44 @@ export const createPrescription = async (req: Request, res: Response): Promise<v
       return;
     }
 
+    // Screening and dosing must look at the patient actually being seen
+    if (patientId !== visit.patientId) {
+      res.status(400).json({ error: 'Patient does not match the visit' });
+      return;
+    }
+
+    // Formulary drugs take their label; free text is flagged off-formulary
+    const settings = await getHospitalSettings(visit.hospitalId);
+    const resolvedItems = await resolvePrescriptionItems(visit.hospitalId, items, settings);
+    const repeats = repeatTerms({ refillsAllowed, refillIntervalDays, repeatUntil }, resolvedItems, settings);
+
+    const patient = await prisma.patient.findUnique({
+      where: { id: patientId },
+      select: { allergies: true, currentMedications: true },
+    });
+
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    // Screen for allergies and interactions; severe alerts need a stated reason to proceed
+    const alerts = screenPrescription(patient, resolvedItems.map((item) => item.medicationName));
+    const overridden = hasSevereAlerts(alerts);
+
+    if (overridden && !String(overrideReason || '').trim()) {
+      res.status(409).json({
+        error: 'Severe clinical alerts must be overridden with a reason',
+        alerts,
+        requiresOverride: true,
+      });
+      return;
+    }
+
+    // Doses outside the drug's range for this age and weight are flagged, not refused
+    const dosing = await dosingPatient(patientId, settings);
+    const doseCheck = await checkDoses(resolvedItems, dosing);
+
     // Create prescription with items
     const prescription = await prisma.prescription.create({
       data: {
@@ -39,24 +141,13 @@ export const createPrescription = async (req: Request, res: Response): Promise<v
         visitId,
         doctorId: req.user.id,
         status: 'PENDING',
+        ...repeats,
         items: {
-          create: items.map((item: {
-            medicationName: string;
-            dosage: string;
-            frequency: string;
-            duration: string;
-            instructions?: string;
-          }) => ({
-            medicationName: item.medicationName,
-            dosage: item.dosage,
-            frequency: item.frequency,
-            duration: item.duration,
-            instructions: item.instructions,
-          })),
+          create: resolvedItems,
         },
       },
       include: {
-        items: true,
+        items: itemsInclude,
         doctor: {
           select: {
             id: true,
@@ -81,18 +172,114 @@ export const createPrescription = async (req: Request, res: Response): Promise<v
       action: 'CREATE_PRESCRIPTION',
       entity: 'PRESCRIPTION',
       entityId: prescription.id,
-      details: { visitId, itemsCount: items.length },
+      details: {
+        visitId,
+        itemsCount: items.length,
+        offFormulary: resolvedItems.filter((item) => item.offFormulary).map((item) => item.medicationName),
+        doseWarnings: doseCheck.warnings.length ? doseCheck.warnings : undefined,
+        refillsAllowed: prescription.refillsAllowed || undefined,
+      },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
-    res.status(201).json({ prescription });
+    if (overridden) {
+      await createAuditLog(prisma, {
+        userId: req.user.id,
+        hospitalId: visit.hospitalId,
+        action: 'OVERRIDE_CLINICAL_ALERT',
+        entity: 'PRESCRIPTION',
+        entityId: prescription.id,
+        details: {
+          patientId,
+          reason: String(overrideReason).trim(),
+          alerts: alerts.filter((alert) => alert.severity === 'SEVERE'),
+        },
+        ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+        userAgent: String(req.headers['user-agent'] || ''),
+      });
+    }
+
+    res.status(201).json({
+      prescription,
+      alerts,
+      dosing: {
+        weightKg: dosing.weightKg,
+        weighedAt: dosing.weighedAt,
+        calculations: doseCheck.calculations,
+        warnings: doseCheck.warnings,
+      },
+    });
   } catch (error) {
+    if (error instanceof FormularyError || error instanceof RepeatPrescriptionError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Create prescription error:', error);
     res.status(500).json({ error: 'Failed to create prescription' });
   }
 };
 
+/**
+ * Dry run of the prescribing checks: screens drugs against the patient's
+ * allergies and medications and checks doses, without creating anything.
+ */
+export const checkPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { patientId, items } = req.body;
+
+    if (!patientId || !Array.isArray(items) || items.length === 0) {
+      res.status(400).json({ error: 'Patient ID and at least one prescription item are required' });
+      return;
+    }
+
+    const patient = await prisma.patient.findUnique({
+      where: { id: patientId },
+      select: { hospitalId: true, allergies: true, currentMedications: true },
+    });
+
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && patient.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const settings = await getHospitalSettings(patient.hospitalId);
+    const resolvedItems = await resolvePrescriptionItems(patient.hospitalId, items, settings);
+    const alerts = screenPrescription(patient, resolvedItems.map((item) => item.medicationName));
+
+    const dosing = await dosingPatient(patientId, settings);
+    const doseCheck = await checkDoses(resolvedItems, dosing);
+
+    res.json({
+      alerts,
+      requiresOverride: hasSevereAlerts(alerts),
+      dosing: {
+        weightKg: dosing.weightKg,
+        weighedAt: dosing.weighedAt,
+        calculations: doseCheck.calculations,
+        warnings: doseCheck.warnings,
+      },
+    });
+  } catch (error) {
+    if (error instanceof FormularyError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Check prescription error:', error);
+    res.status(500).json({ error: 'Failed to check prescription' });
+  }
+};
+
 export const dispensePrescription = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -101,6 +288,7 @@ export const dispensePrescription = async (req: Request, res: Response): Promise
     }
 
     const { id } = req.params;
+    const { allowPartial, notes, witnessId, witnessPassword } = req.body;
 
     // Check prescription exists
     const existingPrescription = await prisma.prescription.findUnique({
@@ -114,7 +302,7 @@ export const dispensePrescription = async (req: Request, res: Response): Promise
     }
 
     // Check hospital access
-    if (req.user.role !== 'SUPER_ADMIN' && ((existingPrescription as any).visit?.hospitalId || "") !== req.user.hospitalId) {
+    if (req.user.role !== 'SUPER_ADMIN' && existingPrescription.visit.hospitalId !== req.user.hospitalId) {
       res.status(403).json({ error: 'Access denied' });
       return;
     }
@@ -124,36 +312,57 @@ export const dispensePrescription = async (req: Request, res: Response): Promise
       return;
     }
 
-    // Update prescription status
-    const prescription = await prisma.prescription.update({
-      where: { id },
-      data: { status: 'DISPENSED' },
-      include: {
-        items: true,
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+    // Controlled drugs need a second user to co-sign with their password
+    const witness = witnessId
+      ? await verifyWitness(prisma, {
+          hospitalId: existingPrescription.visit.hospitalId,
+          userId: req.user.id,
+          witnessId,
+          witnessPassword,
+        })
+      : null;
+
+    // Hand over what is still owed; short stock refuses unless partial is allowed
+    const { prescription, dispenseEventId, dispensed, changes, cost } = await dispenseFromStock(id, req.user.id, {
+      allowPartial: allowPartial === true,
+      notes,
+      witnessedBy: witness?.id,
     });
 
+    announceStockChanges(changes);
+
     // Audit log
     await createAuditLog(prisma, {
       userId: req.user.id,
-      hospitalId: ((existingPrescription as any).visit?.hospitalId || ""),
+      hospitalId: existingPrescription.visit.hospitalId,
       action: 'DISPENSE_PRESCRIPTION',
       entity: 'PRESCRIPTION',
       entityId: prescription.id,
-      details: { patientId: prescription.patientId },
+      details: {
+        patientId: prescription.patientId,
+        dispenseEventId,
+        status: prescription.status,
+        cost,
+        witnessedBy: witness?.id,
+        items: dispensed.map(({ itemId, dispensed: quantity, shortfall, cost: itemCost }) => ({ itemId, quantity, shortfall, cost: itemCost })),
+      },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
     });
 
-    res.json({ prescription });
+    // Bill what was handed over this time
+    billDispensed(existingPrescription.visit.hospitalId, prescription, dispensed, req.user.id);
+
+    res.json({ prescription, dispenseEventId, dispensed, cost });
   } catch (error) {
+    if (error instanceof DispensingError) {
+      res.status(error.status).json({ error: error.message, shortages: error.shortages });
+      return;
+    }
+    if (error instanceof InventoryError || error instanceof ControlledDrugError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Dispense prescription error:', error);
     res.status(500).json({ error: 'Failed to dispense prescription' });
   }
@@ -184,7 +393,8 @@ export const getPrescriptionsByPatient = async (req: Request, res: Response): Pr
     const prescriptions = await prisma.prescription.findMany({
       where: { patientId },
       include: {
-        items: true,
+        items: itemsInclude,
+        dispenseEvents: dispenseEventsInclude,
         doctor: {
           select: {
             id: true,
@@ -228,7 +438,8 @@ export const getPrescriptionsByVisit = async (req: Request, res: Response): Prom
     const prescriptions = await prisma.prescription.findMany({
       where: { visitId },
       include: {
-        items: true,
+        items: itemsInclude,
+        dispenseEvents: dispenseEventsInclude,
         doctor: {
           select: {
             id: true,
@@ -254,9 +465,11 @@ export const getPendingPrescriptions = async (req: Request, res: Response): Prom
       return;
     }
 
-    // Build filter
+    const { status } = req.query;
+
+    // Build filter: the pharmacy queue is new prescriptions plus balances still owed
     const where: Record<string, unknown> = {
-      status: 'PENDING',
+      status: status ? status : { in: ['PENDING', 'PARTIALLY_DISPENSED'] },
     };
 
     // Scope by hospital through visit relation
@@ -269,7 +482,7 @@ export const getPendingPrescriptions = async (req: Request, res: Response): Prom
     const prescriptions = await prisma.prescription.findMany({
       where,
       include: {
-        items: true,
+        items: itemsInclude,
         patient: {
           select: {
             id: true,
@@ -291,13 +504,264 @@ export const getPendingPrescriptions = async (req: Request, res: Response): Prom
             department: true,
           },
         },
+        dispenseEvents: dispenseEventsInclude,
       },
       orderBy: { createdAt: 'asc' },
     });
 
-    res.json({ prescriptions });
+    res.json({
+      prescriptions: prescriptions.map((prescription) => ({
+        ...prescription,
+        items: prescription.items.map((item) => ({ ...item, remainingQuantity: remainingQuantity(item) })),
+        remainingItems: prescription.items.filter((item) => remainingQuantity(item) > 0).length,
+      })),
+    });
   } catch (error) {
     console.error('Get pending prescriptions error:', error);
     res.status(500).json({ error: 'Failed to get pending prescriptions' });
   }
 };
+
+/**
+ * Issue the next refill of a repeat prescription at the pharmacy, without a
+ * new consultation: the refill is dispensed at once and billed to its own
+ * pharmacy visit.
+ */
+export const refillRepeatPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { allowPartial, notes, witnessId, witnessPassword, overrideReason } = req.body;
+
+    // Check prescription exists
+    const existingPrescription = await prisma.prescription.findUnique({
+      where: { id },
+      include: { visit: true },
+    });
+
+    if (!existingPrescription) {
+      res.status(404).json({ error: 'Prescription not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && existingPrescription.visit.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Controlled drugs need a second user to co-sign with their password
+    const witness = witnessId
+      ? await verifyWitness(prisma, {
+          hospitalId: existingPrescription.visit.hospitalId,
+          userId: req.user.id,
+          witnessId,
+          witnessPassword,
+        })
+      : null;
+
+    // Re-screened against today's allergies and medications; severe alerts need a reason
+    const {
+      prescription,
+      repeat,
+      refillNumber,
+      alerts,
+      overridden,
+      dosing,
+      dispenseEventId,
+      dispensed,
+      changes,
+      cost,
+    } = await refillPrescription(id, req.user.id, {
+      allowPartial: allowPartial === true,
+      notes,
+      witnessedBy: witness?.id,
+      overrideReason,
+    });
+
+    announceStockChanges(changes);
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingPrescription.visit.hospitalId,
+      action: 'REFILL_PRESCRIPTION',
+      entity: 'PRESCRIPTION',
+      entityId: repeat.id,
+      details: {
+        patientId: repeat.patientId,
+        refillPrescriptionId: prescription.id,
+        refillNumber,
+        refillsRemaining: repeat.refillsRemaining,
+        dispenseEventId,
+        status: prescription.status,
+        cost,
+        witnessedBy: witness?.id,
+        doseWarnings: dosing.warnings.length ? dosing.warnings : undefined,
+        items: dispensed.map(({ itemId, dispensed: quantity, shortfall, cost: itemCost }) => ({ itemId, quantity, shortfall, cost: itemCost })),
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    if (overridden) {
+      await createAuditLog(prisma, {
+        userId: req.user.id,
+        hospitalId: existingPrescription.visit.hospitalId,
+        action: 'OVERRIDE_CLINICAL_ALERT',
+        entity: 'PRESCRIPTION',
+        entityId: prescription.id,
+        details: {
+          patientId: prescription.patientId,
+          repeatOfId: repeat.id,
+          reason: String(overrideReason).trim(),
+          alerts: alerts.filter((alert) => alert.severity === 'SEVERE'),
+        },
+        ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+        userAgent: String(req.headers['user-agent'] || ''),
+      });
+    }
+
+    billDispensed(existingPrescription.visit.hospitalId, prescription, dispensed, req.user.id);
+
+    res.status(201).json({ prescription, repeat, refillNumber, alerts, dosing, dispenseEventId, dispensed, cost });
+  } catch (error) {
+    if (error instanceof DispensingError) {
+      res.status(error.status).json({ error: error.message, shortages: error.shortages });
+      return;
+    }
+    if (error instanceof RepeatPrescriptionError && error.alerts) {
+      res.status(error.status).json({ error: error.message, alerts: error.alerts, requiresOverride: true });
+      return;
+    }
+    if (
+      error instanceof RepeatPrescriptionError ||
+      error instanceof FormularyError ||
+      error instanceof InventoryError ||
+      error instanceof ControlledDrugError
+    ) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Refill prescription error:', error);
+    res.status(500).json({ error: 'Failed to refill prescription' });
+  }
+};
+
+/**
+ * Stop a repeat before it runs out, e.g. when the regimen changes. Supplies
+ * already dispensed are unaffected.
+ */
+export const stopRepeatPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (!String(reason || '').trim()) {
+      res.status(400).json({ error: 'Reason is required' });
+      return;
+    }
+
+    const existingPrescription = await prisma.prescription.findUnique({
+      where: { id },
+      include: { visit: true },
+    });
+
+    if (!existingPrescription) {
+      res.status(404).json({ error: 'Prescription not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existingPrescription.visit.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { earlyRefillDays } = repeatSettings(await getHospitalSettings(existingPrescription.visit.hospitalId));
+
+    if (!repeatStatus(existingPrescription, earlyRefillDays).active) {
+      res.status(400).json({ error: 'Prescription has no active repeats' });
+      return;
+    }
+
+    const prescription = await prisma.prescription.update({
+      where: { id },
+      data: { repeatExpiresAt: new Date() },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingPrescription.visit.hospitalId,
+      action: 'STOP_REPEAT_PRESCRIPTION',
+      entity: 'PRESCRIPTION',
+      entityId: id,
+      details: {
+        patientId: prescription.patientId,
+        reason: String(reason).trim(),
+        refillsIssued: prescription.refillsIssued,
+        refillsAllowed: prescription.refillsAllowed,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ prescription: { ...prescription, ...repeatStatus(prescription, earlyRefillDays) } });
+  } catch (error) {
+    console.error('Stop repeat prescription error:', error);
+    res.status(500).json({ error: 'Failed to stop repeat prescription' });
+  }
+};
+
+/**
+ * Patients with a repeat due for refill within the next `days` days (default
+ * 7), including refills already overdue.
+ */
+export const getRefillsDue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? (req.query.hospitalId as string)
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const days = req.query.days !== undefined ? Number(req.query.days) : 7;
+
+    if (!Number.isInteger(days) || days < 0) {
+      res.status(400).json({ error: 'Days must be a whole number' });
+      return;
+    }
+
+    const { earlyRefillDays } = repeatSettings(await getHospitalSettings(hospitalId));
+    const now = new Date();
+    const prescriptions = await refillsDue(hospitalId, new Date(now.getTime() + days * 86400000), now);
+
+    res.json({
+      prescriptions: prescriptions.map((prescription) => ({
+        ...prescription,
+        ...repeatStatus(prescription, earlyRefillDays, now),
+        overdue: prescription.nextRefillDue! < now,
+      })),
+    });
+  } catch (error) {
+    console.error('Get refills due error:', error);
+    res.status(500).json({ error: 'Failed to get refills due' });
+  }
+};
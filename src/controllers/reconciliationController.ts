@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { applyGatewayCharge } from '../services/payments/reconciliation';
+
+const prisma = new PrismaClient();
+
+export const getReconciliationQueue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { status = 'UNMATCHED', page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    if (status !== 'ALL') {
+      where.status = status;
+    }
+
+    // Scope by hospital - events with no identifiable hospital are platform-level
+    if (req.user.role !== 'SUPER_ADMIN') {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    const [reconciliations, total] = await Promise.all([
+      prisma.paymentReconciliation.findMany({
+        where,
+        include: {
+          resolvedByUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.paymentReconciliation.count({ where }),
+    ]);
+
+    res.json({
+      reconciliations,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get reconciliation queue error:', error);
+    res.status(500).json({ error: 'Failed to get reconciliation queue' });
+  }
+};
+
+export const resolveReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { billingRecordId, notes } = req.body;
+
+    if (!billingRecordId) {
+      res.status(400).json({ error: 'Billing record ID is required' });
+      return;
+    }
+
+    const reconciliation = await prisma.paymentReconciliation.findUnique({ where: { id } });
+
+    if (!reconciliation) {
+      res.status(404).json({ error: 'Reconciliation item not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && reconciliation.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (reconciliation.status !== 'UNMATCHED') {
+      res.status(400).json({ error: 'Reconciliation item already closed' });
+      return;
+    }
+
+    const billingRecord = await prisma.billingRecord.findUnique({ where: { id: billingRecordId } });
+
+    if (!billingRecord) {
+      res.status(404).json({ error: 'Billing record not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && billingRecord.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (billingRecord.status === 'CANCELLED') {
+      res.status(400).json({ error: 'Cannot apply payment to a cancelled bill' });
+      return;
+    }
+
+    const { duplicate, paymentId } = await applyGatewayCharge(
+      {
+        gateway: reconciliation.gateway,
+        event: reconciliation.event,
+        reference: reconciliation.reference,
+        amount: reconciliation.amount,
+        currency: reconciliation.currency || undefined,
+        channel: reconciliation.channel || undefined,
+        payload: reconciliation.payload,
+      },
+      billingRecordId
+    );
+
+    const updated = await prisma.paymentReconciliation.update({
+      where: { id },
+      data: {
+        status: 'RESOLVED',
+        hospitalId: billingRecord.hospitalId,
+        billingRecordId,
+        paymentId,
+        resolvedBy: req.user.id,
+        resolvedAt: new Date(),
+        resolutionNotes: notes,
+      },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: billingRecord.hospitalId,
+      action: 'RESOLVE_PAYMENT_RECONCILIATION',
+      entity: 'PAYMENT_RECONCILIATION',
+      entityId: id,
+      details: { billingRecordId, paymentId, reference: reconciliation.reference, duplicate },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ reconciliation: updated, paymentId, duplicate });
+  } catch (error) {
+    console.error('Resolve reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to resolve reconciliation item' });
+  }
+};
+
+export const ignoreReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      res.status(400).json({ error: 'A note explaining why the event is ignored is required' });
+      return;
+    }
+
+    const reconciliation = await prisma.paymentReconciliation.findUnique({ where: { id } });
+
+    if (!reconciliation) {
+      res.status(404).json({ error: 'Reconciliation item not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && reconciliation.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (reconciliation.status !== 'UNMATCHED') {
+      res.status(400).json({ error: 'Reconciliation item already closed' });
+      return;
+    }
+
+    const updated = await prisma.paymentReconciliation.update({
+      where: { id },
+      data: {
+        status: 'IGNORED',
+        resolvedBy: req.user.id,
+        resolvedAt: new Date(),
+        resolutionNotes: notes,
+      },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: reconciliation.hospitalId || undefined,
+      action: 'IGNORE_PAYMENT_RECONCILIATION',
+      entity: 'PAYMENT_RECONCILIATION',
+      entityId: id,
+      details: { reference: reconciliation.reference, notes },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ reconciliation: updated });
+  } catch (error) {
+    console.error('Ignore reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to ignore reconciliation item' });
+  }
+};
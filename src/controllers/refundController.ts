@@ -0,0 +1,373 @@
+import { Request, Response } from 'express';
+import { PrismaClient, RefundMethod, RefundStatus, RefundType } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import {
+  RefundError,
+  approveRefund as processRefundApproval,
+  canApproveRefunds,
+  refundableAmount,
+  refundRegister,
+} from '../services/refunds';
+
+const prisma = new PrismaClient();
+
+const REFUND_TYPES: RefundType[] = ['REFUND', 'REVERSAL'];
+const REFUND_METHODS: RefundMethod[] = ['CASH', 'BANK_TRANSFER', 'GATEWAY'];
+const REFUND_STATUSES: RefundStatus[] = ['PENDING', 'PROCESSING', 'COMPLETED', 'REJECTED', 'FAILED'];
+
+export const requestRefund = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { reason, bankDetails } = req.body;
+    const type: RefundType = req.body.type || 'REFUND';
+    const method: RefundMethod | null = type === 'REVERSAL' ? null : req.body.method;
+
+    if (!REFUND_TYPES.includes(type) || !reason) {
+      res.status(400).json({ error: 'Refund type and reason are required' });
+      return;
+    }
+
+    if (type === 'REFUND' && !REFUND_METHODS.includes(method as RefundMethod)) {
+      res.status(400).json({ error: 'Refund method must be CASH, BANK_TRANSFER or GATEWAY' });
+      return;
+    }
+
+    if (method === 'BANK_TRANSFER' && !bankDetails?.accountNumber) {
+      res.status(400).json({ error: 'Bank details with an account number are required for transfers' });
+      return;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: { billingRecord: { select: { id: true, hospitalId: true } } },
+    });
+
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+
+    const hospitalId = payment.billingRecord.hospitalId;
+
+    if (req.user.role !== 'SUPER_ADMIN' && hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Insurer money is settled against the claim, not handed back at the desk
+    if (payment.remittanceId) {
+      res.status(400).json({ error: 'Insurance remittance payments cannot be refunded' });
+      return;
+    }
+
+    if (payment.corporatePaymentId) {
+      res.status(400).json({ error: 'Corporate account payments cannot be refunded per bill' });
+      return;
+    }
+
+    if (payment.method === 'DEPOSIT' && type !== 'REVERSAL') {
+      res.status(400).json({ error: 'Wallet payments are reversed back into the wallet, not refunded' });
+      return;
+    }
+
+    if (method === 'GATEWAY' && !payment.gatewayReference) {
+      res.status(400).json({ error: 'Payment was not settled online; refund it by cash or transfer' });
+      return;
+    }
+
+    if (type === 'REVERSAL' && payment.gatewayReference) {
+      res.status(400).json({ error: 'Gateway payments were received and must be refunded, not reversed' });
+      return;
+    }
+
+    const userId = req.user.id;
+
+    const refund = await prisma.$transaction(async (tx) => {
+      const available = await refundableAmount(tx, id);
+      // A reversal undoes whatever is left of the payment
+      const amount = type === 'REVERSAL' && req.body.amount === undefined ? available : parseFloat(req.body.amount);
+
+      if (isNaN(amount) || amount <= 0) {
+        throw new RefundError('Valid refund amount is required');
+      }
+      if (amount > available + 0.005) {
+        throw new RefundError(`Refund exceeds the ${available} still refundable on this payment`);
+      }
+
+      return tx.refund.create({
+        data: {
+          paymentId: id,
+          hospitalId,
+          type,
+          method,
+          amount,
+          reason,
+          bankDetails: method === 'BANK_TRANSFER' ? bankDetails : undefined,
+          requestedBy: userId,
+        },
+      });
+    });
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId,
+      action: type === 'REVERSAL' ? 'REQUEST_PAYMENT_REVERSAL' : 'REQUEST_REFUND',
+      entity: 'PAYMENT',
+      entityId: id,
+      details: {
+        refundId: refund.id,
+        billingRecordId: payment.billingRecordId,
+        amount: refund.amount,
+        method,
+        reason,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ refund });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Request refund error:', error);
+    res.status(500).json({ error: 'Failed to request refund' });
+  }
+};
+
+export const getPaymentRefunds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: { billingRecord: { select: { hospitalId: true } } },
+    });
+
+    if (!payment) {
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && payment.billingRecord.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { paymentId: id },
+      include: {
+        requestedByUser: { select: { id: true, firstName: true, lastName: true } },
+        decidedByUser: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ refunds, refundedAmount: payment.refundedAmount });
+  } catch (error) {
+    console.error('Get payment refunds error:', error);
+    res.status(500).json({ error: 'Failed to get refunds' });
+  }
+};
+
+export const approveRefund = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { refundId } = req.params;
+    const { notes } = req.body;
+
+    const existing = await prisma.refund.findUnique({ where: { id: refundId } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Refund not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existing.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'PENDING') {
+      res.status(400).json({ error: `Refund already ${existing.status}` });
+      return;
+    }
+
+    if (existing.requestedBy === req.user.id) {
+      res.status(403).json({ error: 'You cannot approve your own refund' });
+      return;
+    }
+
+    if (!canApproveRefunds(req.user.role, await getHospitalSettings(existing.hospitalId))) {
+      res.status(403).json({ error: 'Your role cannot approve refunds' });
+      return;
+    }
+
+    const { refund, billingRecord } = await processRefundApproval(refundId, req.user.id, notes);
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: refund.status === 'FAILED' ? 'REFUND_FAILED' : 'APPROVE_REFUND',
+      entity: 'PAYMENT',
+      entityId: existing.paymentId,
+      details: {
+        refundId,
+        type: existing.type,
+        method: existing.method,
+        amount: existing.amount,
+        requestedBy: existing.requestedBy,
+        gatewayRefundId: refund.gatewayRefundId,
+        failureReason: refund.failureReason,
+        notes,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    if (billingRecord) {
+      broadcastBillingUpdate(billingRecord.hospitalId, 'updated', billingRecord);
+    }
+
+    if (refund.status === 'FAILED') {
+      res.status(502).json({ error: refund.failureReason || 'Refund failed', refund });
+      return;
+    }
+
+    res.json({ refund, billingRecord });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Approve refund error:', error);
+    res.status(500).json({ error: 'Failed to approve refund' });
+  }
+};
+
+export const rejectRefund = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { refundId } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      res.status(400).json({ error: 'Rejection notes are required' });
+      return;
+    }
+
+    const existing = await prisma.refund.findUnique({ where: { id: refundId } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Refund not found' });
+      return;
+    }
+
+    if (req.user.role !== 'SUPER_ADMIN' && existing.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (existing.status !== 'PENDING') {
+      res.status(400).json({ error: `Refund already ${existing.status}` });
+      return;
+    }
+
+    if (!canApproveRefunds(req.user.role, await getHospitalSettings(existing.hospitalId))) {
+      res.status(403).json({ error: 'Your role cannot decide refunds' });
+      return;
+    }
+
+    const refund = await prisma.refund.update({
+      where: { id: refundId },
+      data: {
+        status: 'REJECTED',
+        decidedBy: req.user.id,
+        decisionNotes: notes,
+        decidedAt: new Date(),
+      },
+    });
+
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existing.hospitalId,
+      action: 'REJECT_REFUND',
+      entity: 'PAYMENT',
+      entityId: existing.paymentId,
+      details: { refundId, type: existing.type, amount: existing.amount, notes },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ refund });
+  } catch (error) {
+    console.error('Reject refund error:', error);
+    res.status(500).json({ error: 'Failed to reject refund' });
+  }
+};
+
+export const getRefundRegister = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { startDate, endDate, status, method, requestedBy, hospitalId } = req.query;
+
+    if (status && !REFUND_STATUSES.includes(status as RefundStatus)) {
+      res.status(400).json({ error: 'Invalid refund status' });
+      return;
+    }
+
+    if (method && !REFUND_METHODS.includes(method as RefundMethod)) {
+      res.status(400).json({ error: 'Invalid refund method' });
+      return;
+    }
+
+    // Defaults to today, for the end-of-day report
+    const from = startDate ? new Date(startDate as string) : new Date();
+    if (!startDate) from.setHours(0, 0, 0, 0);
+    const to = endDate ? new Date(endDate as string) : new Date();
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      res.status(400).json({ error: 'Invalid date range' });
+      return;
+    }
+
+    const register = await refundRegister({
+      hospitalId: req.user.role === 'SUPER_ADMIN' ? (hospitalId as string | undefined) : req.user.hospitalId,
+      from,
+      to,
+      status: status as RefundStatus | undefined,
+      method: method as RefundMethod | undefined,
+      requestedBy: requestedBy as string | undefined,
+    });
+
+    res.json(register);
+  } catch (error) {
+    console.error('Get refund register error:', error);
+    res.status(500).json({ error: 'Failed to get refund register' });
+  }
+};
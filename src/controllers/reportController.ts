@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { MAX_RANGE_DAYS, addDays, daysInRange, hospitalTimezone, isDateKey, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { ReportInterval, revenueReport } from '../services/revenueReports';
+
+const INTERVALS: ReportInterval[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// Longest range per grouping, so one request cannot build millions of periods
+const MAX_SPAN_DAYS: Record<ReportInterval, number> = {
+  DAILY: MAX_RANGE_DAYS,
+  WEEKLY: 3 * MAX_RANGE_DAYS,
+  MONTHLY: 10 * MAX_RANGE_DAYS,
+};
+
+export const getRevenueReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.query.hospitalId as string
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    // Whole local days, defaulting to the month to date
+    const timezone = hospitalTimezone(await getHospitalSettings(hospitalId));
+    const today = localDateKey(new Date(), timezone);
+    const startDate = (req.query.startDate as string) || `${today.slice(0, 7)}-01`;
+    const endDate = (req.query.endDate as string) || today;
+    const interval = String(req.query.interval || 'DAILY').toUpperCase() as ReportInterval;
+
+    if (!isDateKey(startDate) || !isDateKey(endDate) || startDate > endDate) {
+      res.status(400).json({ error: 'Provide startDate and endDate as YYYY-MM-DD, start on or before end' });
+      return;
+    }
+
+    if (!INTERVALS.includes(interval)) {
+      res.status(400).json({ error: `Interval must be one of ${INTERVALS.join(', ')}` });
+      return;
+    }
+
+    if (daysInRange(startDate, endDate) > MAX_SPAN_DAYS[interval]) {
+      res.status(400).json({ error: `A ${interval.toLowerCase()} report can cover at most ${MAX_SPAN_DAYS[interval]} days` });
+      return;
+    }
+
+    const dayAfterEnd = addDays(endDate, 1);
+
+    const report = await revenueReport({
+      hospitalId,
+      startDate,
+      endDate,
+      from: startOfLocalDay(startDate, timezone),
+      to: startOfLocalDay(dayAfterEnd, timezone),
+      timezone,
+      interval,
+    });
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get revenue report error:', error);
+    res.status(500).json({ error: 'Failed to get revenue report' });
+  }
+};
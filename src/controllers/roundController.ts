@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import {
+  DoseRecordInput,
+  EmarError,
+  annotateDose,
+  emarSettings,
+  medicationDoseInclude,
+  overdueDoses,
+  recordDose,
+  scheduleAdmissionDoses,
+} from '../services/emar';
 
 const prisma = new PrismaClient();
 
@@ -19,6 +30,7 @@ export const recordRound = async (req: Request, res: Response): Promise<void> =>
       observations,
       patientCondition,
       nextRoundDue,
+      administrations,
     } = req.body;
 
     // Validate required fields
@@ -56,42 +68,58 @@ export const recordRound = async (req: Request, res: Response): Promise<void> =>
       }
     }
 
-    // Create nursing round
-    const round = await prisma.nursingRound.create({
-      data: {
-        admissionId,
-        patientId: admission.patientId,
-        performedBy: req.user.id,
-        roundType,
-        vitalSignsId,
-        medicationGiven,
-        observations,
-        patientCondition,
-        nextRoundDue: nextRoundDue ? new Date(nextRoundDue) : undefined,
-      },
-      include: {
-        admission: {
-          select: {
-            id: true,
-            diagnosis: true,
-          },
+    if (administrations !== undefined && !Array.isArray(administrations)) {
+      res.status(400).json({ error: 'Administrations must be a list of charted doses' });
+      return;
+    }
+
+    // Create nursing round, charting any doses given during it
+    const round = await prisma.$transaction(async (tx) => {
+      const created = await tx.nursingRound.create({
+        data: {
+          admissionId,
+          patientId: admission.patientId,
+          performedBy: req.user.id,
+          roundType,
+          vitalSignsId,
+          medicationGiven,
+          observations,
+          patientCondition,
+          nextRoundDue: nextRoundDue ? new Date(nextRoundDue) : undefined,
         },
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+      });
+
+      for (const { doseId, ...input } of (administrations || []) as (DoseRecordInput & { doseId: string })[]) {
+        await recordDose(tx, doseId, { ...input, nursingRoundId: created.id }, req.user!.id);
+      }
+
+      return tx.nursingRound.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          admission: {
+            select: {
+              id: true,
+              diagnosis: true,
+            },
           },
-        },
-        performedByUser: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
           },
+          performedByUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          vitalSigns: true,
+          medicationDoses: { include: medicationDoseInclude },
         },
-        vitalSigns: true,
-      },
+      });
     });
 
     // Audit log
@@ -105,6 +133,7 @@ export const recordRound = async (req: Request, res: Response): Promise<void> =>
         admissionId,
         roundType,
         patientCondition,
+        doses: round.medicationDoses.map((dose) => ({ id: dose.id, status: dose.status })),
       },
       ipAddress: String(req.ip || req.socket.remoteAddress || ''),
       userAgent: String(req.headers['user-agent'] || ''),
@@ -112,6 +141,10 @@ export const recordRound = async (req: Request, res: Response): Promise<void> =>
 
     res.status(201).json({ round });
   } catch (error) {
+    if (error instanceof EmarError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('Record round error:', error);
     res.status(500).json({ error: 'Failed to record nursing round' });
   }
@@ -215,6 +248,7 @@ export const getRoundsByAdmission = async (req: Request, res: Response): Promise
             painLevel: true,
           },
         },
+        medicationDoses: { include: medicationDoseInclude },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -305,3 +339,39 @@ export const getDueRounds = async (req: Request, res: Response): Promise<void> =
     res.status(500).json({ error: 'Failed to get due rounds' });
   }
 };
+
+/**
+ * Scheduled doses not charted within their grace period, for the same
+ * screen as rounds due.
+ */
+export const getOverdueDoses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    // Scope by hospital
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? (req.query.hospitalId as string)
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const { graceMinutes } = emarSettings(await getHospitalSettings(hospitalId));
+    const now = new Date();
+
+    // Pick up prescriptions written since the scheduling job last ran
+    await scheduleAdmissionDoses(hospitalId, now);
+
+    const doses = await overdueDoses(hospitalId, graceMinutes, now);
+
+    res.json({ doses: doses.map((dose) => annotateDose(dose, graceMinutes, now)) });
+  } catch (error) {
+    console.error('Get overdue doses error:', error);
+    res.status(500).json({ error: 'Failed to get overdue doses' });
+  }
+};
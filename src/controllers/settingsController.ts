@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { createAuditLog } from '../utils/audit';
+import { isValidTimezone } from '../utils/dates';
 
 const prisma = new PrismaClient();
 
@@ -127,6 +128,11 @@ export const updateSettings = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (settings.timezone !== undefined && !isValidTimezone(settings.timezone)) {
+      res.status(400).json({ error: 'Timezone must be an IANA zone such as Africa/Lagos' });
+      return;
+    }
+
     // Get existing settings
     const hospital = await prisma.hospital.findUnique({
       where: { id: hospitalId },
@@ -245,6 +251,12 @@ export const updateBranding = async (req: Request, res: Response): Promise<void>
 
     const { primaryColor, secondaryColor, logoUrl, hospitalName, tagline } = req.body;
 
+    // Logos are inline images or links; documents fetch links only from public hosts
+    if (logoUrl && !/^(data:image\/(png|jpe?g);base64,|https?:\/\/)/.test(String(logoUrl))) {
+      res.status(400).json({ error: 'Logo must be a PNG or JPEG data URL or an http(s) link' });
+      return;
+    }
+
     // Get existing settings
     const hospital = await prisma.hospital.findUnique({
       where: { id: hospitalId },
@@ -0,0 +1,310 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { findEffectiveTariff, isBillingCategory } from '../services/tariffs';
+
+const prisma = new PrismaClient();
+
+export const createTariff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { code, name, category, price, hmoPrice, nhisPrice, effectiveFrom, effectiveTo } = req.body;
+
+    if (!code || !name || !category || price === undefined) {
+      res.status(400).json({ error: 'Code, name, category and price are required' });
+      return;
+    }
+
+    if (!isBillingCategory(category)) {
+      res.status(400).json({ error: 'Invalid billing category' });
+      return;
+    }
+
+    // Determine hospital ID
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? req.body.hospitalId
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const normalizedCode = String(code).trim().toUpperCase();
+    const startsAt = effectiveFrom ? new Date(effectiveFrom) : new Date();
+    const endsAt = effectiveTo ? new Date(effectiveTo) : null;
+
+    if (endsAt && endsAt <= startsAt) {
+      res.status(400).json({ error: 'effectiveTo must be after effectiveFrom' });
+      return;
+    }
+
+    // A later version cannot be inserted before an existing one
+    const laterVersion = await prisma.tariff.findFirst({
+      where: { hospitalId, code: normalizedCode, effectiveFrom: { gte: startsAt } },
+    });
+
+    if (laterVersion) {
+      res.status(409).json({ error: 'A tariff version with the same or later effective date already exists' });
+      return;
+    }
+
+    // Close off the version currently in force, then add the new one
+    const tariff = await prisma.$transaction(async (tx) => {
+      await tx.tariff.updateMany({
+        where: {
+          hospitalId,
+          code: normalizedCode,
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: startsAt } }],
+        },
+        data: { effectiveTo: startsAt },
+      });
+
+      return tx.tariff.create({
+        data: {
+          hospitalId,
+          code: normalizedCode,
+          name,
+          category,
+          price: parseFloat(price),
+          hmoPrice: hmoPrice !== undefined && hmoPrice !== null ? parseFloat(hmoPrice) : undefined,
+          nhisPrice: nhisPrice !== undefined && nhisPrice !== null ? parseFloat(nhisPrice) : undefined,
+          effectiveFrom: startsAt,
+          effectiveTo: endsAt,
+          createdBy: req.user!.id,
+        },
+      });
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId,
+      action: 'CREATE_TARIFF',
+      entity: 'TARIFF',
+      entityId: tariff.id,
+      details: { code: tariff.code, price: tariff.price, effectiveFrom: tariff.effectiveFrom },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ tariff });
+  } catch (error) {
+    console.error('Create tariff error:', error);
+    res.status(500).json({ error: 'Failed to create tariff' });
+  }
+};
+
+export const getTariffs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { page = '1', limit = '50', category, search, includeHistory } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build filter
+    const where: Record<string, unknown> = {};
+
+    // Scope by hospital
+    if (req.user.role !== 'SUPER_ADMIN' && req.user.hospitalId) {
+      where.hospitalId = req.user.hospitalId;
+    }
+
+    if (category) {
+      where.category = category;
+    }
+
+    // By default only list the versions in force today
+    if (includeHistory !== 'true') {
+      const now = new Date();
+      where.active = true;
+      where.effectiveFrom = { lte: now };
+      where.AND = [{ OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }] }];
+    }
+
+    if (search) {
+      where.OR = [
+        { code: { contains: (search as string).toUpperCase() } },
+        { name: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const [tariffs, total] = await Promise.all([
+      prisma.tariff.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: [{ code: 'asc' }, { effectiveFrom: 'desc' }],
+      }),
+      prisma.tariff.count({ where }),
+    ]);
+
+    res.json({
+      tariffs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get tariffs error:', error);
+    res.status(500).json({ error: 'Failed to get tariffs' });
+  }
+};
+
+export const getTariffByCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const hospitalId = req.user.role === 'SUPER_ADMIN'
+      ? (req.query.hospitalId as string)
+      : req.user.hospitalId;
+
+    if (!hospitalId) {
+      res.status(400).json({ error: 'Hospital ID is required' });
+      return;
+    }
+
+    const { code } = req.params;
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    const tariff = await findEffectiveTariff(hospitalId, String(code).toUpperCase(), at);
+
+    if (!tariff) {
+      res.status(404).json({ error: 'No tariff in force for this code' });
+      return;
+    }
+
+    res.json({ tariff });
+  } catch (error) {
+    console.error('Get tariff by code error:', error);
+    res.status(500).json({ error: 'Failed to get tariff' });
+  }
+};
+
+export const updateTariff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, category, price, hmoPrice, nhisPrice, effectiveTo, active } = req.body;
+
+    const existingTariff = await prisma.tariff.findUnique({ where: { id } });
+
+    if (!existingTariff) {
+      res.status(404).json({ error: 'Tariff not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && existingTariff.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    if (category && !isBillingCategory(category)) {
+      res.status(400).json({ error: 'Invalid billing category' });
+      return;
+    }
+
+    // Bills already priced from this version keep their amounts; a price change
+    // is a correction. Scheduled changes should be posted as a new version.
+    const tariff = await prisma.tariff.update({
+      where: { id },
+      data: {
+        name,
+        category,
+        price: price !== undefined ? parseFloat(price) : undefined,
+        hmoPrice: hmoPrice === null ? null : hmoPrice !== undefined ? parseFloat(hmoPrice) : undefined,
+        nhisPrice: nhisPrice === null ? null : nhisPrice !== undefined ? parseFloat(nhisPrice) : undefined,
+        effectiveTo: effectiveTo === null ? null : effectiveTo ? new Date(effectiveTo) : undefined,
+        active,
+      },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingTariff.hospitalId,
+      action: 'UPDATE_TARIFF',
+      entity: 'TARIFF',
+      entityId: tariff.id,
+      details: {
+        code: tariff.code,
+        previousPrice: existingTariff.price,
+        price: tariff.price,
+      },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ tariff });
+  } catch (error) {
+    console.error('Update tariff error:', error);
+    res.status(500).json({ error: 'Failed to update tariff' });
+  }
+};
+
+export const deleteTariff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const existingTariff = await prisma.tariff.findUnique({ where: { id } });
+
+    if (!existingTariff) {
+      res.status(404).json({ error: 'Tariff not found' });
+      return;
+    }
+
+    // Check hospital access
+    if (req.user.role !== 'SUPER_ADMIN' && existingTariff.hospitalId !== req.user.hospitalId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Deactivate rather than delete - billed items still reference the tariff
+    await prisma.tariff.update({
+      where: { id },
+      data: { active: false },
+    });
+
+    // Audit log
+    await createAuditLog(prisma, {
+      userId: req.user.id,
+      hospitalId: existingTariff.hospitalId,
+      action: 'DEACTIVATE_TARIFF',
+      entity: 'TARIFF',
+      entityId: id,
+      details: { code: existingTariff.code, name: existingTariff.name },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json({ message: 'Tariff deactivated successfully' });
+  } catch (error) {
+    console.error('Delete tariff error:', error);
+    res.status(500).json({ error: 'Failed to delete tariff' });
+  }
+};
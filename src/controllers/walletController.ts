@@ -0,0 +1,300 @@
+import { Request, Response } from 'express';
+import { PaymentMethod, PrismaClient } from '@prisma/client';
+import { createAuditLog } from '../utils/audit';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import { nextDocumentNumber } from '../services/documentNumbers';
+import { canApproveRefunds } from '../services/refunds';
+import { WalletError, applyWalletToBill, creditWallet, debitWallet } from '../services/wallet';
+import { CashierSessionError, cashierSettings, tillSessionFor } from '../services/cashierSessions';
+
+const prisma = new PrismaClient();
+
+const DEPOSIT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER'];
+const REFUND_METHODS: PaymentMethod[] = ['CASH', 'BANK_TRANSFER'];
+
+/**
+ * Load a patient and check the caller may see their wallet.
+ */
+const findAccessiblePatient = async (req: Request, res: Response) => {
+  const patient = await prisma.patient.findUnique({
+    where: { id: req.params.patientId },
+    select: { id: true, hospitalId: true, firstName: true, lastName: true },
+  });
+
+  if (!patient) {
+    res.status(404).json({ error: 'Patient not found' });
+    return null;
+  }
+
+  if (req.user!.role !== 'SUPER_ADMIN' && patient.hospitalId !== req.user!.hospitalId) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return patient;
+};
+
+export const getWalletStatement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const patient = await findAccessiblePatient(req, res);
+    if (!patient) return;
+
+    const { startDate, endDate, page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    const wallet = await prisma.patientWallet.findUnique({ where: { patientId: patient.id } });
+
+    if (!wallet) {
+      res.json({
+        patient,
+        wallet: null,
+        balance: 0,
+        openingBalance: 0,
+        transactions: [],
+        pagination: { page: pageNum, limit: limitNum, total: 0, totalPages: 0 },
+      });
+      return;
+    }
+
+    // Build filter
+    const where: Record<string, unknown> = { walletId: wallet.id };
+    const dateFilter: Record<string, Date> = {};
+    if (startDate) dateFilter.gte = new Date(startDate as string);
+    if (endDate) dateFilter.lte = new Date(endDate as string);
+    if (startDate || endDate) where.createdAt = dateFilter;
+
+    const [transactions, total, previous] = await Promise.all([
+      prisma.walletTransaction.findMany({
+        where,
+        include: {
+          billingRecord: { select: { id: true, invoiceNumber: true } },
+          creator: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.walletTransaction.count({ where }),
+      // Balance carried into the statement period
+      startDate
+        ? prisma.walletTransaction.findFirst({
+            where: { walletId: wallet.id, createdAt: { lt: new Date(startDate as string) } },
+            orderBy: { createdAt: 'desc' },
+          })
+        : null,
+    ]);
+
+    res.json({
+      patient,
+      wallet,
+      balance: wallet.balance,
+      openingBalance: previous?.balanceAfter || 0,
+      transactions,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get wallet statement error:', error);
+    res.status(500).json({ error: 'Failed to get wallet statement' });
+  }
+};
+
+export const recordDeposit = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { method, reference, notes } = req.body;
+    const amount = parseFloat(req.body.amount);
+
+    if (isNaN(amount) || amount <= 0 || !DEPOSIT_METHODS.includes(method)) {
+      res.status(400).json({ error: 'Valid amount and payment method are required' });
+      return;
+    }
+
+    const patient = await findAccessiblePatient(req, res);
+    if (!patient) return;
+
+    const userId = req.user.id;
+    const { requireOpenSession } = cashierSettings(await getHospitalSettings(patient.hospitalId));
+
+    // Deposit receipts share the hospital's receipt sequence
+    const { wallet, transaction } = await prisma.$transaction(async (tx) => creditWallet(tx, 'DEPOSIT', {
+      patientId: patient.id,
+      hospitalId: patient.hospitalId,
+      amount,
+      method,
+      reference,
+      receiptNumber: await nextDocumentNumber(tx, patient.hospitalId, 'RECEIPT'),
+      notes,
+      cashierSessionId: await tillSessionFor(tx, userId, patient.hospitalId, requireOpenSession),
+      userId,
+    }));
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId: patient.hospitalId,
+      action: 'WALLET_DEPOSIT',
+      entity: 'PATIENT',
+      entityId: patient.id,
+      details: { transactionId: transaction.id, receiptNumber: transaction.receiptNumber, amount, method, balance: wallet.balance },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.status(201).json({ wallet, transaction });
+  } catch (error) {
+    if (error instanceof WalletError || error instanceof CashierSessionError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Record deposit error:', error);
+    res.status(500).json({ error: 'Failed to record deposit' });
+  }
+};
+
+export const applyWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { billingRecordId } = req.body;
+    const maxAmount = req.body.amount !== undefined ? parseFloat(req.body.amount) : undefined;
+
+    if (!billingRecordId || (maxAmount !== undefined && (isNaN(maxAmount) || maxAmount <= 0))) {
+      res.status(400).json({ error: 'Billing record ID and a valid amount are required' });
+      return;
+    }
+
+    const patient = await findAccessiblePatient(req, res);
+    if (!patient) return;
+
+    const bill = await prisma.billingRecord.findFirst({
+      where: { id: billingRecordId, patientId: patient.id },
+    });
+
+    if (!bill) {
+      res.status(404).json({ error: 'Billing record not found' });
+      return;
+    }
+
+    const userId = req.user.id;
+    const applied = await prisma.$transaction((tx) => applyWalletToBill(tx, billingRecordId, userId, maxAmount));
+
+    if (!applied) {
+      res.status(400).json({ error: 'Nothing to apply: wallet is empty or the bill has no patient balance' });
+      return;
+    }
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId: patient.hospitalId,
+      action: 'APPLY_WALLET',
+      entity: 'BILLING_RECORD',
+      entityId: billingRecordId,
+      details: { patientId: patient.id, paymentId: applied.payment.id, amount: applied.amount },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    broadcastBillingUpdate(patient.hospitalId, 'payment', applied.billingRecord);
+
+    res.json(applied);
+  } catch (error) {
+    if (error instanceof WalletError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Apply wallet error:', error);
+    res.status(500).json({ error: 'Failed to apply wallet balance' });
+  }
+};
+
+export const refundWalletBalance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { method, reason, reference, bankDetails } = req.body;
+
+    if (!REFUND_METHODS.includes(method) || !reason) {
+      res.status(400).json({ error: 'Refund method (CASH or BANK_TRANSFER) and reason are required' });
+      return;
+    }
+
+    if (method === 'BANK_TRANSFER' && !bankDetails?.accountNumber) {
+      res.status(400).json({ error: 'Bank details with an account number are required for transfers' });
+      return;
+    }
+
+    const patient = await findAccessiblePatient(req, res);
+    if (!patient) return;
+
+    // Paying money out takes the same authority as approving a payment refund
+    if (!canApproveRefunds(req.user.role, await getHospitalSettings(patient.hospitalId))) {
+      res.status(403).json({ error: 'Your role cannot refund wallet balances' });
+      return;
+    }
+
+    const wallet = await prisma.patientWallet.findUnique({ where: { patientId: patient.id } });
+    const amount = req.body.amount !== undefined ? parseFloat(req.body.amount) : wallet?.balance || 0;
+
+    if (isNaN(amount) || amount <= 0) {
+      res.status(400).json({ error: 'No wallet balance to refund' });
+      return;
+    }
+
+    const userId = req.user.id;
+    const transferTo = method === 'BANK_TRANSFER'
+      ? ` to ${bankDetails.accountName || ''} ${bankDetails.accountNumber} ${bankDetails.bankName || ''}`.replace(/\s+/g, ' ')
+      : '';
+
+    const result = await prisma.$transaction(async (tx) => debitWallet(tx, 'REFUND', {
+      patientId: patient.id,
+      hospitalId: patient.hospitalId,
+      amount,
+      method,
+      reference,
+      notes: `${reason}${transferTo}`,
+      cashierSessionId: await tillSessionFor(tx, userId, patient.hospitalId, false),
+      userId,
+    }));
+
+    await createAuditLog(prisma, {
+      userId,
+      hospitalId: patient.hospitalId,
+      action: 'WALLET_REFUND',
+      entity: 'PATIENT',
+      entityId: patient.id,
+      details: { transactionId: result.transaction.id, amount, method, reason, bankDetails, balance: result.wallet.balance },
+      ipAddress: String(req.ip || req.socket.remoteAddress || ''),
+      userAgent: String(req.headers['user-agent'] || ''),
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof WalletError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Refund wallet balance error:', error);
+    res.status(500).json({ error: 'Failed to refund wallet balance' });
+  }
+};
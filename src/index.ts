@@ -11,6 +11,9 @@ import { errorHandler } from './middleware/errorHandler';
 import { auditMiddleware } from './middleware/auditMiddleware';
 import { prisma } from './db';
 import { initializeSocket } from './socket';
+import { registerChargeCapture } from './services/chargeCapture';
+import { ensureRegisterImmutable } from './services/controlledDrugs';
+import { startJobs, stopJobs } from './jobs';
 import 'dotenv/config';
 
 // Initialize Sentry for error monitoring
@@ -79,6 +82,7 @@ app.use(errorHandler);
 // Graceful shutdown
 const shutdown = async () => {
   console.log('\nShutting down gracefully...');
+  stopJobs();
   await prisma.$disconnect();
   process.exit(0);
 };
@@ -92,6 +96,9 @@ const httpServer = createServer(app);
 // Initialize WebSocket server
 const io = initializeSocket(httpServer);
 
+// Subscribe billing to clinical events
+registerChargeCapture();
+
 // Start server
 const startServer = async () => {
   try {
@@ -99,12 +106,18 @@ const startServer = async () => {
     await prisma.$connect();
     console.log('✅ Database connected');
 
+    // Controlled-drug register entries may never be edited or deleted
+    await ensureRegisterImmutable();
+
     httpServer.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
       console.log(`🔐 CORS enabled for: ${CORS_ORIGIN}`);
       console.log(`🔌 WebSocket server ready`);
     });
+
+    // Payment plan reminders and other periodic work
+    startJobs();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
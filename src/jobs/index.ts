@@ -0,0 +1,67 @@
+/**
+ * Background jobs
+ *
+ * Periodic work run inside the API process. Each job runs once shortly after
+ * start-up and then on its interval; a run is skipped while the previous one
+ * is still going, and errors are logged rather than allowed to stop the timer.
+ * Set JOBS_ENABLED=false on replicas that should not run them.
+ */
+
+import { accrueBedCharges } from '../services/bedCharges';
+import { sendPaymentPlanReminders } from '../services/paymentPlans';
+import { settleGatewayRefunds } from '../services/refunds';
+import { scheduleAdmissionDoses } from '../services/emar';
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const jobs: Job[] = [
+  // Frequent runs so each hospital's cut-off is met promptly; accrual is idempotent
+  { name: 'bed-charge-accrual', intervalMs: 15 * MINUTE_MS, run: () => accrueBedCharges() },
+  { name: 'payment-plan-reminders', intervalMs: HOUR_MS, run: () => sendPaymentPlanReminders() },
+  // Completes gateway refunds once the provider has paid them out
+  { name: 'gateway-refund-settlement', intervalMs: 15 * MINUTE_MS, run: () => settleGatewayRefunds() },
+  // Keeps the medication chart a day ahead; scheduling is idempotent
+  { name: 'emar-scheduling', intervalMs: HOUR_MS, run: () => scheduleAdmissionDoses() },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+const schedule = (job: Job) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await job.run();
+      console.log(`[Jobs] ${job.name} finished:`, result);
+    } catch (error) {
+      console.error(`[Jobs] ${job.name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.push(setTimeout(tick, MINUTE_MS), setInterval(tick, job.intervalMs));
+};
+
+export const startJobs = () => {
+  if (process.env.JOBS_ENABLED === 'false') {
+    console.log('⏸️  Background jobs disabled');
+    return;
+  }
+
+  jobs.forEach(schedule);
+  console.log(`⏱️  ${jobs.length} background job(s) scheduled`);
+};
+
+export const stopJobs = () => {
+  timers.splice(0).forEach((timer) => clearTimeout(timer));
+};
@@ -7,6 +7,7 @@ import {
   assignBed,
   dischargePatient,
   getActiveAdmissions,
+  getInterimBill,
 } from '../controllers/admissionController';
 
 const router = Router();
@@ -22,6 +23,8 @@ router.post(
     body('patientId').isUUID().withMessage('Valid patient ID is required'),
     body('diagnosis').notEmpty().withMessage('Diagnosis is required'),
     body('visitId').optional().isUUID().withMessage('Valid visit ID required'),
+    body('wardId').optional().isUUID().withMessage('Valid ward ID required'),
+    body('preAuthorizationCode').optional().isString().withMessage('Pre-authorization code must be text'),
   ],
   createAdmission
 );
@@ -59,4 +62,12 @@ router.put(
   dischargePatient
 );
 
+// Running bill during the stay - billing staff and clinicians
+router.get(
+  '/:id/interim-bill',
+  authorize('DOCTOR', 'NURSE', 'WARD_MANAGER', 'BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid admission ID is required'),
+  getInterimBill
+);
+
 export default router;
@@ -7,7 +7,22 @@ import {
   getBillByVisit,
   getOutstandingBills,
   getBillsByPatient,
+  getInvoicePdf,
+  getTaxSummary,
 } from '../controllers/billingController';
+import {
+  requestAdjustment,
+  getBillAdjustments,
+  getPendingAdjustments,
+  approveAdjustment,
+  rejectAdjustment,
+} from '../controllers/adjustmentController';
+import {
+  createPlan,
+  getBillPaymentPlan,
+  cancelPlan,
+  getPaymentPlans,
+} from '../controllers/paymentPlanController';
 
 const router = Router();
 
@@ -37,6 +52,9 @@ router.post(
 
 router.get('/outstanding', getOutstandingBills);
 
+// VAT and service charge collected, for filing returns
+router.get('/tax-summary', getTaxSummary);
+
 router.get(
   '/visit/:visitId',
   param('visitId').isUUID().withMessage('Valid visit ID required'),
@@ -49,4 +67,77 @@ router.get(
   getBillsByPatient
 );
 
+router.get(
+  '/:id/invoice.pdf',
+  param('id').isUUID().withMessage('Valid billing record ID required'),
+  getInvoicePdf
+);
+
+// Discounts, waivers and write-offs; approval limits per role come from settings
+router.get('/adjustments/pending', getPendingAdjustments);
+
+router.post(
+  '/adjustments/:adjustmentId/approve',
+  param('adjustmentId').isUUID().withMessage('Valid adjustment ID required'),
+  approveAdjustment
+);
+
+router.post(
+  '/adjustments/:adjustmentId/reject',
+  [
+    param('adjustmentId').isUUID().withMessage('Valid adjustment ID required'),
+    body('notes').notEmpty().withMessage('Rejection notes are required'),
+  ],
+  rejectAdjustment
+);
+
+router.get(
+  '/:id/adjustments',
+  param('id').isUUID().withMessage('Valid billing record ID required'),
+  getBillAdjustments
+);
+
+router.post(
+  '/:id/adjustments',
+  [
+    param('id').isUUID().withMessage('Valid billing record ID required'),
+    body('type').isIn(['DISCOUNT', 'WAIVER', 'WRITE_OFF']).withMessage('Valid adjustment type required'),
+    body('valueType').isIn(['PERCENT', 'FIXED']).withMessage('Value type must be PERCENT or FIXED'),
+    body('value').isFloat({ gt: 0 }).withMessage('Valid adjustment value is required'),
+    body('billingItemId').optional().isUUID().withMessage('Valid billing item ID required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+  ],
+  requestAdjustment
+);
+
+// Instalment plans; ?overdue=true lists plans with instalments past due
+router.get('/payment-plans', getPaymentPlans);
+
+router.get(
+  '/:id/payment-plan',
+  param('id').isUUID().withMessage('Valid billing record ID required'),
+  getBillPaymentPlan
+);
+
+router.post(
+  '/:id/payment-plan',
+  [
+    param('id').isUUID().withMessage('Valid billing record ID required'),
+    body('installments').optional().isArray({ min: 2 }).withMessage('At least two instalments are required'),
+    body('installmentCount').optional().isInt({ min: 2 }).withMessage('At least two instalments are required'),
+    body('frequency').optional().isIn(['WEEKLY', 'MONTHLY']).withMessage('Frequency must be WEEKLY or MONTHLY'),
+    body('firstDueDate').optional().isISO8601().withMessage('First due date must be YYYY-MM-DD'),
+  ],
+  createPlan
+);
+
+router.post(
+  '/:id/payment-plan/cancel',
+  [
+    param('id').isUUID().withMessage('Valid billing record ID required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+  ],
+  cancelPlan
+);
+
 export default router;
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  openSession,
+  getCurrentSession,
+  getSessions,
+  getSessionById,
+  closeCashierSession,
+  signOffSession,
+  getZReport,
+} from '../controllers/cashierSessionController';
+
+const router = Router();
+
+// All routes require authentication and BILLING_OFFICER, ADMIN, or SUPER_ADMIN role
+router.use(authenticate);
+router.use(authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'));
+
+router.post(
+  '/',
+  body('openingFloat').optional().isFloat({ min: 0 }).withMessage('Opening float must be zero or more'),
+  openSession
+);
+
+router.get('/', getSessions);
+
+router.get('/current', getCurrentSession);
+
+// Day's closed tills, expected vs declared, for admin review
+router.get('/z-report', authorize('ADMIN', 'SUPER_ADMIN'), getZReport);
+
+router.get(
+  '/:id',
+  param('id').isUUID().withMessage('Valid session ID required'),
+  getSessionById
+);
+
+router.post(
+  '/:id/close',
+  [
+    param('id').isUUID().withMessage('Valid session ID required'),
+    body('declaredAmounts').isObject().withMessage('Declared amounts per payment method are required'),
+  ],
+  closeCashierSession
+);
+
+router.post(
+  '/:id/sign-off',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid session ID required'),
+  signOffSession
+);
+
+export default router;
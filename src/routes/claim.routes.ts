@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  createClaimBatch,
+  getClaims,
+  getClaimById,
+  submitClaim,
+  queryClaim,
+  approveClaim,
+  rejectClaim,
+  deleteClaim,
+  addClaimRemittance,
+  getClaimsAgeing,
+} from '../controllers/claimController';
+
+const router = Router();
+
+// All routes require authentication and BILLING_OFFICER, ADMIN, or SUPER_ADMIN role
+router.use(authenticate);
+router.use(authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'));
+
+// Batch unclaimed insured bills into one draft claim per payer
+router.post(
+  '/batch',
+  [
+    body('periodStart').isISO8601().withMessage('Valid period start is required'),
+    body('periodEnd').isISO8601().withMessage('Valid period end is required'),
+  ],
+  createClaimBatch
+);
+
+router.get('/', getClaims);
+
+// Outstanding amounts per HMO in 0-30 / 31-60 / 61-90 / 90+ day buckets
+router.get('/ageing', getClaimsAgeing);
+
+router.get(
+  '/:id',
+  param('id').isUUID().withMessage('Valid claim ID required'),
+  getClaimById
+);
+
+router.post(
+  '/:id/submit',
+  param('id').isUUID().withMessage('Valid claim ID required'),
+  submitClaim
+);
+
+router.post(
+  '/:id/query',
+  [
+    param('id').isUUID().withMessage('Valid claim ID required'),
+    body('notes').notEmpty().withMessage('Query notes are required'),
+  ],
+  queryClaim
+);
+
+router.post(
+  '/:id/approve',
+  [
+    param('id').isUUID().withMessage('Valid claim ID required'),
+    body('approvedAmount').isFloat({ min: 0 }).withMessage('Valid approved amount is required'),
+  ],
+  approveClaim
+);
+
+router.post(
+  '/:id/reject',
+  [
+    param('id').isUUID().withMessage('Valid claim ID required'),
+    body('reason').notEmpty().withMessage('Rejection reason is required'),
+  ],
+  rejectClaim
+);
+
+router.post(
+  '/:id/remittances',
+  [
+    param('id').isUUID().withMessage('Valid claim ID required'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Valid remittance amount is required'),
+  ],
+  addClaimRemittance
+);
+
+router.delete(
+  '/:id',
+  param('id').isUUID().withMessage('Valid claim ID required'),
+  deleteClaim
+);
+
+export default router;
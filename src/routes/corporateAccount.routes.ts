@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  createAccount,
+  getAccounts,
+  getAccountById,
+  updateAccount,
+  enrollMember,
+  endMembership,
+  getPatientMembership,
+  routeBill,
+  getStatement,
+  recordCorporatePayment,
+  getCorporatePayments,
+} from '../controllers/corporateAccountController';
+
+const router = Router();
+
+// All routes require authentication and BILLING_OFFICER, ADMIN, or SUPER_ADMIN role
+router.use(authenticate);
+router.use(authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'));
+
+router.get('/', getAccounts);
+
+// Credit terms are set by admins
+router.post(
+  '/',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  [
+    body('code').notEmpty().withMessage('Account code is required'),
+    body('name').notEmpty().withMessage('Account name is required'),
+    body('coveragePercent').optional().isFloat({ gt: 0, max: 100 }).withMessage('Coverage percent must be between 0 and 100'),
+    body('creditLimit').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Credit limit must be zero or more'),
+    body('paymentTermsDays').optional().isInt({ min: 0 }).withMessage('Payment terms must be zero or more days'),
+  ],
+  createAccount
+);
+
+// Which account, if any, a patient's bills go to at checkout
+router.get(
+  '/membership/:patientId',
+  param('patientId').isUUID().withMessage('Valid patient ID required'),
+  getPatientMembership
+);
+
+router.get(
+  '/:id',
+  param('id').isUUID().withMessage('Valid account ID required'),
+  getAccountById
+);
+
+router.put(
+  '/:id',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    body('status').optional().isIn(['ACTIVE', 'SUSPENDED', 'CLOSED']).withMessage('Invalid account status'),
+    body('coveragePercent').optional().isFloat({ gt: 0, max: 100 }).withMessage('Coverage percent must be between 0 and 100'),
+    body('creditLimit').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Credit limit must be zero or more'),
+    body('paymentTermsDays').optional().isInt({ min: 0 }).withMessage('Payment terms must be zero or more days'),
+  ],
+  updateAccount
+);
+
+router.post(
+  '/:id/members',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    body('patientId').isUUID().withMessage('Valid patient ID required'),
+    body('relationship').optional().isIn(['EMPLOYEE', 'DEPENDANT']).withMessage('Relationship must be EMPLOYEE or DEPENDANT'),
+    body('principalId').optional().isUUID().withMessage('Valid principal member ID required'),
+  ],
+  enrollMember
+);
+
+router.delete(
+  '/:id/members/:memberId',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    param('memberId').isUUID().withMessage('Valid member ID required'),
+  ],
+  endMembership
+);
+
+// Checkout: send an enrolled patient's bill to the account
+router.post(
+  '/:id/bills',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    body('billingRecordId').isUUID().withMessage('Valid billing record ID required'),
+  ],
+  routeBill
+);
+
+router.get(
+  '/:id/statement',
+  param('id').isUUID().withMessage('Valid account ID required'),
+  getStatement
+);
+
+router.get(
+  '/:id/payments',
+  param('id').isUUID().withMessage('Valid account ID required'),
+  getCorporatePayments
+);
+
+router.post(
+  '/:id/payments',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Valid payment amount is required'),
+    body('method').isIn(['CASH', 'CARD', 'BANK_TRANSFER', 'MOBILE_MONEY']).withMessage('Valid payment method is required'),
+    body('allocations').optional().isArray({ min: 1 }).withMessage('Allocations must be a non-empty list'),
+  ],
+  recordCorporatePayment
+);
+
+export default router;
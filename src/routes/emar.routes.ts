@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  getAdmissionMar,
+  recordAdministration,
+  recordUnscheduledAdministration,
+} from '../controllers/emarController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Medication chart for an admission - clinical roles can read
+router.get(
+  '/admission/:admissionId',
+  authorize('NURSE', 'DOCTOR', 'PHARMACIST', 'ADMIN', 'WARD_MANAGER', 'SUPER_ADMIN'),
+  param('admissionId').isUUID().withMessage('Valid admission ID is required'),
+  getAdmissionMar
+);
+
+// Chart a PRN or unscheduled dose - NURSE charts doses
+router.post(
+  '/admission/:admissionId/doses',
+  authorize('NURSE', 'WARD_MANAGER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('admissionId').isUUID().withMessage('Valid admission ID is required'),
+    body('prescriptionItemId').isUUID().withMessage('Valid prescription item ID is required'),
+    body('administeredAt').optional().isISO8601().withMessage('Valid administration time required'),
+    body('nursingRoundId').optional().isUUID().withMessage('Valid nursing round ID required'),
+  ],
+  recordUnscheduledAdministration
+);
+
+// Chart a scheduled dose as given, held or refused
+router.patch(
+  '/doses/:id',
+  authorize('NURSE', 'WARD_MANAGER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid dose ID is required'),
+    body('status').isIn(['GIVEN', 'HELD', 'REFUSED']).withMessage('Status must be GIVEN, HELD or REFUSED'),
+    body('administeredAt').optional().isISO8601().withMessage('Valid administration time required'),
+    body('nursingRoundId').optional().isUUID().withMessage('Valid nursing round ID required'),
+  ],
+  recordAdministration
+);
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  createDrug,
+  getDrugs,
+  searchDrugs,
+  getDrugById,
+  updateDrug,
+  getDoseRanges,
+  createDoseRange,
+  deleteDoseRange,
+  calculateDose,
+} from '../controllers/formularyController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Read the formulary: prescribers, pharmacy and nursing
+router.get(
+  '/',
+  authorize('DOCTOR', 'PHARMACIST', 'NURSE', 'ADMIN', 'SUPER_ADMIN'),
+  getDrugs
+);
+
+// Autocomplete for prescribers
+router.get(
+  '/search',
+  authorize('DOCTOR', 'PHARMACIST', 'NURSE', 'ADMIN', 'SUPER_ADMIN'),
+  searchDrugs
+);
+
+router.get(
+  '/:id',
+  authorize('DOCTOR', 'PHARMACIST', 'NURSE', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid formulary drug ID required'),
+  getDrugById
+);
+
+// Maintain the formulary: PHARMACIST, ADMIN, SUPER_ADMIN
+router.post(
+  '/',
+  authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    body('genericName').notEmpty().withMessage('Generic name is required'),
+    body('strength').notEmpty().withMessage('Strength is required'),
+    body('form').notEmpty().withMessage('Drug form is required'),
+    body('route').notEmpty().withMessage('Route is required'),
+    body('inventoryItemId').optional({ values: 'null' }).isUUID().withMessage('Valid inventory item ID required'),
+  ],
+  createDrug
+);
+
+router.put(
+  '/:id',
+  authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid formulary drug ID required'),
+    body('inventoryItemId').optional({ values: 'null' }).isUUID().withMessage('Valid inventory item ID required'),
+  ],
+  updateDrug
+);
+
+// Dose ranges by age/weight band, and the calculator prescribers check against
+router.get(
+  '/:id/dose-ranges',
+  authorize('DOCTOR', 'PHARMACIST', 'NURSE', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid formulary drug ID required'),
+  getDoseRanges
+);
+
+router.get(
+  '/:id/dose',
+  authorize('DOCTOR', 'PHARMACIST', 'NURSE', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid formulary drug ID required'),
+  calculateDose
+);
+
+router.post(
+  '/:id/dose-ranges',
+  authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid formulary drug ID required'),
+    body('unit').notEmpty().withMessage('Dose unit is required'),
+  ],
+  createDoseRange
+);
+
+router.delete(
+  '/:id/dose-ranges/:rangeId',
+  authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid formulary drug ID required'),
+    param('rangeId').isUUID().withMessage('Valid dose range ID required'),
+  ],
+  deleteDoseRange
+);
+
+export default router;
@@ -18,6 +18,15 @@ import roundRoutes from './round.routes';
 import reviewRoutes from './review.routes';
 import settingsRoutes from './settings.routes';
 import paymentRoutes from './payment.routes';
+import tariffRoutes from './tariff.routes';
+import claimRoutes from './claim.routes';
+import preAuthorizationRoutes from './preAuthorization.routes';
+import walletRoutes from './wallet.routes';
+import cashierSessionRoutes from './cashierSession.routes';
+import corporateAccountRoutes from './corporateAccount.routes';
+import reportRoutes from './report.routes';
+import formularyRoutes from './formulary.routes';
+import emarRoutes from './emar.routes';
 
 const router = Router();
 
@@ -40,6 +49,15 @@ router.use('/rounds', roundRoutes);
 router.use('/reviews', reviewRoutes);
 router.use('/settings', settingsRoutes);
 router.use('/payments', paymentRoutes);
+router.use('/tariffs', tariffRoutes);
+router.use('/claims', claimRoutes);
+router.use('/pre-authorizations', preAuthorizationRoutes);
+router.use('/wallets', walletRoutes);
+router.use('/cashier-sessions', cashierSessionRoutes);
+router.use('/corporate-accounts', corporateAccountRoutes);
+router.use('/reports', reportRoutes);
+router.use('/formulary', formularyRoutes);
+router.use('/emar', emarRoutes);
 
 // Sentry test endpoint (remove in production after testing)
 router.get('/sentry-test', (req, res) => {
@@ -9,6 +9,10 @@ import {
   updateStock,
   getLowStock,
   deleteInventoryItem,
+  receiveStock,
+  getBatches,
+  wasteStock,
+  getControlledRegister,
 } from '../controllers/inventoryController';
 
 const router = Router();
@@ -33,6 +37,9 @@ router.get('/', getInventoryItems);
 
 router.get('/low-stock', getLowStock);
 
+// Controlled-drug register for a period; ?format=pdf to print
+router.get('/controlled-register', getControlledRegister);
+
 router.get(
   '/:id',
   param('id').isUUID().withMessage('Valid inventory item ID required'),
@@ -55,6 +62,36 @@ router.patch(
   updateStock
 );
 
+// Deliveries are received as batches with their own expiry and cost
+router.get(
+  '/:id/batches',
+  param('id').isUUID().withMessage('Valid inventory item ID required'),
+  getBatches
+);
+
+router.post(
+  '/:id/batches',
+  [
+    param('id').isUUID().withMessage('Valid inventory item ID required'),
+    body('quantity').isInt({ gt: 0 }).withMessage('Valid quantity is required'),
+    body('unitCost').optional().isFloat({ min: 0 }).withMessage('Valid unit cost required'),
+    body('expiryDate').optional().isISO8601().withMessage('Valid expiry date required'),
+  ],
+  receiveStock
+);
+
+// Write-offs; controlled drugs need a co-signing witness
+router.post(
+  '/:id/waste',
+  [
+    param('id').isUUID().withMessage('Valid inventory item ID required'),
+    body('quantity').isInt({ gt: 0 }).withMessage('Valid quantity is required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+    body('witnessId').optional().isUUID().withMessage('Valid witness user ID required'),
+  ],
+  wasteStock
+);
+
 router.delete(
   '/:id',
   param('id').isUUID().withMessage('Valid inventory item ID required'),
@@ -23,6 +23,7 @@ router.post(
     body('visitId').isUUID().withMessage('Valid visit ID required'),
     body('patientId').isUUID().withMessage('Valid patient ID required'),
     body('testType').notEmpty().withMessage('Test type is required'),
+    body('preAuthorizationCode').optional().isString().withMessage('Pre-authorization code must be text'),
   ],
   createLabOrder
 );
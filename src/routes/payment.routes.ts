@@ -1,101 +1,107 @@
 /**
  * Payment Routes
  * 
- * Server-side payment processing for Paystack integration.
+ * Server-side online payment processing. Each hospital picks its gateway
+ * (Paystack, Flutterwave or the offline sandbox) in settings; the routes
+ * only talk to the PaymentProvider interface.
  * SECRET keys are ONLY used here on the backend - NEVER on frontend.
  */
 
 import { Router, Request, Response } from 'express';
-import crypto from 'crypto';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  getHospitalPaymentProvider,
+  getPaymentProvider,
+  handleProviderWebhook,
+  isPaymentProviderName,
+  NIGERIAN_BANKS,
+  PaymentProvider,
+  PaymentProviderError,
+} from '../services/payments';
+import {
+  completeSandboxTransaction,
+  getSandboxTransaction,
+  isSandboxEnabled,
+} from '../services/payments/sandbox';
+import {
+  getReconciliationQueue,
+  resolveReconciliation,
+  ignoreReconciliation,
+} from '../controllers/reconciliationController';
+import { getReceiptPdf } from '../controllers/billingController';
+import {
+  requestRefund,
+  getPaymentRefunds,
+  approveRefund,
+  rejectRefund,
+  getRefundRegister,
+} from '../controllers/refundController';
 
 const router = Router();
 
-// Paystack API response types
-interface PaystackResponse {
-  status?: boolean;
-  message?: string;
-  data?: {
-    authorization_url?: string;
-    access_code?: string;
-    reference?: string;
-    amount?: number;
-    currency?: string;
-    channel?: string;
-    status?: string;
-    paid_at?: string;
-    customer?: {
-      email?: string;
-    };
-    metadata?: Record<string, any>;
-  };
+/**
+ * Hospital the request is paying into - used to pick its gateway
+ */
+function hospitalIdFor(req: Request): string | undefined {
+  const hospitalId = req.body?.hospitalId || req.body?.metadata?.hospitalId || req.query.hospitalId;
+  return typeof hospitalId === 'string' ? hospitalId : undefined;
 }
 
-// SECURITY: Secret key from environment only
-const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
-const PAYSTACK_WEBHOOK_SECRET = process.env.PAYSTACK_WEBHOOK_SECRET;
+function providerErrorStatus(error: unknown): number {
+  return error instanceof PaymentProviderError ? error.status : 500;
+}
 
 /**
  * POST /api/payments/initialize
  * Initialize a transaction server-side
  */
 router.post('/initialize', async (req: Request, res: Response) => {
-  if (!PAYSTACK_SECRET_KEY) {
-    return res.status(503).json({
-      status: false,
-      message: 'Payment service not configured. Contact administrator.',
-    });
-  }
-
   try {
-    const { email, amount, reference, metadata, channels } = req.body;
+    const hospitalId = hospitalIdFor(req);
+    const provider = await getHospitalPaymentProvider(hospitalId);
 
-    if (!email || !amount || !reference) {
-      return res.status(400).json({
+    if (!provider.isConfigured()) {
+      return res.status(503).json({
         status: false,
-        message: 'Missing required fields: email, amount, reference',
+        message: 'Payment service not configured. Contact administrator.',
       });
     }
 
-    const response = await fetch('https://api.paystack.co/transaction/initialize', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        email,
-        amount, // Amount in kobo
-        reference,
-        currency: 'NGN',
-        channels: channels || ['card', 'bank', 'ussd', 'bank_transfer'],
-        metadata,
-      }),
-    });
-
-    const data: PaystackResponse = await response.json();
+    const { email, amount, reference, metadata, channels, callbackUrl } = req.body;
 
-    if (!response.ok) {
-      console.error('[Payment] Paystack initialization failed:', data);
-      return res.status(response.status).json({
+    if (!email || !amount || !reference) {
+      return res.status(400).json({
         status: false,
-        message: data.message || 'Payment initialization failed',
+        message: 'Missing required fields: email, amount, reference',
       });
     }
 
+    const result = await provider.initialize({
+      email,
+      amount, // Amount in kobo
+      reference,
+      channels,
+      callbackUrl,
+      // Carry the hospital through so the webhook can scope reconciliation
+      metadata: hospitalId ? { ...(metadata || {}), hospitalId } : metadata,
+    });
+
     return res.json({
       status: true,
       message: 'Transaction initialized',
       data: {
-        authorization_url: data.data?.authorization_url,
-        access_code: data.data?.access_code,
-        reference: data.data?.reference,
+        provider: provider.name,
+        authorization_url: result.authorizationUrl,
+        access_code: result.accessCode,
+        reference: result.reference,
       },
     });
   } catch (error: any) {
     console.error('[Payment] Initialize error:', error);
-    return res.status(500).json({
+    return res.status(providerErrorStatus(error)).json({
       status: false,
-      message: 'Payment service error',
+      message: error instanceof PaymentProviderError ? error.message : 'Payment service error',
     });
   }
 });
@@ -105,158 +111,112 @@ router.post('/initialize', async (req: Request, res: Response) => {
  * Verify a transaction server-side
  */
 router.post('/verify', async (req: Request, res: Response) => {
-  if (!PAYSTACK_SECRET_KEY) {
-    return res.status(503).json({
-      status: false,
-      message: 'Payment service not configured',
-    });
-  }
-
   try {
-    const { reference } = req.body;
+    const provider = await getHospitalPaymentProvider(hospitalIdFor(req));
 
-    if (!reference) {
-      return res.status(400).json({
+    if (!provider.isConfigured()) {
+      return res.status(503).json({
         status: false,
-        message: 'Reference is required',
+        message: 'Payment service not configured',
       });
     }
 
-    const response = await fetch(
-      `https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-        },
-      }
-    );
-
-    const data: PaystackResponse = await response.json();
+    const { reference } = req.body;
 
-    if (!response.ok) {
-      return res.status(response.status).json({
+    if (!reference) {
+      return res.status(400).json({
         status: false,
-        message: data.message || 'Verification failed',
+        message: 'Reference is required',
       });
     }
 
+    const result = await provider.verify(reference);
+
     // Return sanitized verification result
     return res.json({
-      status: data.status,
-      message: data.message,
-      data: data.data ? {
-        reference: data.data.reference,
-        amount: data.data.amount,
-        currency: data.data.currency,
-        channel: data.data.channel,
-        status: data.data.status,
-        paid_at: data.data.paid_at,
+      status: true,
+      message: 'Verification successful',
+      data: {
+        provider: provider.name,
+        reference: result.reference,
+        amount: result.amount,
+        currency: result.currency,
+        channel: result.channel,
+        status: result.status,
+        paid_at: result.paidAt,
         customer: {
-          email: data.data.customer?.email,
+          email: result.customerEmail,
         },
-        metadata: data.data.metadata,
-      } : null,
+        metadata: result.metadata,
+      },
     });
   } catch (error: any) {
     console.error('[Payment] Verify error:', error);
-    return res.status(500).json({
+    return res.status(providerErrorStatus(error)).json({
       status: false,
-      message: 'Verification service error',
+      message: error instanceof PaymentProviderError ? error.message : 'Verification service error',
     });
   }
 });
 
 /**
- * POST /api/payments/webhook
- * Handle Paystack webhook events
+ * Shared webhook handler - signature checks and event parsing are provider-specific
  */
-router.post('/webhook', async (req: Request, res: Response) => {
-  // Verify webhook signature
-  const signature = req.headers['x-paystack-signature'] as string;
-  
-  if (PAYSTACK_WEBHOOK_SECRET && signature) {
-    const hash = crypto
-      .createHmac('sha512', PAYSTACK_WEBHOOK_SECRET)
-      .update(JSON.stringify(req.body))
-      .digest('hex');
-    
-    if (hash !== signature) {
-      console.error('[Payment] Invalid webhook signature');
-      return res.status(401).json({ message: 'Invalid signature' });
-    }
-  }
-
-  const event = req.body;
-  console.log('[Payment] Webhook event:', event.event);
-
+async function processWebhook(provider: PaymentProvider, req: Request, res: Response) {
   try {
-    switch (event.event) {
-      case 'charge.success':
-        // Handle successful payment
-        console.log('[Payment] Charge successful:', event.data.reference);
-        // TODO: Update payment record in database
-        // TODO: Notify relevant services
-        break;
-
-      case 'charge.failed':
-        console.log('[Payment] Charge failed:', event.data.reference);
-        break;
-
-      case 'transfer.success':
-        console.log('[Payment] Transfer successful:', event.data.reference);
-        break;
-
-      case 'transfer.failed':
-        console.log('[Payment] Transfer failed:', event.data.reference);
-        break;
-
-      default:
-        console.log('[Payment] Unhandled event:', event.event);
+    const { verified } = await handleProviderWebhook(provider, req.headers, req.body);
+
+    if (!verified) {
+      // Events post to our books, so unsigned ones are rejected
+      console.error(`[Payment] Invalid ${provider.name} webhook signature`);
+      return res.status(401).json({ message: 'Invalid signature' });
     }
 
     // Always return 200 to acknowledge receipt
     return res.status(200).json({ received: true });
   } catch (error) {
+    // Processing is idempotent, so let the gateway retry rather than lose the event
     console.error('[Payment] Webhook processing error:', error);
-    return res.status(200).json({ received: true }); // Still return 200
+    return res.status(500).json({ received: false });
+  }
+}
+
+/**
+ * POST /api/payments/webhook
+ * Handle Paystack webhook events (original endpoint registered with Paystack)
+ */
+router.post('/webhook', (req: Request, res: Response) => processWebhook(getPaymentProvider('paystack'), req, res));
+
+/**
+ * POST /api/payments/webhook/:provider
+ * Handle webhook events for any supported provider
+ */
+router.post('/webhook/:provider', (req: Request, res: Response) => {
+  const { provider } = req.params;
+
+  if (!isPaymentProviderName(provider)) {
+    return res.status(404).json({ message: 'Unknown payment provider' });
   }
+
+  return processWebhook(getPaymentProvider(provider), req, res);
 });
 
 /**
  * GET /api/payments/banks
  * Get list of supported banks
  */
-router.get('/banks', async (_req: Request, res: Response) => {
-  if (!PAYSTACK_SECRET_KEY) {
-    // Return common Nigerian banks as fallback
-    return res.json({
-      status: true,
-      data: [
-        { name: 'Access Bank', code: '044', type: 'nuban' },
-        { name: 'First Bank', code: '011', type: 'nuban' },
-        { name: 'GTBank', code: '058', type: 'nuban' },
-        { name: 'UBA', code: '033', type: 'nuban' },
-        { name: 'Zenith Bank', code: '057', type: 'nuban' },
-        { name: 'Fidelity Bank', code: '070', type: 'nuban' },
-        { name: 'Union Bank', code: '032', type: 'nuban' },
-        { name: 'Sterling Bank', code: '232', type: 'nuban' },
-        { name: 'Wema Bank', code: '035', type: 'nuban' },
-        { name: 'Stanbic IBTC', code: '221', type: 'nuban' },
-      ],
-    });
-  }
-
+router.get('/banks', async (req: Request, res: Response) => {
   try {
-    const response = await fetch('https://api.paystack.co/bank', {
-      headers: {
-        'Authorization': `Bearer ${PAYSTACK_SECRET_KEY}`,
-      },
-    });
+    const provider = await getHospitalPaymentProvider(hospitalIdFor(req));
+
+    if (!provider.isConfigured()) {
+      // Return common Nigerian banks as fallback
+      return res.json({ status: true, data: NIGERIAN_BANKS });
+    }
 
-    const data: { data?: any[] } = await response.json();
     return res.json({
       status: true,
-      data: data.data || [],
+      data: await provider.listBanks(),
     });
   } catch (error) {
     console.error('[Payment] Failed to fetch banks:', error);
@@ -267,4 +227,154 @@ router.get('/banks', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * Sandbox checkout
+ * Stand-in for a gateway's hosted payment page, for testing offline
+ */
+router.get('/sandbox/checkout/:reference', (req: Request, res: Response) => {
+  if (!isSandboxEnabled()) {
+    return res.status(404).json({ message: 'Sandbox payments are disabled' });
+  }
+
+  const transaction = getSandboxTransaction(req.params.reference as string);
+
+  if (!transaction) {
+    return res.status(404).json({ message: 'Sandbox transaction not found' });
+  }
+
+  return res.json({ status: true, data: transaction });
+});
+
+router.post(
+  '/sandbox/checkout/:reference/complete',
+  authenticate,
+  async (req: Request, res: Response) => {
+    if (!isSandboxEnabled()) {
+      return res.status(404).json({ message: 'Sandbox payments are disabled' });
+    }
+
+    const { outcome = 'success', channel } = req.body;
+
+    if (!['success', 'failed'].includes(outcome)) {
+      return res.status(400).json({ status: false, message: 'Outcome must be success or failed' });
+    }
+
+    if (channel !== undefined && typeof channel !== 'string') {
+      return res.status(400).json({ status: false, message: 'Channel must be a string' });
+    }
+
+    try {
+      const webhook = completeSandboxTransaction(req.params.reference as string, outcome, channel);
+
+      // Feed the simulated event through the same pipeline as a real webhook
+      const { result } = await handleProviderWebhook(getPaymentProvider('sandbox'), webhook.headers, webhook.body);
+
+      return res.json({ status: true, data: { event: webhook.body.event, reconciliation: result } });
+    } catch (error: any) {
+      console.error('[Payment] Sandbox checkout error:', error);
+      return res.status(providerErrorStatus(error)).json({
+        status: false,
+        message: error instanceof PaymentProviderError ? error.message : 'Sandbox checkout error',
+      });
+    }
+  }
+);
+
+/**
+ * Reconciliation queue
+ * Gateway charges that could not be matched to a bill, for finance to resolve
+ */
+router.get(
+  '/reconciliation',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  getReconciliationQueue
+);
+
+router.post(
+  '/reconciliation/:id/resolve',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid reconciliation ID required'),
+    body('billingRecordId').isUUID().withMessage('Valid billing record ID required'),
+  ],
+  resolveReconciliation
+);
+
+router.post(
+  '/reconciliation/:id/ignore',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid reconciliation ID required'),
+    body('notes').notEmpty().withMessage('Notes are required'),
+  ],
+  ignoreReconciliation
+);
+
+/**
+ * Refunds and reversals
+ * Requested by billing staff, approved by the roles in settings.billing.refundApprovalRoles
+ */
+router.get(
+  '/refunds',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  getRefundRegister
+);
+
+router.post(
+  '/refunds/:refundId/approve',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  param('refundId').isUUID().withMessage('Valid refund ID required'),
+  approveRefund
+);
+
+router.post(
+  '/refunds/:refundId/reject',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('refundId').isUUID().withMessage('Valid refund ID required'),
+    body('notes').notEmpty().withMessage('Rejection notes are required'),
+  ],
+  rejectRefund
+);
+
+router.get(
+  '/:id/refunds',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid payment ID required'),
+  getPaymentRefunds
+);
+
+router.post(
+  '/:id/refunds',
+  authenticate,
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid payment ID required'),
+    body('type').optional().isIn(['REFUND', 'REVERSAL']).withMessage('Type must be REFUND or REVERSAL'),
+    body('method').optional().isIn(['CASH', 'BANK_TRANSFER', 'GATEWAY']).withMessage('Valid refund method required'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Valid refund amount is required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+  ],
+  requestRefund
+);
+
+/**
+ * GET /api/payments/:id/receipt.pdf
+ * Printable receipt for a recorded payment
+ */
+router.get(
+  '/:id/receipt.pdf',
+  authenticate,
+  authorize('BILLING_OFFICER', 'RECEPTIONIST', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid payment ID required'),
+  getReceiptPdf
+);
+
 export default router;
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  requestPreAuthorization,
+  getPreAuthorizations,
+  getPreAuthorizationById,
+  approvePreAuthorization,
+  denyPreAuthorization,
+} from '../controllers/preAuthorizationController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get(
+  '/',
+  authorize('DOCTOR', 'NURSE', 'RECEPTIONIST', 'BILLING_OFFICER', 'WARD_MANAGER', 'ADMIN', 'SUPER_ADMIN'),
+  getPreAuthorizations
+);
+
+router.get(
+  '/:id',
+  authorize('DOCTOR', 'NURSE', 'RECEPTIONIST', 'BILLING_OFFICER', 'WARD_MANAGER', 'ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid pre-authorization ID required'),
+  getPreAuthorizationById
+);
+
+// Request pre-auth from the payer: DOCTOR, BILLING_OFFICER, ADMIN, SUPER_ADMIN
+router.post(
+  '/',
+  authorize('DOCTOR', 'BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    body('patientId').isUUID().withMessage('Valid patient ID is required'),
+    body('serviceType').notEmpty().withMessage('Service type is required'),
+    body('requestedServices').isArray({ min: 1 }).withMessage('At least one requested service is required'),
+    body('requestedAmount').optional().isFloat({ min: 0 }).withMessage('Valid requested amount required'),
+  ],
+  requestPreAuthorization
+);
+
+// Record the payer's decision: BILLING_OFFICER, ADMIN, SUPER_ADMIN
+router.post(
+  '/:id/approve',
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid pre-authorization ID required'),
+    body('code').notEmpty().withMessage('Pre-authorization code is required'),
+    body('approvedAmount').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Valid approved amount required'),
+    body('approvedDays').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Valid approved days required'),
+    body('validUntil').optional({ values: 'null' }).isISO8601().withMessage('Valid expiry date required'),
+  ],
+  approvePreAuthorization
+);
+
+router.post(
+  '/:id/deny',
+  authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid pre-authorization ID required'),
+    body('reason').notEmpty().withMessage('Denial reason is required'),
+  ],
+  denyPreAuthorization
+);
+
+export default router;
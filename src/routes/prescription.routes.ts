@@ -3,10 +3,14 @@ import { body, param } from 'express-validator';
 import { authenticate, authorize } from '../middleware/auth';
 import {
   createPrescription,
+  checkPrescription,
   dispensePrescription,
   getPrescriptionsByPatient,
   getPrescriptionsByVisit,
   getPendingPrescriptions,
+  refillRepeatPrescription,
+  stopRepeatPrescription,
+  getRefillsDue,
 } from '../controllers/prescriptionController';
 
 const router = Router();
@@ -22,18 +26,70 @@ router.post(
     body('patientId').isUUID().withMessage('Valid patient ID required'),
     body('visitId').isUUID().withMessage('Valid visit ID required'),
     body('items').isArray({ min: 1 }).withMessage('At least one prescription item is required'),
+    body('items.*').isObject().withMessage('Each prescription item must be an object'),
+    body('overrideReason').optional().isString().withMessage('Override reason must be text'),
+    body('refillsAllowed').optional().isInt({ min: 0 }).withMessage('Refills must be a whole number'),
+    body('refillIntervalDays').optional().isInt({ min: 1 }).withMessage('Refill interval must be a whole number of days'),
+    body('repeatUntil').optional().isISO8601().withMessage('Repeat end must be a date'),
   ],
   createPrescription
 );
 
-// Dispense prescription: PHARMACIST, ADMIN, SUPER_ADMIN
+// Screen drugs for allergies and interactions without prescribing: DOCTOR, PHARMACIST, ADMIN, SUPER_ADMIN
+router.post(
+  '/check',
+  authorize('DOCTOR', 'PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    body('patientId').isUUID().withMessage('Valid patient ID required'),
+    body('items').isArray({ min: 1 }).withMessage('At least one prescription item is required'),
+    body('items.*').isObject().withMessage('Each prescription item must be an object'),
+  ],
+  checkPrescription
+);
+
+// Dispense prescription from stock: PHARMACIST, ADMIN, SUPER_ADMIN
 router.patch(
   '/:id/dispense',
   authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
-  param('id').isUUID().withMessage('Valid prescription ID required'),
+  [
+    param('id').isUUID().withMessage('Valid prescription ID required'),
+    body('allowPartial').optional().isBoolean().withMessage('allowPartial must be true or false'),
+    body('witnessId').optional().isUUID().withMessage('Valid witness user ID required'),
+  ],
   dispensePrescription
 );
 
+// Issue the next refill of a repeat prescription: PHARMACIST, ADMIN, SUPER_ADMIN
+router.post(
+  '/:id/refill',
+  authorize('PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid prescription ID required'),
+    body('allowPartial').optional().isBoolean().withMessage('allowPartial must be true or false'),
+    body('witnessId').optional().isUUID().withMessage('Valid witness user ID required'),
+    body('overrideReason').optional().isString().withMessage('Override reason must be text'),
+  ],
+  refillRepeatPrescription
+);
+
+// Stop further refills: DOCTOR, ADMIN, SUPER_ADMIN
+router.patch(
+  '/:id/repeats/stop',
+  authorize('DOCTOR', 'ADMIN', 'SUPER_ADMIN'),
+  [
+    param('id').isUUID().withMessage('Valid prescription ID required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+  ],
+  stopRepeatPrescription
+);
+
+// Repeats due for refill: DOCTOR, PHARMACIST, ADMIN, SUPER_ADMIN
+router.get(
+  '/refills-due',
+  authorize('DOCTOR', 'PHARMACIST', 'ADMIN', 'SUPER_ADMIN'),
+  getRefillsDue
+);
+
 // Get prescriptions: DOCTOR, PHARMACIST, ADMIN, SUPER_ADMIN
 router.get(
   '/pending',
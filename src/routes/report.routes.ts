@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { getRevenueReport } from '../controllers/reportController';
+
+const router = Router();
+
+// All routes require authentication and BILLING_OFFICER, ADMIN, or SUPER_ADMIN role
+router.use(authenticate);
+router.use(authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'));
+
+// Revenue by category, department, doctor, method and payer; collections; debtor ageing
+router.get('/revenue', getRevenueReport);
+
+export default router;
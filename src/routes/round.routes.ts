@@ -6,6 +6,7 @@ import {
   getAllRounds,
   getRoundsByAdmission,
   getDueRounds,
+  getOverdueDoses,
 } from '../controllers/roundController';
 
 const router = Router();
@@ -29,6 +30,7 @@ router.post(
     body('roundType').notEmpty().withMessage('Round type is required'),
     body('patientCondition').notEmpty().withMessage('Patient condition is required'),
     body('vitalSignsId').optional().isUUID().withMessage('Valid vital signs ID required'),
+    body('administrations').optional().isArray().withMessage('Administrations must be a list'),
   ],
   recordRound
 );
@@ -48,4 +50,11 @@ router.get(
   getDueRounds
 );
 
+// Get overdue medication doses - NURSE can read
+router.get(
+  '/overdue-doses',
+  authorize('NURSE', 'ADMIN', 'WARD_MANAGER', 'SUPER_ADMIN'),
+  getOverdueDoses
+);
+
 export default router;
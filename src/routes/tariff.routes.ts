@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  createTariff,
+  getTariffs,
+  getTariffByCode,
+  updateTariff,
+  deleteTariff,
+} from '../controllers/tariffController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Read the price list: anyone who bills or orders services
+router.get(
+  '/',
+  authorize('BILLING_OFFICER', 'RECEPTIONIST', 'DOCTOR', 'ADMIN', 'SUPER_ADMIN'),
+  getTariffs
+);
+
+router.get(
+  '/code/:code',
+  authorize('BILLING_OFFICER', 'RECEPTIONIST', 'DOCTOR', 'ADMIN', 'SUPER_ADMIN'),
+  param('code').notEmpty().withMessage('Service code is required'),
+  getTariffByCode
+);
+
+// Maintain the price list: ADMIN, SUPER_ADMIN
+router.post(
+  '/',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  [
+    body('code').notEmpty().withMessage('Service code is required'),
+    body('name').notEmpty().withMessage('Name is required'),
+    body('category').notEmpty().withMessage('Billing category is required'),
+    body('price').isFloat({ min: 0 }).withMessage('Valid price is required'),
+    body('hmoPrice').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Valid HMO price required'),
+    body('nhisPrice').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Valid NHIS price required'),
+    body('effectiveFrom').optional().isISO8601().withMessage('Valid effective date required'),
+  ],
+  createTariff
+);
+
+router.put(
+  '/:id',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid tariff ID required'),
+  updateTariff
+);
+
+router.delete(
+  '/:id',
+  authorize('ADMIN', 'SUPER_ADMIN'),
+  param('id').isUUID().withMessage('Valid tariff ID required'),
+  deleteTariff
+);
+
+export default router;
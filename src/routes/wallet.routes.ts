@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  getWalletStatement,
+  recordDeposit,
+  applyWallet,
+  refundWalletBalance,
+} from '../controllers/walletController';
+
+const router = Router();
+
+// All routes require authentication and BILLING_OFFICER, ADMIN, or SUPER_ADMIN role
+router.use(authenticate);
+router.use(authorize('BILLING_OFFICER', 'ADMIN', 'SUPER_ADMIN'));
+
+router.get(
+  '/patient/:patientId',
+  param('patientId').isUUID().withMessage('Valid patient ID required'),
+  getWalletStatement
+);
+
+router.post(
+  '/patient/:patientId/deposits',
+  [
+    param('patientId').isUUID().withMessage('Valid patient ID required'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Valid deposit amount is required'),
+    body('method').isIn(['CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER']).withMessage('Valid payment method is required'),
+  ],
+  recordDeposit
+);
+
+// Manual application of the balance to one of the patient's bills
+router.post(
+  '/patient/:patientId/apply',
+  [
+    param('patientId').isUUID().withMessage('Valid patient ID required'),
+    body('billingRecordId').isUUID().withMessage('Valid billing record ID required'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Valid amount is required'),
+  ],
+  applyWallet
+);
+
+// Pay unused balance back, typically at discharge; defaults to the whole balance
+router.post(
+  '/patient/:patientId/refund',
+  [
+    param('patientId').isUUID().withMessage('Valid patient ID required'),
+    body('method').isIn(['CASH', 'BANK_TRANSFER']).withMessage('Refund method must be CASH or BANK_TRANSFER'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Valid amount is required'),
+    body('reason').notEmpty().withMessage('Reason is required'),
+  ],
+  refundWalletBalance
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { hashPassword } from './utils/password';
 import { prisma } from './db';
+import { nextDocumentNumber } from './services/documentNumbers';
 import 'dotenv/config';
 
 const seed = async () => {
@@ -61,6 +62,42 @@ const seed = async () => {
           nhisProviders: ['NHIS', 'HydiaHMO', 'Leadway', 'AXA Mansard', 'Hygeia', 'Reliance'],
           taxId: '',
           rcNumber: '',
+          numbering: {
+            invoicePrefix: 'INV',
+            receiptPrefix: 'RCT',
+          },
+          billing: {
+            priceOverrideRoles: ['ADMIN', 'SUPER_ADMIN'],
+            adjustmentApprovalLimits: { BILLING_OFFICER: 10000, ADMIN: null },
+            refundApprovalRoles: ['ADMIN', 'SUPER_ADMIN'],
+          },
+          wallet: {
+            autoApply: true,
+            minimumDeposits: { GENERAL: 50000, PEDIATRIC: 50000, MATERNITY: 100000, PRIVATE: 150000, ICU: 250000 },
+            depositEnforcement: 'WARN',
+          },
+          cashier: {
+            requireOpenSession: true,
+            varianceTolerance: 500,
+          },
+          paymentPlans: {
+            maxInstallments: 12,
+            reminderDaysBefore: 3,
+            overdueReminderDays: 7,
+          },
+          notifications: {
+            channel: 'log',
+          },
+          bedCharges: {
+            cutoffTime: '12:00',
+          },
+          taxes: {
+            // Medical services are VAT-exempt; private-room amenities are not
+            rules: [
+              { code: 'SERVICE_CHARGE', name: 'Service charge', rate: 10, tariffCodes: ['BED-PRIVATE'] },
+              { code: 'VAT', name: 'VAT', rate: 7.5, tariffCodes: ['BED-PRIVATE'], compound: true },
+            ],
+          },
           address: {
             street: '45 Awolowo Road',
             city: 'Lagos',
@@ -204,9 +241,20 @@ const seed = async () => {
         unitPrice: 2.5,
         supplier: 'MedSupply Inc',
       },
+      {
+        name: 'Morphine Sulphate 10mg/ml Injection',
+        category: 'Medication',
+        stock: 20,
+        reorderLevel: 5,
+        unitPrice: 4.0,
+        supplier: 'PharmaCorp',
+        controlled: true,
+        controlledSchedule: 'Schedule 2',
+      },
     ];
 
     console.log('✅ Inventory items created:\n');
+    const stockItems: Record<string, string> = {};
     for (const itemData of inventoryItems) {
       const item = await prisma.inventoryItem.upsert({
         where: { 
@@ -216,6 +264,7 @@ const seed = async () => {
         create: {
           ...itemData,
           hospitalId: hospital.id,
+          batches: { create: { receivedQuantity: itemData.stock, quantity: itemData.stock, unitCost: itemData.unitPrice } },
         },
       }).catch(() => 
         // If unique constraint fails, just create without upsert
@@ -223,12 +272,80 @@ const seed = async () => {
           data: {
             ...itemData,
             hospitalId: hospital.id,
+            batches: { create: { receivedQuantity: itemData.stock, quantity: itemData.stock, unitCost: itemData.unitPrice } },
           },
         })
       );
+      stockItems[item.name] = item.id;
       console.log(`   ${item.name} - Stock: ${item.stock}, Price: $${item.unitPrice}`);
     }
 
+    // Controlled drugs open their register with the stock on hand
+    const pharmacist = await prisma.user.findUniqueOrThrow({ where: { email: 'pharmacist@cityhospital.com' } });
+    const morphineItem = stockItems['Morphine Sulphate 10mg/ml Injection'];
+    if ((await prisma.controlledDrugEntry.count({ where: { inventoryItemId: morphineItem } })) === 0) {
+      await prisma.controlledDrugEntry.create({
+        data: {
+          hospitalId: hospital.id,
+          inventoryItemId: morphineItem,
+          sequence: 1,
+          entryType: 'OPENING',
+          quantity: 20,
+          balance: 20,
+          recordedBy: pharmacist.id,
+          reason: 'Register opened',
+        },
+      });
+    }
+    console.log('   Controlled drug register opened for Morphine Sulphate 10mg/ml Injection');
+
+    // Drug formulary, linked to stock and to the drug tariffs
+    console.log('\n✅ Creating formulary:\n');
+    const paracetamol = await prisma.formularyDrug.create({
+      data: {
+        hospitalId: hospital.id,
+        genericName: 'Paracetamol',
+        brandName: 'Panadol',
+        strength: '500mg',
+        form: 'TABLET',
+        route: 'ORAL',
+        inventoryItemId: stockItems['Paracetamol 500mg'],
+        tariffCode: 'DRUG-PCM500',
+      },
+    });
+    await prisma.formularyDrug.create({
+      data: {
+        hospitalId: hospital.id,
+        genericName: 'Amoxicillin',
+        strength: '250mg',
+        form: 'CAPSULE',
+        route: 'ORAL',
+        inventoryItemId: stockItems['Amoxicillin 250mg'],
+        tariffCode: 'DRUG-AMOX250',
+      },
+    });
+    await prisma.formularyDrug.create({
+      data: {
+        hospitalId: hospital.id,
+        genericName: 'Morphine Sulphate',
+        strength: '10mg/ml',
+        form: 'INJECTION',
+        route: 'IV',
+        inventoryItemId: morphineItem,
+        controlled: true,
+      },
+    });
+    console.log('   Paracetamol 500mg tablet, Amoxicillin 250mg capsule, Morphine Sulphate 10mg/ml injection (controlled)');
+
+    // Paracetamol by weight for children, fixed from 12 years
+    await prisma.doseRange.createMany({
+      data: [
+        { formularyDrugId: paracetamol.id, minAgeMonths: 1, maxAgeMonths: 144, route: 'ORAL', basis: 'PER_KG', unit: 'MG', minDose: 10, maxDose: 15, maxDailyDose: 60, absoluteMaxDose: 1000 },
+        { formularyDrugId: paracetamol.id, minAgeMonths: 144, route: 'ORAL', basis: 'FIXED', unit: 'MG', minDose: 500, maxDose: 1000, maxDailyDose: 4000 },
+      ],
+    });
+    console.log('   Paracetamol dose ranges: 10-15 mg/kg under 12 years, 500 mg-1 g from 12 years');
+
     // Create wards, rooms, and beds
     console.log('\n✅ Creating wards, rooms, and beds:\n');
 
@@ -532,14 +649,34 @@ const seed = async () => {
         status: 'PENDING',
         items: {
           create: [
-            { medicationName: 'Paracetamol 500mg', dosage: '1g', frequency: 'Three times daily', duration: '5 days', instructions: 'Take after meals' },
-            { medicationName: 'Amlodipine 5mg', dosage: '5mg', frequency: 'Once daily', duration: '30 days', instructions: 'Take in the morning' },
+            { medicationName: 'Paracetamol 500mg tablet (Panadol)', formularyDrugId: paracetamol.id, dosage: '1 g', frequency: 'Three times daily', duration: '5 days', instructions: 'Take after meals', doseAmount: 1, doseUnit: 'G', route: 'ORAL', frequencyCode: 'TDS', durationDays: 5 },
+            { medicationName: 'Amlodipine 5mg', offFormulary: true, dosage: '5mg', frequency: 'Once daily', duration: '30 days', instructions: 'Take in the morning' },
           ],
         },
       },
     });
     console.log(`   ${patients[0].firstName} - Paracetamol + Amlodipine [PENDING]`);
 
+    // Chronic medication on repeat, first supply collected and a refill due soon
+    await prisma.prescription.create({
+      data: {
+        visitId: visits[7].id,
+        patientId: patients[7].id,
+        doctorId: doctor.id,
+        status: 'DISPENSED',
+        refillsAllowed: 5,
+        refillIntervalDays: 30,
+        repeatExpiresAt: new Date(now.getTime() + 180 * 24 * 60 * 60 * 1000),
+        nextRefillDue: new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000),
+        items: {
+          create: [
+            { medicationName: 'Metformin 500mg', offFormulary: true, quantity: 60, dispensedQuantity: 60, dosage: '500mg', frequency: 'Twice daily', duration: '30 days', instructions: 'Take with meals', durationDays: 30 },
+          ],
+        },
+      },
+    });
+    console.log(`   ${patients[7].firstName} - Metformin on repeat, 5 refills every 30 days [DISPENSED]`);
+
     // Create lab orders
     console.log('\n✅ Creating lab orders:\n');
     const labOrders = [
@@ -568,16 +705,49 @@ const seed = async () => {
       console.log(`   ${patients[lo.patientIdx].firstName} - ${lo.testType} [${lo.status}]`);
     }
 
+    // Create tariffs (price list used for bill items and charge capture)
+    const hospitalAdmin = await prisma.user.findUnique({ where: { email: 'admin@cityhospital.com' } });
+    const tariffs = [
+      { code: 'CONSULTATION', name: 'Consultation Fee', category: 'CONSULTATION' as const, price: 5000, hmoPrice: 4500, nhisPrice: 3000 },
+      { code: 'REGISTRATION', name: 'Registration Fee', category: 'OTHER' as const, price: 2000 },
+      { code: 'LAB-FBC', name: 'Full Blood Count', category: 'LAB' as const, price: 2000, hmoPrice: 1800, nhisPrice: 1500 },
+      { code: 'LAB-TROP', name: 'Cardiac Troponin', category: 'LAB' as const, price: 8000 },
+      { code: 'LAB-ECG', name: 'ECG', category: 'LAB' as const, price: 5000 },
+      { code: 'LAB-INR', name: 'INR / Coagulation', category: 'LAB' as const, price: 4000 },
+      { code: 'LAB-HBA1C', name: 'HbA1c', category: 'LAB' as const, price: 3500 },
+      { code: 'DRUG-PCM500', name: 'Paracetamol 500mg', category: 'MEDICATION' as const, price: 50 },
+      { code: 'DRUG-AMOX250', name: 'Amoxicillin 250mg', category: 'MEDICATION' as const, price: 150 },
+      { code: 'BED-GENERAL', name: 'General Ward Bed-Day', category: 'OTHER' as const, price: 10000, nhisPrice: 7500 },
+      { code: 'BED-ICU', name: 'ICU Bed-Day', category: 'OTHER' as const, price: 75000 },
+      { code: 'BED-PEDIATRIC', name: 'Pediatric Ward Bed-Day', category: 'OTHER' as const, price: 10000 },
+      { code: 'BED-PRIVATE', name: 'Private Room Bed-Day', category: 'OTHER' as const, price: 35000 },
+    ];
+
+    if (hospitalAdmin) {
+      await prisma.tariff.createMany({
+        data: tariffs.map((tariff) => ({
+          ...tariff,
+          hospitalId: hospital.id,
+          effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+          createdBy: hospitalAdmin.id,
+        })),
+        skipDuplicates: true,
+      });
+      console.log(`\n✅ Tariffs created: ${tariffs.length}`);
+    }
+
     // Create billing records
     console.log('\n✅ Creating billing records:\n');
-    await prisma.billingRecord.create({
+    await prisma.$transaction(async (tx) => tx.billingRecord.create({
       data: {
+        invoiceNumber: await nextDocumentNumber(tx, hospital.id, 'INVOICE'),
         visitId: visits[7].id,
         patientId: patients[7].id,
         hospitalId: hospital.id,
         status: 'PAID',
         totalAmount: 15000,
         paidAmount: 15000,
+        patientAmount: 15000,
         createdBy: billingOfficer.id,
         items: {
           create: [
@@ -588,21 +758,29 @@ const seed = async () => {
         },
         payments: {
           create: [
-            { amount: 15000, method: 'CARD', reference: 'TXN-20260202-001', receivedBy: billingOfficer.id },
+            {
+              amount: 15000,
+              method: 'CARD',
+              reference: 'TXN-20260202-001',
+              receiptNumber: await nextDocumentNumber(tx, hospital.id, 'RECEIPT'),
+              receivedBy: billingOfficer.id,
+            },
           ],
         },
       },
-    });
+    }));
     console.log(`   ${patients[7].firstName} - ₦15,000 [PAID]`);
 
-    await prisma.billingRecord.create({
+    await prisma.$transaction(async (tx) => tx.billingRecord.create({
       data: {
+        invoiceNumber: await nextDocumentNumber(tx, hospital.id, 'INVOICE'),
         visitId: visits[0].id,
         patientId: patients[0].id,
         hospitalId: hospital.id,
         status: 'PENDING',
         totalAmount: 8500,
         paidAmount: 0,
+        patientAmount: 8500,
         createdBy: billingOfficer.id,
         items: {
           create: [
@@ -612,7 +790,7 @@ const seed = async () => {
           ],
         },
       },
-    });
+    }));
     console.log(`   ${patients[0].firstName} - ₦8,500 [PENDING]`);
 
     // Final counts
@@ -0,0 +1,288 @@
+/**
+ * Bed Charges
+ *
+ * Accrues accommodation as one bed-day per admission per day. A bed-day runs
+ * from one cut-off to the next in the hospital's timezone and is labelled with
+ * the date it ends on; any time spent in a bed during that window makes it
+ * chargeable. When a patient moves mid-day, the day is priced at the bed they
+ * spent longest in. Charges go through charge capture as BED_DAY
+ * `<admissionId>:<date>`, so reruns and catch-up after downtime never bill twice.
+ *
+ * Configured in `settings.bedCharges`:
+ *   cutoffTime - HH:MM local time at which a bed-day ends (default 12:00)
+ * Tariff codes come from `settings.chargeCapture.bedDayCodes`.
+ */
+
+import { BedAssignment, RoomType, Tariff, WardType } from '@prisma/client';
+import { prisma } from '../db';
+import { hospitalTimezone, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { CaptureLine, captureCharges, chargeCaptureSettings, recordUncaptured } from './chargeCapture';
+import { findBedDayTariff, priceForPayer } from './tariffs';
+import { computeItemTaxes, taxRules } from './taxes';
+import { getWalletBalance } from './wallet';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CUTOFF_MINUTES = 12 * 60;
+
+// Discharged admissions are revisited for a few days in case the job was down
+const DISCHARGE_CATCH_UP_DAYS = 3;
+
+type AssignmentWithBed = BedAssignment & {
+  bed: { bedNumber: string; room: { type: RoomType; ward: { name: string; type: WardType } } };
+};
+
+export const bedChargeSettings = (settings: Record<string, any>) => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(settings.bedCharges?.cutoffTime || '');
+  return {
+    cutoffMinutes: match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : DEFAULT_CUTOFF_MINUTES,
+  };
+};
+
+const shiftDateKey = (dateKey: string, days: number): string =>
+  new Date(Date.parse(dateKey) + days * DAY_MS).toISOString().slice(0, 10);
+
+// The instant the bed-day labelled `dateKey` ends
+const bedDayEnd = (dateKey: string, cutoffMinutes: number, timezone: string): Date =>
+  new Date(startOfLocalDay(dateKey, timezone).getTime() + cutoffMinutes * 60 * 1000);
+
+/**
+ * The bed-day an instant falls in: today's date before the cut-off, tomorrow's after it.
+ */
+export const bedDayFor = (at: Date, cutoffMinutes: number, timezone: string): string => {
+  const dateKey = localDateKey(at, timezone);
+  return at < bedDayEnd(dateKey, cutoffMinutes, timezone) ? dateKey : shiftDateKey(dateKey, 1);
+};
+
+/**
+ * The assignment the patient spent longest in during a bed-day; ties go to the
+ * later bed. Open assignments run until `until` (discharge or now).
+ */
+const longestStay = (
+  assignments: AssignmentWithBed[],
+  dateKey: string,
+  cutoffMinutes: number,
+  timezone: string,
+  until: Date
+): AssignmentWithBed | null => {
+  const from = bedDayEnd(shiftDateKey(dateKey, -1), cutoffMinutes, timezone).getTime();
+  const to = bedDayEnd(dateKey, cutoffMinutes, timezone).getTime();
+
+  let best: AssignmentWithBed | null = null;
+  let bestMs = 0;
+
+  for (const assignment of assignments) {
+    const start = Math.max(assignment.startedAt.getTime(), from);
+    const end = Math.min((assignment.endedAt || until).getTime(), to);
+    // Touching the window is enough: a same-minute admit and discharge is still a bed-day
+    const stay = end - start;
+
+    if (end >= start && (best === null || stay >= bestMs)) {
+      best = assignment;
+      bestMs = stay;
+    }
+  }
+
+  return best;
+};
+
+const loadAdmission = (admissionId: string) =>
+  prisma.admission.findUniqueOrThrow({
+    where: { id: admissionId },
+    include: {
+      bedAssignments: {
+        include: { bed: { select: { bedNumber: true, room: { select: { type: true, ward: { select: { name: true, type: true } } } } } } },
+        orderBy: { startedAt: 'asc' },
+      },
+    },
+  });
+
+const accruedBedDays = (admissionId: string) =>
+  prisma.billingItem.findMany({
+    where: { sourceType: 'BED_DAY', sourceId: { startsWith: `${admissionId}:` } },
+    select: { sourceId: true, amount: true, quantity: true, taxAmount: true, description: true, billingRecordId: true },
+  });
+
+const alreadyReported = async (sourceId: string): Promise<boolean> =>
+  !!(await prisma.auditLog.findFirst({
+    where: { action: 'CHARGE_NOT_CAPTURED', details: { path: ['sourceId'], equals: sourceId } },
+    select: { id: true },
+  }));
+
+/**
+ * Bill every bed-day an admission owes and has not been charged: each day
+ * that has ended, plus the discharge day once discharged.
+ */
+export const accrueAdmission = async (admissionId: string, now: Date = new Date()): Promise<number> => {
+  const admission = await loadAdmission(admissionId);
+  const { settings, enabled } = await chargeCaptureSettings(admission.hospitalId);
+  const assignments = admission.bedAssignments;
+
+  if (!enabled || assignments.length === 0) return 0;
+
+  const userId = assignments[assignments.length - 1].assignedBy;
+
+  // Bills hang off visits; admissions created without one cannot be billed automatically
+  if (!admission.visitId) {
+    if (!(await alreadyReported(admission.id))) {
+      await recordUncaptured(admission.hospitalId, userId, 'BED_DAY', admission.id, 'Admission has no visit to bill against');
+    }
+    return 0;
+  }
+
+  const timezone = hospitalTimezone(settings);
+  const { cutoffMinutes } = bedChargeSettings(settings);
+  const until = admission.dischargeDate || now;
+  const firstDay = bedDayFor(assignments[0].startedAt, cutoffMinutes, timezone);
+  const lastDay = admission.dischargeDate
+    ? bedDayFor(admission.dischargeDate, cutoffMinutes, timezone)
+    : shiftDateKey(bedDayFor(now, cutoffMinutes, timezone), -1);
+
+  const charged = new Set((await accruedBedDays(admission.id)).map((item) => item.sourceId));
+  const tariffs = new Map<string, { tariff: Tariff | null; codes: string[] }>();
+  const lines: CaptureLine[] = [];
+
+  for (let day = firstDay; day <= lastDay; day = shiftDateKey(day, 1)) {
+    const sourceId = `${admission.id}:${day}`;
+    if (charged.has(sourceId)) continue;
+
+    const stay = longestStay(assignments, day, cutoffMinutes, timezone, until);
+    if (!stay) continue;
+
+    const { type: roomType, ward } = stay.bed.room;
+    const key = `${ward.type}:${roomType}`;
+    if (!tariffs.has(key)) {
+      tariffs.set(key, await findBedDayTariff(admission.hospitalId, ward.type, roomType, settings));
+    }
+    const { tariff, codes } = tariffs.get(key)!;
+
+    if (!tariff) {
+      if (!(await alreadyReported(sourceId))) {
+        await recordUncaptured(admission.hospitalId, userId, 'BED_DAY', sourceId, `No tariff for codes ${codes.join(', ')}`);
+      }
+      continue;
+    }
+
+    lines.push({
+      sourceType: 'BED_DAY',
+      sourceId,
+      tariff,
+      quantity: 1,
+      description: `${tariff.name} - ${ward.name} bed ${stay.bed.bedNumber} (${day})`,
+    });
+  }
+
+  await captureCharges(
+    { hospitalId: admission.hospitalId, visitId: admission.visitId, patientId: admission.patientId, userId },
+    lines
+  );
+
+  return lines.length;
+};
+
+/**
+ * Accrue bed-days for every admission in a bed, and for recent discharges the
+ * discharge itself may have missed. Safe to run as often as the scheduler likes.
+ */
+export const accrueBedCharges = async (now: Date = new Date()) => {
+  const admissions = await prisma.admission.findMany({
+    where: {
+      bedAssignments: { some: {} },
+      OR: [
+        { status: 'ADMITTED' },
+        { status: 'DISCHARGED', dischargeDate: { gte: new Date(now.getTime() - DISCHARGE_CATCH_UP_DAYS * DAY_MS) } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  const summary = { admissionsChecked: admissions.length, bedDaysCharged: 0, failed: 0 };
+
+  for (const admission of admissions) {
+    try {
+      summary.bedDaysCharged += await accrueAdmission(admission.id, now);
+    } catch (error) {
+      console.error(`[BedCharges] Accrual for admission ${admission.id} failed:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Everything an inpatient has been billed so far on the admission's visit, plus
+ * the bed-day currently running (not yet accrued) as a provisional line.
+ */
+export const interimBill = async (admissionId: string, now: Date = new Date()) => {
+  const admission = await loadAdmission(admissionId);
+  const settings = await getHospitalSettings(admission.hospitalId);
+  const timezone = hospitalTimezone(settings);
+  const { cutoffMinutes } = bedChargeSettings(settings);
+
+  const bills = admission.visitId
+    ? await prisma.billingRecord.findMany({
+        where: { visitId: admission.visitId, status: { not: 'CANCELLED' } },
+        include: { items: true, payments: true },
+        orderBy: { createdAt: 'asc' },
+      })
+    : [];
+
+  const bedDays = await accruedBedDays(admission.id);
+
+  // Today's bed-day is billed at the cut-off; show what it will cost meanwhile
+  let provisional: { date: string; description: string; amount: number } | null = null;
+  const currentDay = bedDayFor(now, cutoffMinutes, timezone);
+
+  if (!admission.dischargeDate && !bedDays.some((item) => item.sourceId === `${admission.id}:${currentDay}`)) {
+    const stay = longestStay(admission.bedAssignments, currentDay, cutoffMinutes, timezone, now);
+
+    if (stay) {
+      const { type: roomType, ward } = stay.bed.room;
+      const { tariff } = await findBedDayTariff(admission.hospitalId, ward.type, roomType, settings);
+      const openBill = bills.find((bill) => bill.status === 'PENDING' || bill.status === 'PARTIAL');
+
+      if (tariff) {
+        const price = priceForPayer(tariff, openBill?.insuranceProvider);
+        const { taxAmount } = computeItemTaxes(
+          { category: tariff.category, serviceCode: tariff.code, amount: price, quantity: 1 },
+          taxRules(settings)
+        );
+        provisional = {
+          date: currentDay,
+          description: `${tariff.name} - ${ward.name} bed ${stay.bed.bedNumber} (${currentDay})`,
+          amount: price + taxAmount,
+        };
+      }
+    }
+  }
+
+  const billed = bills.reduce((sum, bill) => sum + bill.totalAmount, 0);
+  const paid = bills.reduce((sum, bill) => sum + bill.paidAmount, 0);
+  const outstanding = Math.max(billed - paid, 0);
+
+  return {
+    admission: {
+      id: admission.id,
+      patientId: admission.patientId,
+      visitId: admission.visitId,
+      status: admission.status,
+      admissionDate: admission.admissionDate,
+      dischargeDate: admission.dischargeDate,
+    },
+    bills,
+    bedDays: {
+      charged: bedDays.length,
+      amount: bedDays.reduce((sum, item) => sum + item.amount * item.quantity + item.taxAmount, 0),
+    },
+    provisional,
+    totals: {
+      billed,
+      paid,
+      outstanding,
+      estimatedOutstanding: outstanding + (provisional?.amount || 0),
+    },
+    walletBalance: await getWalletBalance(admission.patientId),
+    generatedAt: now,
+  };
+};
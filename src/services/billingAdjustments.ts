@@ -0,0 +1,158 @@
+/**
+ * Billing Adjustments
+ *
+ * Discounts, waivers and write-offs reduce what a bill asks for without
+ * replacing the bill. Each role may approve adjustments up to a limit from
+ * `settings.billing.adjustmentApprovalLimits` ({ [role]: amount | null },
+ * null meaning unlimited). Limits cover the total adjusted on a bill, so a
+ * large discount cannot be split into several small ones. Requests within the
+ * requester's own limit apply at once; larger ones wait in the approval queue
+ * for a role that can cover them.
+ */
+
+import { BillingAdjustment, Prisma } from '@prisma/client';
+import { billShares, resolveBillingStatus } from '../utils/billing';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when an adjustment cannot be made or approved; carries the HTTP status to relay.
+ */
+export class AdjustmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AdjustmentError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_APPROVAL_LIMITS: Record<string, number | null> = {
+  BILLING_OFFICER: 10000,
+  ADMIN: null,
+  SUPER_ADMIN: null,
+};
+
+/**
+ * The largest adjustment a role may approve: Infinity when unlimited, 0 when none.
+ */
+export const adjustmentApprovalLimit = (role: string, settings: Record<string, any>): number => {
+  if (role === 'SUPER_ADMIN') return Infinity;
+
+  const configured = settings.billing?.adjustmentApprovalLimits;
+  const limits: Record<string, number | null> = configured && typeof configured === 'object'
+    ? configured
+    : DEFAULT_APPROVAL_LIMITS;
+
+  if (!(role in limits)) return 0;
+  const limit = limits[role];
+  return limit === null ? Infinity : Number(limit) || 0;
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Hold a bill until commit, so adjustments weighed against its committed
+ * total are decided one after another.
+ */
+export const lockBill = async (db: Db, billingRecordId: string): Promise<void> => {
+  await db.$queryRaw`SELECT "id" FROM "BillingRecord" WHERE "id" = ${billingRecordId} FOR UPDATE`;
+};
+
+/**
+ * Total of a bill's approved and pending adjustments, other than `excludeId`,
+ * to weigh a new adjustment against an approval limit.
+ */
+export const committedAdjustments = async (db: Db, billingRecordId: string, excludeId?: string): Promise<number> => {
+  const { _sum } = await db.billingAdjustment.aggregate({
+    where: {
+      billingRecordId,
+      status: { in: ['APPROVED', 'PENDING'] },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    _sum: { amount: true },
+  });
+  return roundMoney(_sum.amount || 0);
+};
+
+/**
+ * Naira value of a requested adjustment, checked against what is still
+ * outstanding on the bill (and on the item, for item-level adjustments).
+ */
+export const computeAdjustmentAmount = async (
+  db: Db,
+  billingRecordId: string,
+  input: { billingItemId?: string | null; valueType: 'PERCENT' | 'FIXED'; value: number }
+): Promise<number> => {
+  const bill = await db.billingRecord.findUniqueOrThrow({
+    where: { id: billingRecordId },
+    include: { items: true, adjustments: { where: { status: 'APPROVED' } } },
+  });
+
+  if (input.valueType === 'PERCENT' && (input.value <= 0 || input.value > 100)) {
+    throw new AdjustmentError('Percentage must be between 0 and 100');
+  }
+  if (input.valueType === 'FIXED' && input.value <= 0) {
+    throw new AdjustmentError('Adjustment amount must be greater than zero');
+  }
+
+  let base = bill.totalAmount;
+
+  if (input.billingItemId) {
+    const item = bill.items.find((i) => i.id === input.billingItemId);
+    if (!item) {
+      throw new AdjustmentError('Billing item not found on this bill', 404);
+    }
+    const alreadyAdjusted = bill.adjustments
+      .filter((adjustment) => adjustment.billingItemId === item.id)
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    // Tax was charged on the line, so waiving it waives the tax too
+    base = item.amount * item.quantity + item.taxAmount - alreadyAdjusted;
+  }
+
+  const amount = roundMoney(input.valueType === 'PERCENT' ? (base * input.value) / 100 : input.value);
+  const outstanding = roundMoney(bill.totalAmount - bill.paidAmount);
+
+  if (amount > base + 0.005) {
+    throw new AdjustmentError('Adjustment exceeds the amount being adjusted');
+  }
+  if (amount > outstanding + 0.005) {
+    throw new AdjustmentError(`Adjustment exceeds the ${outstanding} outstanding on the bill`);
+  }
+
+  return amount;
+};
+
+/**
+ * Take an approved adjustment off its bill and re-derive the insurance split
+ * and status.
+ */
+export const applyAdjustment = async (db: Db, adjustment: BillingAdjustment) => {
+  const bill = await db.billingRecord.update({
+    where: { id: adjustment.billingRecordId },
+    data: {
+      totalAmount: { decrement: adjustment.amount },
+      adjustmentAmount: { increment: adjustment.amount },
+    },
+  });
+
+  return db.billingRecord.update({
+    where: { id: bill.id },
+    data: {
+      status: resolveBillingStatus(bill.totalAmount, bill.paidAmount, bill.status),
+      ...billShares(bill),
+    },
+    include: {
+      items: true,
+      adjustments: true,
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+};
@@ -0,0 +1,433 @@
+/**
+ * Billing Documents
+ *
+ * Server-rendered PDF invoices and receipts in the hospital's branding
+ * (`settings.branding`, `taxId`, `rcNumber`). Documents carry the bill's
+ * invoice number or the payment's receipt number. The branded header, table
+ * and footer helpers are exported for the hospital's other printed registers.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import PDFDocument from 'pdfkit';
+import { prisma } from '../db';
+import { hospitalTimezone } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { ensureInvoiceNumber, ensureReceiptNumber } from './documentNumbers';
+import { taxLines } from './taxes';
+
+type Pdf = PDFKit.PDFDocument;
+
+export interface Branding {
+  hospitalName: string;
+  tagline: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logo: Buffer | null;
+  address: string;
+  phone: string;
+  email: string;
+  taxId: string;
+  rcNumber: string;
+  currency: string;
+  timezone: string;
+}
+
+const PAGE_MARGIN = 50;
+const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2; // A4 width in points
+
+// Logos are never fetched from the server's own network: loopback, private,
+// link-local (cloud metadata), carrier-grade NAT and multicast ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+const isPublicAddress = (address: string, family: number): boolean => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return !blockedAddresses.check(mapped[1], 'ipv4');
+  return !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const LOGO_CACHE_MS = 60 * 60 * 1000;
+const MAX_LOGO_BYTES = 1024 * 1024;
+const logoCache = new Map<string, { logo: Buffer | null; expires: number }>();
+
+// Resolves for the connection itself, so the address checked is the one connected to
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || !addresses.every(({ address, family }) => isPublicAddress(address, family))) {
+      return callback(new Error(`Logo host ${hostname} is not a public address`), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const fetchLogo = (logoUrl: string): Promise<Buffer | null> => {
+  const url = new URL(logoUrl);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return Promise.resolve(null);
+
+  // Literal addresses are connected to without a lookup, so are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const literalFamily = net.isIP(host);
+  if (literalFamily && !isPublicAddress(host, literalFamily)) {
+    console.warn('[Documents] Logo host is not a public address:', host);
+    return Promise.resolve(null);
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    // Redirects could lead back inside, so they are not followed
+    const request = client.get(url, { lookup: publicLookup, signal: AbortSignal.timeout(5000) }, (response) => {
+      const status = response.statusCode || 0;
+      const contentType = response.headers['content-type'] || '';
+      const declaredLength = Number(response.headers['content-length'] || 0);
+
+      if (status < 200 || status >= 300 || !/image\/(png|jpe?g)/.test(contentType) || declaredLength > MAX_LOGO_BYTES) {
+        request.destroy();
+        resolve(null);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // Stop reading as soon as the cap is passed rather than buffering the rest
+        if (size > MAX_LOGO_BYTES) {
+          request.destroy();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+  });
+};
+
+/**
+ * Logos are stored as data URLs or public http(s) URLs; a missing or
+ * unreachable logo just leaves the header without one. Fetched logos are
+ * cached so documents do not wait on the network each time.
+ */
+const loadLogo = async (logoUrl: string): Promise<Buffer | null> => {
+  if (!logoUrl) return null;
+
+  const dataUrl = logoUrl.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  if (dataUrl) {
+    return Buffer.from(dataUrl[2], 'base64');
+  }
+
+  const cached = logoCache.get(logoUrl);
+  if (cached && cached.expires > Date.now()) return cached.logo;
+
+  let logo: Buffer | null = null;
+  try {
+    logo = await fetchLogo(logoUrl);
+  } catch (error) {
+    console.warn('[Documents] Could not load logo:', logoUrl, error);
+  }
+
+  // Failures are cached too, so a dead link does not slow every document
+  logoCache.set(logoUrl, { logo, expires: Date.now() + LOGO_CACHE_MS });
+  return logo;
+};
+
+export const loadBranding = async (hospitalId: string): Promise<Branding> => {
+  const hospital = await prisma.hospital.findUniqueOrThrow({ where: { id: hospitalId } });
+  const settings = await getHospitalSettings(hospitalId);
+  const branding = (settings.branding as Record<string, any>) || {};
+
+  return {
+    hospitalName: branding.hospitalName || hospital.name,
+    tagline: branding.tagline || '',
+    primaryColor: branding.primaryColor || '#0D7C66',
+    secondaryColor: branding.secondaryColor || '#F5A623',
+    logo: await loadLogo(branding.logoUrl || hospital.logo || ''),
+    address: hospital.address,
+    phone: hospital.phone,
+    email: hospital.email,
+    taxId: settings.taxId || '',
+    rcNumber: settings.rcNumber || '',
+    currency: settings.currency || 'NGN',
+    timezone: hospitalTimezone(settings),
+  };
+};
+
+// The standard PDF fonts have no Naira sign, so amounts carry the ISO code
+const formatMoney = (amount: number, currency: string): string =>
+  `${currency} ${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date, timezone: string): string =>
+  date.toLocaleDateString('en-NG', { day: '2-digit', month: 'short', year: 'numeric', timeZone: timezone });
+
+export const toBuffer = (doc: Pdf): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+
+export const drawHeader = (doc: Pdf, branding: Branding, title: string, number: string, date: Date): void => {
+  doc.rect(0, 0, doc.page.width, 8).fill(branding.primaryColor);
+
+  let textX = PAGE_MARGIN;
+  if (branding.logo) {
+    try {
+      doc.image(branding.logo, PAGE_MARGIN, 30, { fit: [60, 60] });
+      textX += 72;
+    } catch (error) {
+      console.warn('[Documents] Unsupported logo image:', error);
+    }
+  }
+
+  doc.fillColor(branding.primaryColor).font('Helvetica-Bold').fontSize(16)
+    .text(branding.hospitalName, textX, 32, { width: 280 });
+  doc.fillColor('#555555').font('Helvetica').fontSize(8);
+  if (branding.tagline) doc.text(branding.tagline, textX, doc.y, { width: 280 });
+  doc.text(branding.address, textX, doc.y, { width: 280 });
+  doc.text(`${branding.phone}  |  ${branding.email}`, textX, doc.y, { width: 280 });
+
+  const registration = [
+    branding.rcNumber && `RC ${branding.rcNumber}`,
+    branding.taxId && `TIN ${branding.taxId}`,
+  ].filter(Boolean).join('  |  ');
+  if (registration) doc.text(registration, textX, doc.y, { width: 280 });
+
+  doc.fillColor(branding.primaryColor).font('Helvetica-Bold').fontSize(20)
+    .text(title, 345, 32, { width: 200, align: 'right' });
+  doc.fillColor('#333333').font('Helvetica').fontSize(9)
+    .text(number, 345, doc.y + 2, { width: 200, align: 'right' })
+    .text(formatDate(date, branding.timezone), 345, doc.y, { width: 200, align: 'right' });
+
+  doc.moveTo(PAGE_MARGIN, 110).lineTo(PAGE_MARGIN + CONTENT_WIDTH, 110)
+    .strokeColor(branding.secondaryColor).lineWidth(1.5).stroke();
+  doc.y = 122;
+};
+
+/**
+ * Draw a simple table; `widths` are fractions of the content width.
+ */
+export const drawTable = (
+  doc: Pdf,
+  branding: Branding,
+  headers: string[],
+  rows: string[][],
+  widths: number[],
+  alignRight: boolean[]
+): void => {
+  const columns = widths.map((w) => w * CONTENT_WIDTH);
+  const rowHeight = 18;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    if (header) {
+      doc.rect(PAGE_MARGIN, y - 4, CONTENT_WIDTH, rowHeight).fill(branding.primaryColor);
+    }
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(header ? '#FFFFFF' : '#333333');
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 4, y, { width: columns[i] - 8, align: alignRight[i] ? 'right' : 'left', lineBreak: false, ellipsis: true });
+      x += columns[i];
+    });
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(headers, true);
+  rows.forEach((row) => drawRow(row, false));
+  doc.y += 6;
+};
+
+export const drawTotals = (doc: Pdf, lines: { label: string; value: string; strong?: boolean }[]): void => {
+  for (const line of lines) {
+    const y = doc.y;
+    doc.font(line.strong ? 'Helvetica-Bold' : 'Helvetica').fontSize(line.strong ? 11 : 9).fillColor('#333333');
+    doc.text(line.label, PAGE_MARGIN + CONTENT_WIDTH - 280, y, { width: 150, align: 'right' });
+    doc.text(line.value, PAGE_MARGIN + CONTENT_WIDTH - 120, y, { width: 120, align: 'right' });
+    doc.y = y + (line.strong ? 18 : 14);
+  }
+  doc.y += 8;
+};
+
+export const drawSectionTitle = (doc: Pdf, branding: Branding, title: string): void => {
+  doc.font('Helvetica-Bold').fontSize(10).fillColor(branding.primaryColor).text(title, PAGE_MARGIN, doc.y);
+  doc.y += 4;
+};
+
+export const drawFooter = (doc: Pdf, branding: Branding, note: string): void => {
+  doc.font('Helvetica').fontSize(8).fillColor('#888888')
+    .text(note, PAGE_MARGIN, doc.page.height - PAGE_MARGIN - 20, { width: CONTENT_WIDTH, align: 'center' });
+  doc.rect(0, doc.page.height - 8, doc.page.width, 8).fill(branding.primaryColor);
+};
+
+/**
+ * Itemised invoice with the insurance split and payments received so far.
+ */
+export const renderInvoicePdf = async (billingRecordId: string): Promise<{ number: string; pdf: Buffer }> => {
+  const invoiceNumber = await ensureInvoiceNumber(billingRecordId);
+
+  const bill = await prisma.billingRecord.findUniqueOrThrow({
+    where: { id: billingRecordId },
+    include: {
+      items: true,
+      payments: { orderBy: { createdAt: 'asc' } },
+      patient: true,
+      visit: { select: { checkInTime: true, department: true } },
+    },
+  });
+
+  const branding = await loadBranding(bill.hospitalId);
+  const money = (amount: number) => formatMoney(amount, branding.currency);
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+
+  drawHeader(doc, branding, 'INVOICE', invoiceNumber, bill.createdAt);
+
+  // Bill-to block
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#333333').text('Bill to', PAGE_MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(9)
+    .text(`${bill.patient.firstName} ${bill.patient.lastName}`)
+    .text(bill.patient.phone)
+    .text(`Visit: ${formatDate(bill.visit.checkInTime, branding.timezone)} - ${bill.visit.department}`);
+  if (bill.insuranceProvider) {
+    doc.text(`Insurer: ${bill.insuranceProvider}${bill.insurancePolicyNumber ? ` (Policy ${bill.insurancePolicyNumber})` : ''}`);
+  }
+  doc.text(`Status: ${bill.status}`);
+  doc.y += 12;
+
+  drawTable(
+    doc,
+    branding,
+    ['Description', 'Code', 'Qty', 'Unit price', 'Amount'],
+    bill.items.map((item) => [
+      item.description,
+      item.serviceCode || '',
+      String(item.quantity),
+      money(item.amount),
+      money(item.amount * item.quantity),
+    ]),
+    [0.4, 0.14, 0.08, 0.19, 0.19],
+    [false, false, true, true, true]
+  );
+
+  const balance = Math.max(bill.totalAmount - bill.paidAmount, 0);
+  const refunded = bill.payments.reduce((sum, payment) => sum + payment.refundedAmount, 0);
+  const subtotal = bill.totalAmount + bill.adjustmentAmount - bill.taxAmount;
+  drawTotals(doc, [
+    ...(bill.adjustmentAmount > 0 || bill.taxAmount > 0 ? [{ label: 'Subtotal', value: money(subtotal) }] : []),
+    ...taxLines(bill.items).map((tax) => ({ label: `${tax.name} (${tax.rate}%)`, value: money(tax.amount) })),
+    ...(bill.adjustmentAmount > 0
+      ? [{ label: 'Discounts & waivers', value: `-${money(bill.adjustmentAmount)}` }]
+      : []),
+    { label: 'Total', value: money(bill.totalAmount), strong: true },
+    ...(bill.insuranceProvider && bill.payerAmount > 0
+      ? [
+          { label: `Insurance (${bill.insuranceCoverage ?? 0}%)`, value: money(bill.payerAmount) },
+          { label: 'Patient co-pay', value: money(bill.patientAmount) },
+        ]
+      : []),
+    ...(refunded > 0 ? [{ label: 'Refunded', value: `-${money(refunded)}` }] : []),
+    { label: 'Paid to date', value: money(bill.paidAmount) },
+    { label: 'Balance due', value: money(balance), strong: true },
+  ]);
+
+  if (bill.payments.length > 0) {
+    drawSectionTitle(doc, branding, 'Payments received');
+    drawTable(
+      doc,
+      branding,
+      ['Date', 'Receipt', 'Method', 'Reference', 'Amount'],
+      bill.payments.map((payment) => [
+        formatDate(payment.createdAt, branding.timezone),
+        payment.receiptNumber || '',
+        payment.method.replace('_', ' '),
+        payment.reference || '',
+        money(payment.amount),
+      ]),
+      [0.17, 0.2, 0.17, 0.27, 0.19],
+      [false, false, false, false, true]
+    );
+  }
+
+  drawFooter(doc, branding, `${invoiceNumber} - Thank you for choosing ${branding.hospitalName}`);
+
+  return { number: invoiceNumber, pdf: await toBuffer(doc) };
+};
+
+/**
+ * Receipt for a single payment, with the bill's position after it.
+ */
+export const renderReceiptPdf = async (paymentId: string): Promise<{ number: string; pdf: Buffer }> => {
+  const receiptNumber = await ensureReceiptNumber(paymentId);
+
+  const payment = await prisma.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: {
+      billingRecord: { include: { patient: true } },
+      receivedByUser: { select: { firstName: true, lastName: true } },
+    },
+  });
+
+  const bill = payment.billingRecord;
+  const invoiceNumber = await ensureInvoiceNumber(bill.id);
+  const branding = await loadBranding(bill.hospitalId);
+  const money = (amount: number) => formatMoney(amount, branding.currency);
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+
+  drawHeader(doc, branding, 'RECEIPT', receiptNumber, payment.createdAt);
+
+  const received = payment.receivedByUser
+    ? `${payment.receivedByUser.firstName} ${payment.receivedByUser.lastName}`
+    : payment.gateway ? `Online (${payment.gateway})` : '';
+
+  drawTable(
+    doc,
+    branding,
+    ['Details', ''],
+    [
+      ['Received from', `${bill.patient.firstName} ${bill.patient.lastName}`],
+      ['Amount', money(payment.amount)],
+      ['Payment method', payment.method.replace('_', ' ')],
+      ['Reference', payment.reference || payment.gatewayReference || ''],
+      ['For invoice', invoiceNumber],
+      ['Received by', received],
+    ],
+    [0.35, 0.65],
+    [false, false]
+  );
+
+  // Bill position including every payment up to and including this one
+  const paidThrough = await prisma.payment.aggregate({
+    where: { billingRecordId: bill.id, createdAt: { lte: payment.createdAt } },
+    _sum: { amount: true },
+  });
+  const paid = paidThrough._sum.amount || 0;
+
+  drawTotals(doc, [
+    { label: 'Invoice total', value: money(bill.totalAmount) },
+    { label: 'Paid to date', value: money(paid) },
+    { label: 'Balance', value: money(Math.max(bill.totalAmount - paid, 0)), strong: true },
+  ]);
+
+  drawFooter(doc, branding, `${receiptNumber} - This receipt was generated electronically`);
+
+  return { number: receiptNumber, pdf: await toBuffer(doc) };
+};
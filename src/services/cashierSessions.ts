@@ -0,0 +1,235 @@
+/**
+ * Cashier Sessions
+ *
+ * A session is one cashier's shift at a till. It opens with a cash float,
+ * collects every payment, deposit and refund the cashier handles, and closes
+ * with the amount counted per payment method. The difference from what the
+ * ledger expects is the variance an admin reviews on the day's Z-report.
+ *
+ * Configured in `settings.cashier`:
+ *   requireOpenSession - refuse payments from cashiers with no open session (default on)
+ *   varianceTolerance  - variances within this amount are not flagged (default 0)
+ */
+
+import { PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { localDateKey } from '../utils/dates';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a session operation is not allowed; carries the HTTP status to relay.
+ */
+export class CashierSessionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CashierSessionError';
+    this.status = status;
+  }
+}
+
+// Methods that pass through a till; DEPOSIT and INSURANCE never do
+export const TILL_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'MOBILE_MONEY', 'BANK_TRANSFER'];
+
+export const isTillMethod = (method: string): method is PaymentMethod =>
+  (TILL_METHODS as string[]).includes(method);
+
+type MethodAmounts = Record<string, number>;
+
+export const cashierSettings = (settings: Record<string, any>) => {
+  const config = (settings.cashier as Record<string, any>) || {};
+  return {
+    requireOpenSession: config.requireOpenSession !== false,
+    varianceTolerance: Number(config.varianceTolerance) || 0,
+  };
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const emptyAmounts = (): MethodAmounts => Object.fromEntries(TILL_METHODS.map((method) => [method, 0]));
+
+export const findOpenSession = (db: Db, cashierId: string) =>
+  db.cashierSession.findFirst({ where: { cashierId, status: 'OPEN' } });
+
+/**
+ * The open session a till movement by `userId` belongs to. When `required`,
+ * a user without one in this hospital is refused. Call it inside the
+ * transaction that records the movement, so the session stays open until it commits.
+ */
+export const tillSessionFor = async (
+  db: Db,
+  userId: string,
+  hospitalId: string,
+  required: boolean
+): Promise<string | null> => {
+  const session = await findOpenSession(db, userId);
+
+  if (session && session.hospitalId === hospitalId) {
+    // Share-lock the row until commit so a close waits for this movement, or this sees the close
+    const [locked] = await db.$queryRaw<{ status: string }[]>`
+      SELECT "status" FROM "CashierSession" WHERE "id" = ${session.id} FOR SHARE`;
+    if (locked?.status === 'OPEN') {
+      return session.id;
+    }
+  }
+
+  if (required) {
+    throw new CashierSessionError('Open a cashier session before taking payments', 409);
+  }
+
+  return null;
+};
+
+/**
+ * What the till should hold per method: the float, plus payments and wallet
+ * deposits taken, less refunds paid out and payments reversed in the session.
+ */
+export const expectedAmounts = async (db: Db, sessionId: string): Promise<MethodAmounts> => {
+  const session = await db.cashierSession.findUniqueOrThrow({ where: { id: sessionId } });
+
+  const [payments, walletMovements, refunds] = await Promise.all([
+    db.payment.groupBy({
+      by: ['method'],
+      where: { cashierSessionId: sessionId },
+      _sum: { amount: true },
+    }),
+    db.walletTransaction.findMany({
+      where: { cashierSessionId: sessionId, type: { in: ['DEPOSIT', 'REFUND'] } },
+      select: { type: true, method: true, amount: true },
+    }),
+    db.refund.findMany({
+      where: { cashierSessionId: sessionId, status: 'COMPLETED' },
+      select: { type: true, method: true, amount: true, payment: { select: { method: true } } },
+    }),
+  ]);
+
+  const expected = emptyAmounts();
+  const add = (method: string | null | undefined, amount: number) => {
+    if (method && method in expected) expected[method] += amount;
+  };
+
+  expected.CASH += session.openingFloat;
+  for (const row of payments) add(row.method, row._sum.amount || 0);
+  for (const movement of walletMovements) add(movement.method, movement.type === 'DEPOSIT' ? movement.amount : -movement.amount);
+  // A reversal takes back the original payment; a refund leaves by its own method
+  for (const refund of refunds) add(refund.type === 'REVERSAL' ? refund.payment.method : refund.method, -refund.amount);
+
+  return Object.fromEntries(Object.entries(expected).map(([method, amount]) => [method, roundMoney(amount)]));
+};
+
+/**
+ * Declared less expected for each method, and overall.
+ */
+export const sessionVariance = (expected: MethodAmounts, declared: MethodAmounts) => {
+  const byMethod: MethodAmounts = {};
+  for (const method of TILL_METHODS) {
+    byMethod[method] = roundMoney((declared[method] || 0) - (expected[method] || 0));
+  }
+  return { byMethod, total: roundMoney(Object.values(byMethod).reduce((sum, amount) => sum + amount, 0)) };
+};
+
+/**
+ * Close an open session with the amounts the cashier counted.
+ */
+export const closeSession = async (sessionId: string, declared: MethodAmounts, notes?: string) =>
+  prisma.$transaction(async (tx) => {
+    // Hold the session before counting: movements share-lock it, so none can land between the count and the close
+    const [locked] = await tx.$queryRaw<{ status: string }[]>`
+      SELECT "status" FROM "CashierSession" WHERE "id" = ${sessionId} FOR UPDATE`;
+    if (locked?.status !== 'OPEN') {
+      throw new CashierSessionError('Session is not open', 409);
+    }
+
+    const expected = await expectedAmounts(tx, sessionId);
+    const declaredAmounts = Object.fromEntries(TILL_METHODS.map((method) => [method, roundMoney(declared[method] || 0)]));
+    const variance = sessionVariance(expected, declaredAmounts);
+
+    await tx.cashierSession.update({
+      where: { id: sessionId },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        expectedAmounts: expected,
+        declaredAmounts,
+        variance: variance.total,
+        closingNotes: notes,
+      },
+    });
+
+    return { session: await tx.cashierSession.findUniqueOrThrow({ where: { id: sessionId } }), variance };
+  });
+
+/**
+ * Z-report: every session closed on a calendar day in the hospital's
+ * timezone, with per-method totals, variances and sign-off state.
+ */
+export const zReport = async (hospitalId: string, date: string, timezone: string, varianceTolerance: number) => {
+  // Widen the UTC window by a day each side, then keep the local date's sessions
+  const day = new Date(`${date}T00:00:00Z`);
+  const from = new Date(day.getTime() - 24 * 60 * 60 * 1000);
+  const to = new Date(day.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+  const candidates = await prisma.cashierSession.findMany({
+    where: { hospitalId, status: { not: 'OPEN' }, closedAt: { gte: from, lt: to } },
+    include: {
+      cashier: { select: { id: true, firstName: true, lastName: true } },
+      signedOffByUser: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { closedAt: 'asc' },
+  });
+  const sessions = candidates.filter((session) => localDateKey(session.closedAt!, timezone) === date);
+
+  const openCandidates = await prisma.cashierSession.findMany({
+    where: { hospitalId, status: 'OPEN', openedAt: { lt: to } },
+    include: { cashier: { select: { id: true, firstName: true, lastName: true } } },
+  });
+  const stillOpen = openCandidates.filter((session) => localDateKey(session.openedAt, timezone) <= date);
+
+  const totals = { expected: emptyAmounts(), declared: emptyAmounts(), variance: emptyAmounts() };
+
+  const lines = sessions.map((session) => {
+    const expected = (session.expectedAmounts as MethodAmounts) || {};
+    const declared = (session.declaredAmounts as MethodAmounts) || {};
+    const variance = sessionVariance(expected, declared);
+
+    for (const method of TILL_METHODS) {
+      totals.expected[method] = roundMoney(totals.expected[method] + (expected[method] || 0));
+      totals.declared[method] = roundMoney(totals.declared[method] + (declared[method] || 0));
+      totals.variance[method] = roundMoney(totals.variance[method] + variance.byMethod[method]);
+    }
+
+    return {
+      id: session.id,
+      cashier: session.cashier,
+      status: session.status,
+      openedAt: session.openedAt,
+      closedAt: session.closedAt,
+      openingFloat: session.openingFloat,
+      expected,
+      declared,
+      variance: variance.byMethod,
+      totalVariance: variance.total,
+      flagged: Math.abs(variance.total) > varianceTolerance,
+      closingNotes: session.closingNotes,
+      signedOffBy: session.signedOffByUser,
+      signedOffAt: session.signedOffAt,
+      signOffNotes: session.signOffNotes,
+    };
+  });
+
+  return {
+    date,
+    timezone,
+    sessions: lines,
+    totals: {
+      ...totals,
+      totalVariance: roundMoney(Object.values(totals.variance).reduce((sum, amount) => sum + amount, 0)),
+    },
+    signedOff: lines.length > 0 && lines.every((line) => line.status === 'SIGNED_OFF'),
+    awaitingSignOff: lines.filter((line) => line.status === 'CLOSED').length,
+    flagged: lines.filter((line) => line.flagged).length,
+    stillOpen: stillOpen.map((session) => ({ id: session.id, cashier: session.cashier, openedAt: session.openedAt })),
+  };
+};
@@ -0,0 +1,264 @@
+/**
+ * Charge Capture
+ *
+ * Listens for clinical events and appends the matching tariff charges to the
+ * visit's open bill, creating one when none is open. Every captured item keeps
+ * its source (sourceType + sourceId), so replaying an event never bills twice.
+ *
+ * Codes are configured in `settings.chargeCapture`:
+ *   enabled          - set false to switch capture off (default on)
+ *   consultationCode - tariff code for a consultation (default CONSULTATION)
+ *   labTestCodes     - { [testType]: code }, else the LAB tariff named like the test
+ *   bedDayCodes      - { [WardType]: code }, else BED-<WARD>-<ROOM> or BED-<WARD>
+ * Drugs are priced from their formulary tariff code, else the MEDICATION
+ * tariff named like the drug. Bed-days are not event-driven; the accrual job
+ * in bedCharges bills them.
+ */
+
+import { Prisma, Tariff } from '@prisma/client';
+import { prisma } from '../db';
+import { createAuditLog } from '../utils/audit';
+import { billShares, resolveBillingStatus } from '../utils/billing';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { broadcastBillingUpdate } from '../socket';
+import { onClinicalEvent } from './clinicalEvents';
+import { nextDocumentNumber } from './documentNumbers';
+import { computeItemTaxes, taxRules } from './taxes';
+import { autoApplyWallet } from './wallet';
+import { findEffectiveTariff, findEffectiveTariffByName, findLabTestTariff, priceForPayer } from './tariffs';
+
+export interface CaptureContext {
+  hospitalId: string;
+  visitId: string;
+  patientId: string;
+  userId: string;
+}
+
+export interface CaptureLine {
+  sourceType: string;
+  sourceId: string;
+  tariff: Tariff;
+  quantity: number;
+  description?: string;
+}
+
+const isDuplicateSource = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Record that a delivered service could not be billed, so finance can follow up.
+ */
+export const recordUncaptured = async (
+  hospitalId: string,
+  userId: string,
+  sourceType: string,
+  sourceId: string,
+  reason: string
+): Promise<void> => {
+  console.warn(`[ChargeCapture] ${sourceType} ${sourceId} not billed: ${reason}`);
+  await createAuditLog(prisma, {
+    userId,
+    hospitalId,
+    action: 'CHARGE_NOT_CAPTURED',
+    entity: 'BILLING_RECORD',
+    details: { sourceType, sourceId, reason },
+  });
+};
+
+// One attempt at capturing the lines not yet on a bill, in a single transaction
+const captureBatch = async (ctx: CaptureContext, lines: CaptureLine[]): Promise<void> => {
+  if (lines.length === 0) return;
+
+  // Skip anything already captured (event replays, retried requests)
+  const existing = await prisma.billingItem.findMany({
+    where: { OR: lines.map((line) => ({ sourceType: line.sourceType, sourceId: line.sourceId })) },
+    select: { sourceType: true, sourceId: true },
+  });
+  const captured = new Set(existing.map((item) => `${item.sourceType}:${item.sourceId}`));
+  const pending = lines.filter((line) => !captured.has(`${line.sourceType}:${line.sourceId}`));
+
+  if (pending.length === 0) return;
+
+  const rules = taxRules(await getHospitalSettings(ctx.hospitalId));
+
+  const { billingRecord, created } = await prisma.$transaction(async (tx) => {
+    // Bills already batched into an insurance claim are frozen
+    let bill = await tx.billingRecord.findFirst({
+      where: { visitId: ctx.visitId, status: { in: ['PENDING', 'PARTIAL'] }, claimId: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    const created = !bill;
+
+    if (!bill) {
+      bill = await tx.billingRecord.create({
+        data: {
+          invoiceNumber: await nextDocumentNumber(tx, ctx.hospitalId, 'INVOICE'),
+          visitId: ctx.visitId,
+          patientId: ctx.patientId,
+          hospitalId: ctx.hospitalId,
+          status: 'PENDING',
+          totalAmount: 0,
+          paidAmount: 0,
+          createdBy: ctx.userId,
+        },
+      });
+    }
+
+    let added = 0;
+    let addedTax = 0;
+    for (const line of pending) {
+      const amount = priceForPayer(line.tariff, bill.insuranceProvider);
+      const { taxAmount, taxes } = computeItemTaxes(
+        { category: line.tariff.category, serviceCode: line.tariff.code, amount, quantity: line.quantity },
+        rules
+      );
+      await tx.billingItem.create({
+        data: {
+          billingRecordId: bill.id,
+          description: line.description || line.tariff.name,
+          category: line.tariff.category,
+          amount,
+          quantity: line.quantity,
+          serviceCode: line.tariff.code,
+          tariffId: line.tariff.id,
+          sourceType: line.sourceType,
+          sourceId: line.sourceId,
+          taxAmount,
+          ...(taxes.length > 0 && { taxes }),
+        },
+      });
+      added += amount * line.quantity + taxAmount;
+      addedTax += taxAmount;
+    }
+
+    // Increment rather than overwrite so concurrent captures on one bill both count
+    const updated = await tx.billingRecord.update({
+      where: { id: bill.id },
+      data: { totalAmount: { increment: added }, taxAmount: { increment: addedTax } },
+    });
+
+    await tx.billingRecord.update({
+      where: { id: bill.id },
+      data: {
+        status: resolveBillingStatus(updated.totalAmount, updated.paidAmount, updated.status),
+        ...billShares(updated),
+      },
+    });
+
+    // Deposits cover new charges as they land
+    await autoApplyWallet(tx, bill.id, ctx.hospitalId, ctx.userId);
+
+    const billingRecord = await tx.billingRecord.findUniqueOrThrow({
+      where: { id: bill.id },
+      include: {
+        items: true,
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    return { billingRecord, created };
+  });
+
+  await createAuditLog(prisma, {
+    userId: ctx.userId,
+    hospitalId: ctx.hospitalId,
+    action: 'CAPTURE_CHARGES',
+    entity: 'BILLING_RECORD',
+    entityId: billingRecord.id,
+    details: {
+      visitId: ctx.visitId,
+      createdBill: created,
+      items: pending.map((line) => ({ sourceType: line.sourceType, sourceId: line.sourceId, code: line.tariff.code })),
+    },
+  });
+
+  broadcastBillingUpdate(ctx.hospitalId, created ? 'created' : 'updated', billingRecord);
+};
+
+/**
+ * Append tariff-priced lines to the visit's open bill (PENDING or PARTIAL),
+ * creating the bill if the visit has none open.
+ */
+export const captureCharges = async (ctx: CaptureContext, lines: CaptureLine[]): Promise<void> => {
+  // A concurrent capture taking one of the sources rolls back the whole batch;
+  // each retry skips at least that source, so the rest are still billed
+  for (let attempt = 0; attempt <= lines.length; attempt++) {
+    try {
+      await captureBatch(ctx, lines);
+      return;
+    } catch (error) {
+      if (!isDuplicateSource(error)) throw error;
+    }
+  }
+};
+
+export const chargeCaptureSettings = async (hospitalId: string) => {
+  const settings = await getHospitalSettings(hospitalId);
+  const config = (settings.chargeCapture as Record<string, any>) || {};
+  return { settings, config, enabled: config.enabled !== false };
+};
+
+/**
+ * Subscribe charge capture to clinical events. Called once at startup.
+ */
+export const registerChargeCapture = (): void => {
+  onClinicalEvent('consultation.created', async (event) => {
+    const { config, enabled } = await chargeCaptureSettings(event.hospitalId);
+    if (!enabled) return;
+
+    const code = config.consultationCode || 'CONSULTATION';
+    const tariff = await findEffectiveTariff(event.hospitalId, code);
+
+    if (!tariff) {
+      await recordUncaptured(event.hospitalId, event.userId, 'CONSULTATION', event.consultationId, `No tariff for code ${code}`);
+      return;
+    }
+
+    await captureCharges(event, [
+      { sourceType: 'CONSULTATION', sourceId: event.consultationId, tariff, quantity: 1 },
+    ]);
+  });
+
+  onClinicalEvent('lab-order.created', async (event) => {
+    const { settings, enabled } = await chargeCaptureSettings(event.hospitalId);
+    if (!enabled) return;
+
+    const tariff = await findLabTestTariff(event.hospitalId, event.testType, settings);
+
+    if (!tariff) {
+      await recordUncaptured(event.hospitalId, event.userId, 'LAB_ORDER', event.labOrderId, `No tariff for test ${event.testType}`);
+      return;
+    }
+
+    await captureCharges(event, [
+      { sourceType: 'LAB_ORDER', sourceId: event.labOrderId, tariff, quantity: 1 },
+    ]);
+  });
+
+  onClinicalEvent('prescription.dispensed', async (event) => {
+    const { enabled } = await chargeCaptureSettings(event.hospitalId);
+    if (!enabled) return;
+
+    const lines: CaptureLine[] = [];
+    for (const item of event.items) {
+      const tariff = item.tariffCode
+        ? await findEffectiveTariff(event.hospitalId, item.tariffCode)
+        : await findEffectiveTariffByName(event.hospitalId, 'MEDICATION', item.medicationName);
+
+      if (!tariff) {
+        await recordUncaptured(event.hospitalId, event.userId, 'DISPENSE_ITEM', item.id, `No tariff for drug ${item.medicationName}`);
+        continue;
+      }
+
+      lines.push({ sourceType: 'DISPENSE_ITEM', sourceId: item.id, tariff, quantity: item.quantity });
+    }
+
+    await captureCharges(event, lines);
+  });
+};
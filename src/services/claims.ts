@@ -0,0 +1,275 @@
+/**
+ * Insurance Claims
+ *
+ * Batches the payer portions of insured bills into one claim per HMO (or NHIS)
+ * and period, walks the claim through the payer's review, and spreads
+ * remittances back over the claimed bills as INSURANCE payments.
+ */
+
+import { Claim, ClaimStatus } from '@prisma/client';
+import { prisma } from '../db';
+import { resolveBillingStatus } from '../utils/billing';
+import { broadcastBillingUpdate } from '../socket';
+import { nextDocumentNumber } from './documentNumbers';
+
+/**
+ * Raised when a claim operation is not allowed; carries the HTTP status to relay.
+ */
+export class ClaimError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ClaimError';
+    this.status = status;
+  }
+}
+
+// Allowed next statuses for each claim status
+const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['QUERIED', 'APPROVED', 'REJECTED'],
+  QUERIED: ['SUBMITTED', 'REJECTED'],
+  APPROVED: [],
+  PARTIALLY_PAID: [],
+  PAID: [],
+  REJECTED: [],
+};
+
+// Statuses in which the payer still owes money on the claim
+export const OPEN_CLAIM_STATUSES: ClaimStatus[] = ['SUBMITTED', 'QUERIED', 'APPROVED', 'PARTIALLY_PAID'];
+
+const REMITTABLE_STATUSES: ClaimStatus[] = ['SUBMITTED', 'APPROVED', 'PARTIALLY_PAID'];
+
+export const assertClaimTransition = (from: ClaimStatus, to: ClaimStatus): void => {
+  if (!CLAIM_TRANSITIONS[from].includes(to)) {
+    throw new ClaimError(`Cannot move a ${from} claim to ${to}`);
+  }
+};
+
+/**
+ * What the payer still owes: the approved amount once known, else the amount claimed.
+ */
+export const claimOutstanding = (claim: Pick<Claim, 'totalAmount' | 'approvedAmount' | 'paidAmount'>): number =>
+  Math.max((claim.approvedAmount ?? claim.totalAmount) - claim.paidAmount, 0);
+
+/**
+ * Create one DRAFT claim per payer from insured bills in the period that
+ * carry a payer portion and are not already on a claim.
+ */
+export const batchClaims = async (
+  hospitalId: string,
+  options: { periodStart: Date; periodEnd: Date; insuranceProvider?: string },
+  userId: string
+): Promise<Claim[]> => {
+  const bills = await prisma.billingRecord.findMany({
+    where: {
+      hospitalId,
+      claimId: null,
+      status: { not: 'CANCELLED' },
+      payerAmount: { gt: 0 },
+      createdAt: { gte: options.periodStart, lte: options.periodEnd },
+      ...(options.insuranceProvider
+        ? { insuranceProvider: { equals: options.insuranceProvider, mode: 'insensitive' as const } }
+        : { insuranceProvider: { not: null } }),
+    },
+    select: { id: true, insuranceProvider: true, payerAmount: true },
+  });
+
+  // Group by payer name, ignoring case and stray whitespace
+  const groups = new Map<string, { name: string; billIds: string[]; total: number }>();
+  for (const bill of bills) {
+    const name = (bill.insuranceProvider || '').trim();
+    const key = name.toUpperCase();
+    const group = groups.get(key) || { name, billIds: [], total: 0 };
+    group.billIds.push(bill.id);
+    group.total += bill.payerAmount;
+    groups.set(key, group);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const claims: Claim[] = [];
+
+    for (const group of groups.values()) {
+      const claim = await tx.claim.create({
+        data: {
+          hospitalId,
+          insuranceProvider: group.name,
+          periodStart: options.periodStart,
+          periodEnd: options.periodEnd,
+          totalAmount: group.total,
+          createdBy: userId,
+        },
+      });
+
+      // claimId: null guards against a concurrent batch taking the same bills
+      const { count } = await tx.billingRecord.updateMany({
+        where: { id: { in: group.billIds }, claimId: null },
+        data: { claimId: claim.id },
+      });
+
+      if (count !== group.billIds.length) {
+        throw new ClaimError('Some bills were claimed by another batch; please retry', 409);
+      }
+
+      claims.push(claim);
+    }
+
+    return claims;
+  });
+};
+
+/**
+ * Record a payer remittance and allocate it across the claim's bills, oldest
+ * first, up to each bill's unpaid payer portion. A remittance larger than
+ * the bills can take is refused, so the claim never counts money no bill received.
+ */
+export const recordRemittance = async (
+  claimId: string,
+  input: { amount: number; reference?: string; notes?: string; receivedAt?: Date },
+  userId: string
+) => {
+  const result = await prisma.$transaction(async (tx) => {
+    // Hold the claim so concurrent remittances are checked and allocated one after another
+    await tx.$queryRaw`SELECT "id" FROM "Claim" WHERE "id" = ${claimId} FOR UPDATE`;
+    const claim = await tx.claim.findUnique({ where: { id: claimId } });
+
+    if (!claim) {
+      throw new ClaimError('Claim not found', 404);
+    }
+
+    if (!REMITTABLE_STATUSES.includes(claim.status)) {
+      throw new ClaimError(`Cannot record a remittance on a ${claim.status} claim`);
+    }
+
+    if (input.amount > claimOutstanding(claim) + 0.005) {
+      throw new ClaimError('Remittance exceeds the amount outstanding on the claim');
+    }
+
+    const bills = await tx.billingRecord.findMany({
+      where: { claimId },
+      include: { payments: { where: { remittanceId: { not: null } }, select: { amount: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const payerUnpaid = (bill: (typeof bills)[number]) =>
+      bill.payerAmount - bill.payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+    if (input.amount > bills.reduce((sum, bill) => sum + Math.max(payerUnpaid(bill), 0), 0) + 0.005) {
+      throw new ClaimError("Remittance exceeds the unpaid payer portions of the claim's bills");
+    }
+
+    const remittance = await tx.claimRemittance.create({
+      data: {
+        claimId,
+        amount: input.amount,
+        reference: input.reference,
+        notes: input.notes,
+        receivedAt: input.receivedAt,
+        recordedBy: userId,
+      },
+    });
+
+    let remaining = input.amount;
+    const updatedBillIds: string[] = [];
+
+    for (const bill of bills) {
+      if (remaining <= 0) break;
+
+      const allocation = Math.min(payerUnpaid(bill), remaining);
+      if (allocation <= 0) continue;
+
+      await tx.payment.create({
+        data: {
+          billingRecordId: bill.id,
+          amount: allocation,
+          method: 'INSURANCE',
+          reference: input.reference,
+          receiptNumber: await nextDocumentNumber(tx, claim.hospitalId, 'RECEIPT'),
+          receivedBy: userId,
+          remittanceId: remittance.id,
+        },
+      });
+
+      // Increment so a cashier or wallet payment on the bill meanwhile is kept
+      const paid = await tx.billingRecord.update({
+        where: { id: bill.id },
+        data: { paidAmount: { increment: allocation } },
+      });
+      await tx.billingRecord.update({
+        where: { id: bill.id },
+        data: { status: resolveBillingStatus(paid.totalAmount, paid.paidAmount, paid.status) },
+      });
+
+      remaining -= allocation;
+      updatedBillIds.push(bill.id);
+    }
+
+    const paid = await tx.claim.update({
+      where: { id: claimId },
+      data: { paidAmount: { increment: input.amount } },
+    });
+    const updatedClaim = await tx.claim.update({
+      where: { id: claimId },
+      data: { status: claimOutstanding(paid) <= 0.005 ? 'PAID' : 'PARTIALLY_PAID' },
+    });
+
+    return { claim: updatedClaim, remittance, updatedBillIds };
+  });
+
+  const billingRecords = await prisma.billingRecord.findMany({
+    where: { id: { in: result.updatedBillIds } },
+  });
+  for (const billingRecord of billingRecords) {
+    broadcastBillingUpdate(billingRecord.hospitalId, 'payment', billingRecord);
+  }
+
+  return result;
+};
+
+const AGEING_BUCKETS = [
+  { label: '0-30', maxDays: 30 },
+  { label: '31-60', maxDays: 60 },
+  { label: '61-90', maxDays: 90 },
+  { label: '90+', maxDays: Infinity },
+];
+
+/**
+ * Outstanding claim amounts per payer, bucketed by days since submission.
+ */
+export const claimsAgeing = async (hospitalId?: string, asOf: Date = new Date()) => {
+  const claims = await prisma.claim.findMany({
+    where: {
+      ...(hospitalId && { hospitalId }),
+      status: { in: OPEN_CLAIM_STATUSES },
+    },
+  });
+
+  const emptyBuckets = () => Object.fromEntries(AGEING_BUCKETS.map((bucket) => [bucket.label, 0])) as Record<string, number>;
+  const payers = new Map<string, { insuranceProvider: string; buckets: Record<string, number>; total: number; claims: number }>();
+  const totals = emptyBuckets();
+
+  for (const claim of claims) {
+    const outstanding = claimOutstanding(claim);
+    if (outstanding <= 0) continue;
+
+    const since = claim.submittedAt || claim.createdAt;
+    const days = Math.floor((asOf.getTime() - since.getTime()) / (24 * 60 * 60 * 1000));
+    const bucket = AGEING_BUCKETS.find((b) => days <= b.maxDays)!.label;
+
+    const key = claim.insuranceProvider.toUpperCase();
+    const payer = payers.get(key) || { insuranceProvider: claim.insuranceProvider, buckets: emptyBuckets(), total: 0, claims: 0 };
+    payer.buckets[bucket] += outstanding;
+    payer.total += outstanding;
+    payer.claims += 1;
+    payers.set(key, payer);
+
+    totals[bucket] += outstanding;
+  }
+
+  return {
+    asOf,
+    payers: [...payers.values()].sort((a, b) => b.total - a.total),
+    totals: { ...totals, total: Object.values(totals).reduce((sum, value) => sum + value, 0) },
+  };
+};
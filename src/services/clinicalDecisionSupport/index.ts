@@ -0,0 +1,171 @@
+/**
+ * Clinical decision support
+ *
+ * Screens a prescription against the patient's recorded allergies, the rest
+ * of the prescription and their current medications, using a locally loaded
+ * interaction dataset. The bundled dataset.json is used unless
+ * CDS_DATASET_PATH points at a hospital-maintained replacement in the same
+ * shape. Nothing here blocks on its own: callers decide what a SEVERE alert
+ * requires.
+ */
+
+import fs from 'fs';
+import bundledDataset from './dataset.json';
+import { AlertSeverity, CdsDataset, ClinicalAlert } from './types';
+
+export * from './types';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { MINOR: 1, MODERATE: 2, SEVERE: 3 };
+
+let dataset: CdsDataset | null = null;
+
+export const getDataset = (): CdsDataset => {
+  if (!dataset) {
+    const path = process.env.CDS_DATASET_PATH;
+    dataset = path ? (JSON.parse(fs.readFileSync(path, 'utf8')) as CdsDataset) : (bundledDataset as CdsDataset);
+  }
+  return dataset;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match so "ampicillin" is not found in "ampiclox" and vice versa
+const mentions = (text: string, term: string): boolean =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}([^a-z0-9]|$)`).test(text);
+
+const classesOf = (data: CdsDataset, name: string): string[] =>
+  Object.entries(data.drugClasses)
+    .filter(([, members]) => members.some((member) => mentions(name, member)))
+    .map(([key]) => key);
+
+// A dataset reference is a class key or, failing that, a single drug name
+const matchesRef = (data: CdsDataset, name: string, ref: string): boolean =>
+  data.drugClasses[ref] ? data.drugClasses[ref].some((member) => mentions(name, member)) : mentions(name, ref);
+
+// Most severe first
+const bySeverity = (a: { severity: AlertSeverity }, b: { severity: AlertSeverity }): number =>
+  SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+
+/**
+ * Accepts the Json allergy and medication lists held on the patient record.
+ */
+export const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '') : [];
+
+const allergyAlerts = (data: CdsDataset, drug: string, allergies: string[]): ClinicalAlert[] => {
+  const name = drug.toLowerCase();
+  const drugClasses = classesOf(data, name);
+  const alerts: ClinicalAlert[] = [];
+
+  for (const allergy of allergies) {
+    const term = allergy.toLowerCase().trim();
+
+    // Classes the allergy covers: named outright ("penicillin allergy") or via a member drug ("amoxicillin")
+    const allergyClasses = new Set([
+      ...Object.entries(data.allergyClasses)
+        .filter(([key]) => mentions(term, key))
+        .flatMap(([, classes]) => classes),
+      ...classesOf(data, term),
+    ]);
+
+    if (mentions(name, term) || drugClasses.some((key) => allergyClasses.has(key))) {
+      alerts.push({
+        type: 'ALLERGY',
+        severity: 'SEVERE',
+        drug,
+        with: allergy,
+        source: 'ALLERGY',
+        message: `Patient is allergic to ${allergy}`,
+      });
+      continue;
+    }
+
+    const cross = data.crossReactivity
+      .filter((rule) => allergyClasses.has(rule.allergyClass) && drugClasses.includes(rule.drugClass))
+      .sort(bySeverity)[0];
+    if (cross) {
+      alerts.push({
+        type: 'CROSS_REACTIVITY',
+        severity: cross.severity,
+        drug,
+        with: allergy,
+        source: 'ALLERGY',
+        message: `${cross.effect} (allergy: ${allergy})`,
+      });
+    }
+  }
+
+  return alerts;
+};
+
+// The most severe rule between two drugs; several can fire for the same pair
+const interactionAlert = (
+  data: CdsDataset,
+  drug: string,
+  other: string,
+  source: ClinicalAlert['source']
+): ClinicalAlert | null => {
+  const a = drug.toLowerCase();
+  const b = other.toLowerCase();
+
+  const rule = data.interactions
+    .filter(
+      (entry) =>
+        (matchesRef(data, a, entry.a) && matchesRef(data, b, entry.b)) ||
+        (matchesRef(data, a, entry.b) && matchesRef(data, b, entry.a))
+    )
+    .sort(bySeverity)[0];
+
+  return rule
+    ? { type: 'INTERACTION', severity: rule.severity, drug, with: other, source, message: rule.effect }
+    : null;
+};
+
+/**
+ * Screen the drugs being prescribed. Returns alerts most severe first; an
+ * empty list means nothing in the dataset applies.
+ */
+export const checkPrescription = (
+  patient: { allergies: unknown; currentMedications: unknown },
+  drugs: string[]
+): ClinicalAlert[] => {
+  const data = getDataset();
+  const allergies = stringList(patient.allergies);
+  const currentMedications = stringList(patient.currentMedications);
+  const alerts: ClinicalAlert[] = [];
+
+  drugs.forEach((drug, index) => {
+    alerts.push(...allergyAlerts(data, drug, allergies));
+
+    // Each pair within the prescription once
+    for (const other of drugs.slice(index + 1)) {
+      const alert = interactionAlert(data, drug, other, 'PRESCRIPTION');
+      if (alert) alerts.push(alert);
+    }
+
+    for (const other of currentMedications) {
+      const alert = interactionAlert(data, drug, other, 'CURRENT_MEDICATION');
+      if (alert) alerts.push(alert);
+    }
+  });
+
+  return alerts.sort(bySeverity);
+};
+
+export const hasSevereAlerts = (alerts: ClinicalAlert[]): boolean => alerts.some((alert) => alert.severity === 'SEVERE');
+
+// Dataset classes whose members are dispensed as controlled drugs
+const CONTROLLED_CLASSES = ['opioids', 'benzodiazepines'];
+
+/**
+ * Whether a drug name is, or mentions, a controlled drug: a member of the
+ * opioid or benzodiazepine classes, or one of `names` (the hospital's own).
+ */
+export const isControlledDrugName = (drug: string, names: string[] = []): boolean => {
+  const data = getDataset();
+  const name = drug.toLowerCase();
+  return (
+    CONTROLLED_CLASSES.some((key) => (data.drugClasses[key] || []).some((member) => mentions(name, member))) ||
+    names.some((term) => mentions(name, term))
+  );
+};
@@ -0,0 +1,29 @@
+/**
+ * Clinical decision support contract
+ *
+ * The dataset groups drugs into classes and states which classes (or single
+ * drugs) interact, which allergy terms cover which classes, and which classes
+ * cross-react. Drug names are matched as whole words, case-insensitively,
+ * against what is written on the prescription.
+ */
+
+export type AlertSeverity = 'MINOR' | 'MODERATE' | 'SEVERE';
+
+export type AlertType = 'ALLERGY' | 'CROSS_REACTIVITY' | 'INTERACTION';
+
+export interface CdsDataset {
+  version: string;
+  drugClasses: Record<string, string[]>; // Class key -> member generic or brand names
+  allergyClasses: Record<string, string[]>; // Allergy term as recorded -> class keys it covers
+  crossReactivity: { allergyClass: string; drugClass: string; severity: AlertSeverity; effect: string }[];
+  interactions: { a: string; b: string; severity: AlertSeverity; effect: string }[]; // a and b are class keys or drug names
+}
+
+export interface ClinicalAlert {
+  type: AlertType;
+  severity: AlertSeverity;
+  drug: string; // Item being prescribed
+  with: string; // Allergy, or the other drug
+  source: 'ALLERGY' | 'PRESCRIPTION' | 'CURRENT_MEDICATION';
+  message: string;
+}
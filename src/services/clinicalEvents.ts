@@ -0,0 +1,54 @@
+/**
+ * Clinical Events
+ *
+ * In-process event bus for things that happen to patients. Controllers emit
+ * after their own work has succeeded; subscribers (e.g. charge capture) run
+ * asynchronously and can never fail the request that emitted the event.
+ */
+
+import { EventEmitter } from 'events';
+
+interface EventContext {
+  hospitalId: string;
+  patientId: string;
+  userId: string;
+}
+
+export type ClinicalEvent =
+  | (EventContext & {
+      type: 'consultation.created';
+      visitId: string;
+      consultationId: string;
+    })
+  | (EventContext & {
+      type: 'lab-order.created';
+      visitId: string;
+      labOrderId: string;
+      testType: string;
+    })
+  | (EventContext & {
+      type: 'prescription.dispensed';
+      visitId: string;
+      prescriptionId: string;
+      // One per dispense line, so a prescription collected in instalments bills each handover
+      items: { id: string; medicationName: string; tariffCode?: string | null; quantity: number }[];
+    });
+
+export type ClinicalEventType = ClinicalEvent['type'];
+
+const emitter = new EventEmitter();
+
+export const emitClinicalEvent = (event: ClinicalEvent): void => {
+  emitter.emit(event.type, event);
+};
+
+export const onClinicalEvent = <T extends ClinicalEventType>(
+  type: T,
+  handler: (event: Extract<ClinicalEvent, { type: T }>) => Promise<void>
+): void => {
+  emitter.on(type, (event) => {
+    handler(event).catch((error) => {
+      console.error(`[Events] ${type} handler failed:`, error);
+    });
+  });
+};
@@ -0,0 +1,307 @@
+/**
+ * Controlled-drug register
+ *
+ * A running balance for each controlled inventory item. Every receipt,
+ * dispense, waste and adjustment adds an entry numbered in sequence per item
+ * and carrying the balance after it; entries are never edited (a trigger,
+ * installed at startup, makes the database refuse it) and mistakes are
+ * corrected by further adjustments. Any movement that takes controlled stock
+ * out needs a second user to co-sign as witness.
+ */
+
+import { ControlledDrugEntryType, InventoryItem, Prisma, UserRole } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { prisma } from '../db';
+import { comparePassword } from '../utils/password';
+import { drawFooter, drawHeader, drawSectionTitle, drawTable, loadBranding, toBuffer } from './billingDocuments';
+
+type Db = Prisma.TransactionClient;
+
+// Roles trusted to witness controlled-drug movements
+const WITNESS_ROLES: UserRole[] = ['DOCTOR', 'NURSE', 'PHARMACIST', 'WARD_MANAGER', 'ADMIN'];
+
+/**
+ * Raised when a controlled-drug movement cannot be recorded; carries the HTTP status to relay.
+ */
+export class ControlledDrugError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ControlledDrugError';
+    this.status = status;
+  }
+}
+
+// Deploys sync the schema with `prisma db push`, which never runs migration SQL, so the trigger is (re)installed from here
+const IMMUTABLE_REGISTER_SQL = [
+  `CREATE OR REPLACE FUNCTION "controlled_drug_entry_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'Controlled drug register entries cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql`,
+  `DROP TRIGGER IF EXISTS "ControlledDrugEntry_immutable" ON "ControlledDrugEntry"`,
+  `CREATE TRIGGER "ControlledDrugEntry_immutable"
+    BEFORE UPDATE OR DELETE ON "ControlledDrugEntry"
+    FOR EACH ROW EXECUTE FUNCTION "controlled_drug_entry_immutable"()`,
+];
+
+/**
+ * Make register entries append-only in the database. Idempotent; called once at startup.
+ */
+export const ensureRegisterImmutable = async (): Promise<void> => {
+  await prisma.$transaction(IMMUTABLE_REGISTER_SQL.map((sql) => prisma.$executeRawUnsafe(sql)));
+};
+
+export interface RegisterMovement {
+  type: Exclude<ControlledDrugEntryType, 'OPENING'>;
+  userId: string;
+  witnessedBy?: string | null;
+  reason?: string | null;
+  reference?: string | null;
+  batchNumbers?: string[];
+  patientId?: string | null;
+  prescriptionId?: string | null;
+}
+
+/**
+ * Check a witness's co-signature: another active user of the same hospital in
+ * a clinical or admin role, confirmed with their own password.
+ */
+export const verifyWitness = async (
+  db: Db,
+  input: { hospitalId: string; userId: string; witnessId?: string; witnessPassword?: string }
+) => {
+  if (!input.witnessId || !input.witnessPassword) {
+    throw new ControlledDrugError('A witness and their password are required to co-sign');
+  }
+  if (input.witnessId === input.userId) {
+    throw new ControlledDrugError('The witness must be a different user');
+  }
+
+  const witness = await db.user.findUnique({ where: { id: input.witnessId } });
+
+  if (
+    !witness ||
+    !witness.active ||
+    witness.hospitalId !== input.hospitalId ||
+    !WITNESS_ROLES.includes(witness.role) ||
+    !(await comparePassword(input.witnessPassword, witness.password))
+  ) {
+    throw new ControlledDrugError('Witness could not be verified', 403);
+  }
+
+  return { id: witness.id, firstName: witness.firstName, lastName: witness.lastName };
+};
+
+const appendEntry = async (db: Db, data: Omit<Prisma.ControlledDrugEntryUncheckedCreateInput, 'sequence'>) => {
+  // Hold the item until commit so concurrent movements number their entries one after another
+  await db.$queryRaw`SELECT "id" FROM "InventoryItem" WHERE "id" = ${data.inventoryItemId} FOR UPDATE`;
+
+  const last = await db.controlledDrugEntry.findFirst({
+    where: { inventoryItemId: data.inventoryItemId },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true },
+  });
+
+  try {
+    return await db.controlledDrugEntry.create({ data: { ...data, sequence: (last?.sequence || 0) + 1 } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ControlledDrugError('The register changed while recording; please try again', 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Register a stock movement of a controlled item, given the item as it is
+ * after the movement. Called by the inventory functions for every change to
+ * a controlled item's stock.
+ */
+export const recordRegisterEntry = async (
+  db: Db,
+  item: InventoryItem,
+  quantity: number,
+  movement: RegisterMovement
+) => {
+  if (quantity < 0 && !movement.witnessedBy) {
+    throw new ControlledDrugError(`${item.name} is a controlled drug; a witness must co-sign`);
+  }
+  if (movement.witnessedBy && movement.witnessedBy === movement.userId) {
+    throw new ControlledDrugError('The witness must be a different user');
+  }
+  if ((movement.type === 'WASTE' || movement.type === 'ADJUSTMENT') && !movement.reason?.trim()) {
+    throw new ControlledDrugError(`A reason is required for controlled-drug ${movement.type.toLowerCase()}`);
+  }
+
+  return appendEntry(db, {
+    hospitalId: item.hospitalId,
+    inventoryItemId: item.id,
+    entryType: movement.type,
+    quantity,
+    balance: item.stock,
+    batchNumbers: movement.batchNumbers?.filter(Boolean).join(', ') || undefined,
+    patientId: movement.patientId || undefined,
+    prescriptionId: movement.prescriptionId || undefined,
+    recordedBy: movement.userId,
+    witnessedBy: movement.witnessedBy || undefined,
+    reason: movement.reason?.trim() || undefined,
+    reference: movement.reference || undefined,
+  });
+};
+
+/**
+ * Flag an item as controlled and open its register at the current stock.
+ */
+export const markControlled = async (db: Db, itemId: string, userId: string, schedule?: string | null) => {
+  const item = await db.inventoryItem.update({
+    where: { id: itemId },
+    data: { controlled: true, ...(schedule !== undefined && { controlledSchedule: schedule }) },
+  });
+
+  const opened = await db.controlledDrugEntry.count({ where: { inventoryItemId: itemId } });
+  if (opened === 0) {
+    await appendEntry(db, {
+      hospitalId: item.hospitalId,
+      inventoryItemId: item.id,
+      entryType: 'OPENING',
+      quantity: item.stock,
+      balance: item.stock,
+      recordedBy: userId,
+      reason: 'Register opened',
+    });
+  }
+
+  return item;
+};
+
+/**
+ * Whether an item's register has entries, after which it cannot stop being controlled.
+ */
+export const hasRegisterEntries = async (itemId: string, db: Db = prisma): Promise<boolean> =>
+  (await db.controlledDrugEntry.count({ where: { inventoryItemId: itemId } })) > 0;
+
+const person = (user: { firstName: string; lastName: string } | null): string =>
+  user ? `${user.firstName} ${user.lastName}` : '';
+
+/**
+ * The register for a period: per controlled item, the balance brought
+ * forward, every entry in the period and the balance carried forward.
+ */
+export const registerReport = async (input: { hospitalId: string; from: Date; to: Date; inventoryItemId?: string }) => {
+  const items = await prisma.inventoryItem.findMany({
+    where: {
+      hospitalId: input.hospitalId,
+      ...(input.inventoryItemId && { id: input.inventoryItemId }),
+      OR: [{ controlled: true }, { registerEntries: { some: {} } }],
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  return Promise.all(
+    items.map(async (item) => {
+      const [previous, entries] = await Promise.all([
+        prisma.controlledDrugEntry.findFirst({
+          where: { inventoryItemId: item.id, createdAt: { lt: input.from } },
+          orderBy: { sequence: 'desc' },
+          select: { balance: true },
+        }),
+        prisma.controlledDrugEntry.findMany({
+          where: { inventoryItemId: item.id, createdAt: { gte: input.from, lt: input.to } },
+          include: {
+            patient: { select: { id: true, firstName: true, lastName: true } },
+            recorder: { select: { id: true, firstName: true, lastName: true } },
+            witness: { select: { id: true, firstName: true, lastName: true } },
+          },
+          orderBy: { sequence: 'asc' },
+        }),
+      ]);
+
+      const openingBalance = previous?.balance || 0;
+      const totals = Object.fromEntries(
+        (['OPENING', 'RECEIPT', 'DISPENSE', 'WASTE', 'ADJUSTMENT'] as ControlledDrugEntryType[]).map((type) => [
+          type,
+          entries.filter((entry) => entry.entryType === type).reduce((sum, entry) => sum + entry.quantity, 0),
+        ])
+      ) as Record<ControlledDrugEntryType, number>;
+
+      return {
+        item: { id: item.id, name: item.name, controlledSchedule: item.controlledSchedule, stock: item.stock },
+        openingBalance,
+        entries,
+        totals,
+        closingBalance: entries.length ? entries[entries.length - 1].balance : openingBalance,
+      };
+    })
+  );
+};
+
+export type RegisterReport = Awaited<ReturnType<typeof registerReport>>;
+
+/**
+ * Printable register: one section per item, entries in sequence with who
+ * recorded and who witnessed each.
+ */
+export const renderRegisterPdf = async (
+  hospitalId: string,
+  report: RegisterReport,
+  period: { startDate: string; endDate: string }
+): Promise<Buffer> => {
+  const branding = await loadBranding(hospitalId);
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const timestamp = (date: Date) =>
+    date.toLocaleString('en-NG', {
+      day: '2-digit',
+      month: 'short',
+      year: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+      timeZone: branding.timezone,
+    });
+
+  drawHeader(doc, branding, 'CD REGISTER', `${period.startDate} to ${period.endDate}`, new Date());
+
+  if (report.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor('#333333').text('No controlled drugs are registered.');
+  }
+
+  report.forEach((section, index) => {
+    if (index > 0) doc.addPage();
+
+    const schedule = section.item.controlledSchedule ? ` (${section.item.controlledSchedule})` : '';
+    drawSectionTitle(doc, branding, `${section.item.name}${schedule}`);
+    doc.font('Helvetica').fontSize(9).fillColor('#333333')
+      .text(`Balance brought forward: ${section.openingBalance}`, 50, doc.y);
+    doc.y += 6;
+
+    drawTable(
+      doc,
+      branding,
+      ['#', 'Date', 'Entry', 'Patient / reference', 'In', 'Out', 'Balance', 'Recorded by', 'Witness'],
+      section.entries.map((entry) => [
+        String(entry.sequence),
+        timestamp(entry.createdAt),
+        entry.entryType,
+        entry.patient
+          ? `${entry.patient.firstName} ${entry.patient.lastName}`
+          : entry.reason || entry.reference || entry.batchNumbers || '',
+        entry.quantity > 0 ? String(entry.quantity) : '',
+        entry.quantity < 0 ? String(-entry.quantity) : '',
+        String(entry.balance),
+        person(entry.recorder),
+        person(entry.witness),
+      ]),
+      [0.05, 0.14, 0.11, 0.2, 0.06, 0.06, 0.08, 0.15, 0.15],
+      [false, false, false, false, true, true, true, false, false]
+    );
+
+    doc.font('Helvetica-Bold').fontSize(9).fillColor('#333333')
+      .text(`Balance carried forward: ${section.closingBalance}`, 50, doc.y);
+  });
+
+  drawFooter(doc, branding, `Controlled drug register, ${period.startDate} to ${period.endDate} - entries cannot be altered`);
+
+  return toBuffer(doc);
+};
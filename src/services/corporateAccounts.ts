@@ -0,0 +1,330 @@
+/**
+ * Corporate Accounts
+ *
+ * Companies that retain the hospital for their staff. Enrolled employees and
+ * dependants have their bills routed to the account at checkout: the account's
+ * share (coveragePercent) goes in payerAmount and is billed on credit up to the
+ * account's limit, while any remainder stays with the patient as co-pay. The
+ * company settles monthly against a consolidated statement, and each payment
+ * is spread back over the routed bills.
+ */
+
+import { PaymentMethod, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { resolveBillingStatus, splitBillAmount } from '../utils/billing';
+import { startOfLocalDay } from '../utils/dates';
+import { nextDocumentNumber } from './documentNumbers';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a corporate billing operation is not allowed; carries the HTTP status to relay.
+ */
+export class CorporateAccountError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CorporateAccountError';
+    this.status = status;
+  }
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * The account a patient is currently enrolled on, if any and if it is active.
+ */
+export const findActiveMembership = (db: Db, patientId: string) =>
+  db.corporateMember.findFirst({
+    where: { patientId, active: true, corporateAccount: { status: 'ACTIVE' } },
+    include: { corporateAccount: true },
+  });
+
+/**
+ * Routed bills with what the account still owes on each, oldest first.
+ */
+const billsWithDues = async (db: Db, corporateAccountId: string, billIds?: string[]) => {
+  const bills = await db.billingRecord.findMany({
+    where: {
+      corporateAccountId,
+      status: { not: 'CANCELLED' },
+      ...(billIds && { id: { in: billIds } }),
+    },
+    include: { payments: { where: { corporatePaymentId: { not: null } }, select: { amount: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return bills.map((bill) => ({
+    bill,
+    due: roundMoney(Math.max(bill.payerAmount - bill.payments.reduce((sum, payment) => sum + payment.amount, 0), 0)),
+  }));
+};
+
+export const accountOutstanding = async (db: Db, corporateAccountId: string): Promise<number> => {
+  const bills = await billsWithDues(db, corporateAccountId);
+  return roundMoney(bills.reduce((sum, { due }) => sum + due, 0));
+};
+
+/**
+ * Route a bill to a corporate account, re-splitting it by the account's
+ * coverage. Refused when the patient is not enrolled, the bill belongs to an
+ * insurer, or the account's share would go over its credit limit.
+ */
+export const routeBillToAccount = async (db: Db, billingRecordId: string, corporateAccountId: string) => {
+  const bill = await db.billingRecord.findUniqueOrThrow({ where: { id: billingRecordId } });
+
+  if (bill.status === 'CANCELLED' || bill.status === 'PAID') {
+    throw new CorporateAccountError(`Cannot route a ${bill.status} bill`);
+  }
+
+  if (bill.insuranceProvider || bill.claimId) {
+    throw new CorporateAccountError('Insured bills are claimed from the insurer, not a corporate account');
+  }
+
+  if (bill.corporateAccountId && bill.corporateAccountId !== corporateAccountId) {
+    throw new CorporateAccountError('Bill is already routed to another corporate account', 409);
+  }
+
+  const account = await db.corporateAccount.findUnique({ where: { id: corporateAccountId } });
+
+  if (!account || account.hospitalId !== bill.hospitalId) {
+    throw new CorporateAccountError('Corporate account not found', 404);
+  }
+
+  if (account.status !== 'ACTIVE') {
+    throw new CorporateAccountError(`Corporate account is ${account.status}`);
+  }
+
+  const member = await db.corporateMember.findFirst({
+    where: { corporateAccountId, patientId: bill.patientId, active: true },
+  });
+
+  if (!member) {
+    throw new CorporateAccountError('Patient is not enrolled on this corporate account');
+  }
+
+  const shares = splitBillAmount(bill.totalAmount, account.id, account.coveragePercent);
+
+  if (account.creditLimit !== null) {
+    // Re-routing the same bill should not count its share twice
+    const outstanding = await accountOutstanding(db, account.id);
+    const current = bill.corporateAccountId === account.id ? bill.payerAmount : 0;
+
+    if (outstanding - current + shares.payerAmount > account.creditLimit + 0.005) {
+      throw new CorporateAccountError(
+        `Bill would take ${account.name} over its credit limit of ${account.creditLimit} (outstanding ${outstanding})`
+      );
+    }
+  }
+
+  return db.billingRecord.update({
+    where: { id: billingRecordId },
+    data: {
+      corporateAccountId: account.id,
+      corporateCoverage: account.coveragePercent,
+      ...shares,
+      status: resolveBillingStatus(bill.totalAmount, bill.paidAmount, bill.status),
+    },
+    include: {
+      items: true,
+      payments: true,
+      corporateAccount: { select: { id: true, code: true, name: true } },
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+};
+
+/**
+ * Record a payment from the account and allocate it across routed bills:
+ * to the bills given in `allocations`, else oldest first.
+ */
+export const recordCorporatePayment = async (
+  corporateAccountId: string,
+  input: {
+    amount: number;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+    receivedAt?: Date;
+    allocations?: { billingRecordId: string; amount: number }[];
+  },
+  userId: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const account = await tx.corporateAccount.findUniqueOrThrow({ where: { id: corporateAccountId } });
+    const dues = await billsWithDues(tx, corporateAccountId, input.allocations?.map((a) => a.billingRecordId));
+
+    let plan: { bill: (typeof dues)[number]['bill']; amount: number }[];
+
+    if (input.allocations) {
+      // Each bill once, so every allocation is checked against what is really due
+      const billIds = input.allocations.map((allocation) => allocation.billingRecordId);
+      if (new Set(billIds).size !== billIds.length) {
+        throw new CorporateAccountError('Each bill can be allocated only once per payment');
+      }
+
+      plan = input.allocations.map((allocation) => {
+        const entry = dues.find(({ bill }) => bill.id === allocation.billingRecordId);
+        if (!entry) {
+          throw new CorporateAccountError(`Bill ${allocation.billingRecordId} is not on this account`, 404);
+        }
+        if (allocation.amount > entry.due + 0.005) {
+          throw new CorporateAccountError(`Allocation exceeds the ${entry.due} due on ${entry.bill.invoiceNumber || entry.bill.id}`);
+        }
+        return { bill: entry.bill, amount: allocation.amount };
+      });
+
+      const allocated = plan.reduce((sum, line) => sum + line.amount, 0);
+      if (Math.abs(allocated - input.amount) > 0.005) {
+        throw new CorporateAccountError('Allocations must add up to the payment amount');
+      }
+    } else {
+      const outstanding = dues.reduce((sum, { due }) => sum + due, 0);
+      if (input.amount > outstanding + 0.005) {
+        throw new CorporateAccountError(`Payment exceeds the ${roundMoney(outstanding)} outstanding on the account`);
+      }
+
+      let remaining = input.amount;
+      plan = [];
+      for (const { bill, due } of dues) {
+        if (remaining <= 0) break;
+        const amount = roundMoney(Math.min(due, remaining));
+        if (amount <= 0) continue;
+        plan.push({ bill, amount });
+        remaining -= amount;
+      }
+    }
+
+    const corporatePayment = await tx.corporatePayment.create({
+      data: {
+        corporateAccountId,
+        amount: input.amount,
+        method: input.method,
+        reference: input.reference,
+        notes: input.notes,
+        receivedAt: input.receivedAt,
+        receiptNumber: await nextDocumentNumber(tx, account.hospitalId, 'RECEIPT'),
+        receivedBy: userId,
+      },
+    });
+
+    const allocations = [];
+    for (const { bill, amount } of plan) {
+      await tx.payment.create({
+        data: {
+          billingRecordId: bill.id,
+          amount,
+          method: input.method,
+          reference: input.reference || corporatePayment.receiptNumber,
+          receiptNumber: await nextDocumentNumber(tx, account.hospitalId, 'RECEIPT'),
+          receivedBy: userId,
+          corporatePaymentId: corporatePayment.id,
+        },
+      });
+
+      // Increment so payments landing on the bill at the same time are not lost
+      const updated = await tx.billingRecord.update({
+        where: { id: bill.id },
+        data: { paidAmount: { increment: amount } },
+      });
+      await tx.billingRecord.update({
+        where: { id: bill.id },
+        data: { status: resolveBillingStatus(updated.totalAmount, updated.paidAmount, updated.status) },
+      });
+
+      allocations.push({ billingRecordId: bill.id, invoiceNumber: bill.invoiceNumber, amount });
+    }
+
+    return { corporatePayment, allocations };
+  });
+
+/**
+ * Consolidated statement for a calendar month (YYYY-MM) in the hospital's
+ * timezone: balance brought forward, bills routed in the month, payments
+ * received, and the balance due by the account's payment terms.
+ */
+export const corporateStatement = async (corporateAccountId: string, month: string, timezone: string) => {
+  const account = await prisma.corporateAccount.findUniqueOrThrow({ where: { id: corporateAccountId } });
+
+  const [year, monthNumber] = month.split('-').map((part) => parseInt(part, 10));
+  const next = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+  const start = startOfLocalDay(`${month}-01`, timezone);
+  const end = startOfLocalDay(`${next}-01`, timezone);
+
+  const [chargedBefore, paidBefore, bills, payments] = await Promise.all([
+    prisma.billingRecord.aggregate({
+      where: { corporateAccountId, status: { not: 'CANCELLED' }, createdAt: { lt: start } },
+      _sum: { payerAmount: true },
+    }),
+    prisma.corporatePayment.aggregate({
+      where: { corporateAccountId, receivedAt: { lt: start } },
+      _sum: { amount: true },
+    }),
+    prisma.billingRecord.findMany({
+      where: { corporateAccountId, status: { not: 'CANCELLED' }, createdAt: { gte: start, lt: end } },
+      include: {
+        patient: { select: { id: true, firstName: true, lastName: true } },
+        payments: { where: { corporatePaymentId: { not: null } }, select: { amount: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.corporatePayment.findMany({
+      where: { corporateAccountId, receivedAt: { gte: start, lt: end } },
+      orderBy: { receivedAt: 'asc' },
+    }),
+  ]);
+
+  const members = await prisma.corporateMember.findMany({
+    where: { corporateAccountId, patientId: { in: bills.map((bill) => bill.patientId) } },
+    select: { patientId: true, employeeNumber: true, relationship: true },
+  });
+  const memberByPatient = new Map(members.map((member) => [member.patientId, member]));
+
+  const openingBalance = roundMoney((chargedBefore._sum.payerAmount || 0) - (paidBefore._sum.amount || 0));
+  const charges = roundMoney(bills.reduce((sum, bill) => sum + bill.payerAmount, 0));
+  const received = roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+  return {
+    account: {
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      contactName: account.contactName,
+      contactEmail: account.contactEmail,
+      address: account.address,
+      paymentTermsDays: account.paymentTermsDays,
+    },
+    month,
+    periodStart: start,
+    periodEnd: end,
+    openingBalance,
+    charges,
+    payments: received,
+    closingBalance: roundMoney(openingBalance + charges - received),
+    dueDate: new Date(end.getTime() + account.paymentTermsDays * 24 * 60 * 60 * 1000),
+    bills: bills.map((bill) => {
+      const paid = bill.payments.reduce((sum, payment) => sum + payment.amount, 0);
+      const member = memberByPatient.get(bill.patientId);
+      return {
+        id: bill.id,
+        invoiceNumber: bill.invoiceNumber,
+        date: bill.createdAt,
+        patient: bill.patient,
+        employeeNumber: member?.employeeNumber,
+        relationship: member?.relationship,
+        totalAmount: bill.totalAmount,
+        accountShare: bill.payerAmount,
+        paid: roundMoney(paid),
+        due: roundMoney(Math.max(bill.payerAmount - paid, 0)),
+      };
+    }),
+    receipts: payments,
+  };
+};
@@ -0,0 +1,222 @@
+/**
+ * Dispensing
+ *
+ * Dispenses what a prescription still owes in one transaction, recorded as a
+ * DispenseEvent. Items linked to stock through their formulary drug are drawn
+ * from the inventory batches and costed; off-formulary and unstocked drugs are
+ * handed over without a stock movement. A shortfall refuses the dispense unless
+ * partial dispensing is asked for, in which case short items go out with what
+ * is on the shelf and the prescription stays PARTIALLY_DISPENSED until the rest
+ * is collected. Controlled drugs go out only with a witness's co-signature and
+ * are entered in the controlled-drug register against the patient. The first
+ * supply of a repeat prescription sets when its first refill falls due.
+ */
+
+import { Prisma, PrescriptionItem } from '@prisma/client';
+import { prisma } from '../db';
+import { StockChange, StockIssueLine, availableStock, issueStock } from './inventory';
+
+/**
+ * Raised when a prescription cannot be dispensed; carries the HTTP status to relay.
+ */
+export class DispensingError extends Error {
+  status: number;
+  shortages?: { itemId: string; medicationName: string; requested: number; available: number }[];
+
+  constructor(message: string, status = 400, shortages?: DispensingError['shortages']) {
+    super(message);
+    this.name = 'DispensingError';
+    this.status = status;
+    this.shortages = shortages;
+  }
+}
+
+export interface DispensedItem {
+  itemId: string;
+  dispenseEventItemId: string | null;
+  medicationName: string;
+  requested: number; // Still owed before this dispense
+  dispensed: number;
+  shortfall: number; // Still owed after it
+  cost: number; // Cost of goods from the batches drawn; 0 when not stock-tracked
+  stockTracked: boolean;
+  batches: StockIssueLine[];
+}
+
+type Db = Prisma.TransactionClient;
+
+export interface DispenseOptions {
+  allowPartial?: boolean;
+  notes?: string;
+  witnessedBy?: string | null;
+}
+
+const DISPENSABLE_STATUSES = ['PENDING', 'PARTIALLY_DISPENSED'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Units of an item not yet handed over.
+ */
+export const remainingQuantity = (item: Pick<PrescriptionItem, 'quantity' | 'dispensedQuantity'>): number =>
+  Math.max(item.quantity - item.dispensedQuantity, 0);
+
+/**
+ * Dispense within the caller's transaction; see dispenseFromStock.
+ */
+export const dispenseInTransaction = async (
+  tx: Db,
+  prescriptionId: string,
+  userId: string,
+  options: DispenseOptions = {}
+) => {
+  const prescription = await tx.prescription.findUniqueOrThrow({
+    where: { id: prescriptionId },
+    include: {
+      items: {
+        include: {
+          formularyDrug: {
+            select: { inventoryItemId: true, controlled: true, inventoryItem: { select: { controlled: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!DISPENSABLE_STATUSES.includes(prescription.status)) {
+    throw new DispensingError(`Prescription is ${prescription.status.toLowerCase().replace('_', ' ')}`);
+  }
+
+  const controlled = prescription.items.filter(
+    (item) =>
+      remainingQuantity(item) > 0 && (item.formularyDrug?.controlled || item.formularyDrug?.inventoryItem?.controlled)
+  );
+  if (controlled.length > 0 && !options.witnessedBy) {
+    throw new DispensingError(
+      `Controlled drugs need a witness to co-sign: ${controlled.map((item) => item.medicationName).join(', ')}`
+    );
+  }
+
+  const event = await tx.dispenseEvent.create({
+    data: { prescriptionId, dispensedBy: userId, witnessedBy: options.witnessedBy || undefined, notes: options.notes },
+  });
+
+  const dispensed: DispensedItem[] = [];
+  const changes: StockChange[] = [];
+  const shortages: NonNullable<DispensingError['shortages']> = [];
+
+  for (const item of prescription.items) {
+    const owed = remainingQuantity(item);
+    if (owed === 0) continue;
+
+    const inventoryItemId = item.formularyDrug?.inventoryItemId;
+    const quantity = inventoryItemId ? Math.min(owed, await availableStock(tx, inventoryItemId)) : owed;
+
+    if (quantity < owed) {
+      shortages.push({ itemId: item.id, medicationName: item.medicationName, requested: owed, available: quantity });
+    }
+
+    if (quantity === 0) {
+      dispensed.push({
+        itemId: item.id,
+        dispenseEventItemId: null,
+        medicationName: item.medicationName,
+        requested: owed,
+        dispensed: 0,
+        shortfall: owed,
+        cost: 0,
+        stockTracked: true,
+        batches: [],
+      });
+      continue;
+    }
+
+    const line = await tx.dispenseEventItem.create({
+      data: { dispenseEventId: event.id, prescriptionItemId: item.id, quantity },
+    });
+
+    let cost = 0;
+    let batches: StockIssueLine[] = [];
+
+    if (inventoryItemId) {
+      const issue = await issueStock(tx, inventoryItemId, quantity, {
+        userId,
+        prescriptionItemId: item.id,
+        dispenseEventItemId: line.id,
+        register: {
+          type: 'DISPENSE',
+          witnessedBy: options.witnessedBy,
+          patientId: prescription.patientId,
+          prescriptionId,
+          reference: event.id,
+        },
+      });
+      if (issue.change) changes.push(issue.change);
+      cost = issue.cost;
+      batches = issue.lines;
+
+      await tx.dispenseEventItem.update({ where: { id: line.id }, data: { cost } });
+    }
+
+    // Guard against another dispense of the same item since it was read
+    const { count } = await tx.prescriptionItem.updateMany({
+      where: { id: item.id, dispensedQuantity: item.dispensedQuantity },
+      data: { dispensedQuantity: { increment: quantity } },
+    });
+    if (count === 0) {
+      throw new DispensingError('Prescription changed while dispensing; please try again', 409);
+    }
+
+    dispensed.push({
+      itemId: item.id,
+      dispenseEventItemId: line.id,
+      medicationName: item.medicationName,
+      requested: owed,
+      dispensed: quantity,
+      shortfall: owed - quantity,
+      cost,
+      stockTracked: !!inventoryItemId,
+      batches,
+    });
+  }
+
+  // Throwing rolls back whatever was drawn for the other items
+  if (shortages.length > 0 && !options.allowPartial) {
+    throw new DispensingError('Insufficient stock to dispense in full', 409, shortages);
+  }
+  if (dispensed.every((item) => item.dispensed === 0)) {
+    throw new DispensingError('Nothing owed on this prescription is in stock', 409, shortages);
+  }
+
+  const cost = roundMoney(dispensed.reduce((sum, item) => sum + item.cost, 0));
+  await tx.dispenseEvent.update({ where: { id: event.id }, data: { cost } });
+
+  const complete = prescription.items.every(
+    (item) => remainingQuantity(item) === (dispensed.find((line) => line.itemId === item.id)?.dispensed || 0)
+  );
+
+  // A repeat's first refill falls due once this supply has run its course
+  const firstSupply = prescription.status === 'PENDING' && prescription.refillsAllowed > 0 && prescription.refillIntervalDays !== null;
+
+  const updated = await tx.prescription.update({
+    where: { id: prescriptionId },
+    data: {
+      status: complete ? 'DISPENSED' : 'PARTIALLY_DISPENSED',
+      ...(firstSupply && { nextRefillDue: new Date(Date.now() + prescription.refillIntervalDays! * DAY_MS) }),
+    },
+    include: {
+      items: { include: { formularyDrug: true } },
+      patient: { select: { id: true, firstName: true, lastName: true } },
+    },
+  });
+
+  return { prescription: updated, dispenseEventId: event.id, dispensed, changes, cost };
+};
+
+/**
+ * Dispense everything a prescription still owes that stock allows, as one
+ * dispense event. Returns what went out per item and the stock changes to announce.
+ */
+export const dispenseFromStock = (prescriptionId: string, userId: string, options: DispenseOptions = {}) =>
+  prisma.$transaction((tx) => dispenseInTransaction(tx, prescriptionId, userId, options));
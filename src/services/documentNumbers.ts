@@ -0,0 +1,117 @@
+/**
+ * Document Numbers
+ *
+ * Human-readable invoice and receipt numbers (INV-2026-000123), counted per
+ * hospital and per year. A number is drawn in the same transaction that
+ * creates the bill or payment, so a rolled-back write never leaves a gap.
+ *
+ * Prefixes come from `settings.numbering.invoicePrefix` / `receiptPrefix`
+ * (letters, digits and dashes; defaults INV and RCT).
+ */
+
+import { DocumentType, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { hospitalTimezone, localDateKey } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+
+type Db = Prisma.TransactionClient;
+
+const DEFAULT_PREFIXES: Record<DocumentType, string> = {
+  INVOICE: 'INV',
+  RECEIPT: 'RCT',
+};
+
+const PREFIX_SETTINGS: Record<DocumentType, string> = {
+  INVOICE: 'invoicePrefix',
+  RECEIPT: 'receiptPrefix',
+};
+
+export const documentPrefix = (settings: Record<string, any>, type: DocumentType): string => {
+  const prefix = settings.numbering?.[PREFIX_SETTINGS[type]];
+  return typeof prefix === 'string' && /^[A-Za-z0-9-]{1,12}$/.test(prefix)
+    ? prefix.toUpperCase()
+    : DEFAULT_PREFIXES[type];
+};
+
+export const formatDocumentNumber = (prefix: string, year: number, value: number): string =>
+  `${prefix}-${year}-${String(value).padStart(6, '0')}`;
+
+/**
+ * Draw the next number in the hospital's sequence. Must run inside the
+ * transaction that saves the number: the row lock taken by the increment
+ * serialises concurrent callers until that transaction commits.
+ */
+export const nextDocumentNumber = async (
+  tx: Db,
+  hospitalId: string,
+  type: DocumentType,
+  at: Date = new Date()
+): Promise<string> => {
+  const settings = await getHospitalSettings(hospitalId);
+  const year = parseInt(localDateKey(at, hospitalTimezone(settings)).slice(0, 4), 10);
+
+  // Prisma runs this as INSERT ... ON CONFLICT DO UPDATE, so the first
+  // number of a new year is safe under concurrency too
+  const sequence = await tx.documentSequence.upsert({
+    where: { hospitalId_type_year: { hospitalId, type, year } },
+    create: { hospitalId, type, year, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  return formatDocumentNumber(documentPrefix(settings, type), year, sequence.lastNumber);
+};
+
+/**
+ * The bill's invoice number. Bills created before numbering existed get one
+ * the first time they are printed.
+ */
+export const ensureInvoiceNumber = async (billingRecordId: string): Promise<string> => {
+  return prisma.$transaction(async (tx) => {
+    const bill = await tx.billingRecord.findUniqueOrThrow({ where: { id: billingRecordId } });
+    if (bill.invoiceNumber) return bill.invoiceNumber;
+
+    const invoiceNumber = await nextDocumentNumber(tx, bill.hospitalId, 'INVOICE');
+    const { count } = await tx.billingRecord.updateMany({
+      where: { id: billingRecordId, invoiceNumber: null },
+      data: { invoiceNumber },
+    });
+
+    // Someone else numbered it first; roll back so our number is not lost
+    if (count === 0) {
+      throw new Error('Invoice number already assigned concurrently');
+    }
+    return invoiceNumber;
+  }).catch(async (error) => {
+    const bill = await prisma.billingRecord.findUnique({ where: { id: billingRecordId } });
+    if (bill?.invoiceNumber) return bill.invoiceNumber;
+    throw error;
+  });
+};
+
+/**
+ * The payment's receipt number, issued on first print for older payments.
+ */
+export const ensureReceiptNumber = async (paymentId: string): Promise<string> => {
+  return prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { billingRecord: { select: { hospitalId: true } } },
+    });
+    if (payment.receiptNumber) return payment.receiptNumber;
+
+    const receiptNumber = await nextDocumentNumber(tx, payment.billingRecord.hospitalId, 'RECEIPT');
+    const { count } = await tx.payment.updateMany({
+      where: { id: paymentId, receiptNumber: null },
+      data: { receiptNumber },
+    });
+
+    if (count === 0) {
+      throw new Error('Receipt number already assigned concurrently');
+    }
+    return receiptNumber;
+  }).catch(async (error) => {
+    const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
+    if (payment?.receiptNumber) return payment.receiptNumber;
+    throw error;
+  });
+};
@@ -0,0 +1,311 @@
+/**
+ * Dosing
+ *
+ * Checks structured doses against the dose ranges held for formulary drugs.
+ * The range is picked by the patient's age, their latest recorded weight and
+ * the route; weight-based ranges are scaled by that weight. Findings are
+ * warnings for the prescriber, not refusals.
+ *
+ * Configured in `settings.dosing`:
+ *   weightMaxAgeDays - weights older than this are flagged when dosing by weight (default 30)
+ */
+
+import { DoseRange, DoseUnit, DrugRoute, FrequencyCode, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+type Db = Prisma.TransactionClient;
+
+export const DOSE_UNITS: DoseUnit[] = ['MCG', 'MG', 'G', 'ML', 'IU', 'UNITS', 'TABLET', 'CAPSULE', 'DROP', 'PUFF'];
+
+export const DRUG_ROUTES: DrugRoute[] = ['ORAL', 'IV', 'IM', 'SC', 'TOPICAL', 'INHALED', 'RECTAL', 'SUBLINGUAL', 'OPHTHALMIC', 'OTIC', 'NASAL', 'OTHER'];
+
+export const FREQUENCY_LABELS: Record<FrequencyCode, string> = {
+  STAT: 'Immediately, once',
+  OD: 'Once daily',
+  BD: 'Twice daily',
+  TDS: 'Three times daily',
+  QDS: 'Four times daily',
+  Q4H: 'Every 4 hours',
+  Q6H: 'Every 6 hours',
+  Q8H: 'Every 8 hours',
+  Q12H: 'Every 12 hours',
+  NOCTE: 'At night',
+  WEEKLY: 'Once weekly',
+  PRN: 'When required',
+};
+
+export const isDoseUnit = (value: unknown): value is DoseUnit =>
+  typeof value === 'string' && (DOSE_UNITS as string[]).includes(value);
+
+export const isDrugRoute = (value: unknown): value is DrugRoute =>
+  typeof value === 'string' && (DRUG_ROUTES as string[]).includes(value);
+
+export const isFrequencyCode = (value: unknown): value is FrequencyCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(FREQUENCY_LABELS, value);
+
+// Doses in a day; PRN has no fixed count so is not checked against daily maxima
+export const DOSES_PER_DAY: Record<FrequencyCode, number | null> = {
+  STAT: 1,
+  OD: 1,
+  BD: 2,
+  TDS: 3,
+  QDS: 4,
+  Q4H: 6,
+  Q6H: 4,
+  Q8H: 3,
+  Q12H: 2,
+  NOCTE: 1,
+  WEEKLY: 1 / 7,
+  PRN: null,
+};
+
+// Mass units convert between each other; anything else must match the range's unit
+const MG_PER_UNIT: Partial<Record<DoseUnit, number>> = { MCG: 0.001, MG: 1, G: 1000 };
+
+export interface StructuredDose {
+  doseAmount?: number | null;
+  doseUnit?: DoseUnit | null;
+  route?: DrugRoute | null;
+  frequencyCode?: FrequencyCode | null;
+  durationDays?: number | null;
+}
+
+export interface DosingPatient {
+  ageMonths: number;
+  weightKg: number | null;
+  weighedAt: Date | null;
+  weightStale: boolean;
+}
+
+export type DoseWarningType =
+  | 'UNDERDOSE'
+  | 'OVERDOSE'
+  | 'DAILY_OVERDOSE'
+  | 'WEIGHT_REQUIRED'
+  | 'STALE_WEIGHT'
+  | 'UNIT_MISMATCH'
+  | 'NO_RANGE';
+
+export interface DoseWarning {
+  medicationName: string;
+  type: DoseWarningType;
+  message: string;
+  dose?: number;
+  limit?: number;
+  unit?: DoseUnit;
+}
+
+// The range's limits worked out for this patient, in the range's unit
+export interface DoseCalculation {
+  medicationName: string;
+  formularyDrugId: string;
+  doseRangeId: string;
+  basis: DoseRange['basis'];
+  unit: DoseUnit;
+  weightKg: number | null;
+  minDose: number | null;
+  maxDose: number | null;
+  maxDailyDose: number | null;
+  notes: string | null;
+}
+
+const roundDose = (amount: number): number => Math.round(amount * 100) / 100;
+
+const unitLabel = (unit: DoseUnit): string => unit.toLowerCase();
+
+/**
+ * Free-text dosage, frequency and duration for a structured dose, so
+ * prescriptions read the same however they were written.
+ */
+export const describeDose = (dose: StructuredDose) => ({
+  dosage: dose.doseAmount != null && dose.doseUnit ? `${dose.doseAmount} ${unitLabel(dose.doseUnit)}` : undefined,
+  frequency: dose.frequencyCode ? FREQUENCY_LABELS[dose.frequencyCode] : undefined,
+  duration: dose.durationDays ? `${dose.durationDays} day${dose.durationDays === 1 ? '' : 's'}` : undefined,
+});
+
+/**
+ * A dose in another unit, or null when the units cannot be compared.
+ */
+export const convertDose = (amount: number, from: DoseUnit, to: DoseUnit): number | null => {
+  if (from === to) return amount;
+  const fromMg = MG_PER_UNIT[from];
+  const toMg = MG_PER_UNIT[to];
+  return fromMg !== undefined && toMg !== undefined ? (amount * fromMg) / toMg : null;
+};
+
+export const ageInMonths = (dateOfBirth: Date, now: Date = new Date()): number => {
+  const months = (now.getFullYear() - dateOfBirth.getFullYear()) * 12 + (now.getMonth() - dateOfBirth.getMonth());
+  return now.getDate() < dateOfBirth.getDate() ? months - 1 : months;
+};
+
+/**
+ * Age and the most recently recorded weight, as dosing needs them.
+ */
+export const dosingPatient = async (
+  patientId: string,
+  settings: Record<string, any>,
+  db: Db = prisma,
+  now: Date = new Date()
+): Promise<DosingPatient> => {
+  const patient = await db.patient.findUniqueOrThrow({ where: { id: patientId }, select: { dateOfBirth: true } });
+  const vitals = await db.vitalSigns.findFirst({
+    where: { patientId, weight: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    select: { weight: true, createdAt: true },
+  });
+
+  const maxAgeDays = Number(settings.dosing?.weightMaxAgeDays) || 30;
+
+  return {
+    ageMonths: ageInMonths(patient.dateOfBirth, now),
+    weightKg: vitals?.weight ?? null,
+    weighedAt: vitals?.createdAt ?? null,
+    weightStale: !!vitals && now.getTime() - vitals.createdAt.getTime() > maxAgeDays * 86400000,
+  };
+};
+
+const inBand = (value: number, min: number | null, max: number | null): boolean =>
+  (min === null || value >= min) && (max === null || value < max);
+
+const usesWeight = (range: DoseRange): boolean =>
+  range.basis === 'PER_KG' || range.minWeightKg !== null || range.maxWeightKg !== null;
+
+/**
+ * The range that applies to a patient, preferring one written for the route given.
+ */
+export const selectDoseRange = (
+  ranges: DoseRange[],
+  patient: Pick<DosingPatient, 'ageMonths' | 'weightKg'>,
+  route?: DrugRoute | null
+): DoseRange | null =>
+  ranges
+    .filter(
+      (range) =>
+        inBand(patient.ageMonths, range.minAgeMonths, range.maxAgeMonths) &&
+        (range.minWeightKg === null && range.maxWeightKg === null
+          ? true
+          : patient.weightKg !== null && inBand(patient.weightKg, range.minWeightKg, range.maxWeightKg)) &&
+        (range.route === null || !route || range.route === route)
+    )
+    .sort((a, b) => Number(b.route !== null) - Number(a.route !== null))[0] || null;
+
+/**
+ * A range's limits for one patient: weight-based doses scaled and capped.
+ */
+export const doseLimits = (range: DoseRange, weightKg: number | null) => {
+  const scale = range.basis === 'PER_KG' ? weightKg ?? 0 : 1;
+  const scaled = (value: number | null) => (value === null ? null : roundDose(value * scale));
+
+  let maxDose = scaled(range.maxDose);
+  if (range.absoluteMaxDose !== null) {
+    maxDose = maxDose === null ? range.absoluteMaxDose : Math.min(maxDose, range.absoluteMaxDose);
+  }
+
+  return { minDose: scaled(range.minDose), maxDose, maxDailyDose: scaled(range.maxDailyDose) };
+};
+
+/**
+ * Work out the dose limits for each formulary item and flag structured doses
+ * that fall outside them. Items without a formulary drug or without ranges
+ * are not checked.
+ */
+export const checkDoses = async (
+  items: (StructuredDose & { medicationName: string; formularyDrugId?: string | null })[],
+  patient: DosingPatient,
+  db: Db = prisma
+): Promise<{ calculations: DoseCalculation[]; warnings: DoseWarning[] }> => {
+  const drugIds = [...new Set(items.map((item) => item.formularyDrugId).filter((id): id is string => !!id))];
+  const ranges = drugIds.length ? await db.doseRange.findMany({ where: { formularyDrugId: { in: drugIds } } }) : [];
+
+  const calculations: DoseCalculation[] = [];
+  const warnings: DoseWarning[] = [];
+
+  for (const item of items) {
+    const drugRanges = ranges.filter((range) => range.formularyDrugId === item.formularyDrugId);
+    if (!item.formularyDrugId || drugRanges.length === 0) continue;
+
+    const { medicationName } = item;
+    const range = selectDoseRange(drugRanges, patient, item.route);
+
+    if (!range || (range.basis === 'PER_KG' && patient.weightKg === null)) {
+      warnings.push(
+        patient.weightKg === null && drugRanges.some(usesWeight)
+          ? { medicationName, type: 'WEIGHT_REQUIRED', message: 'Record a weight to check this dose' }
+          : { medicationName, type: 'NO_RANGE', message: "No dose range covers this patient's age, weight and route" }
+      );
+      continue;
+    }
+
+    if (range.basis === 'PER_KG' && patient.weightStale) {
+      warnings.push({
+        medicationName,
+        type: 'STALE_WEIGHT',
+        message: `Dose is based on a weight of ${patient.weightKg} kg recorded ${patient.weighedAt!.toISOString().slice(0, 10)}`,
+      });
+    }
+
+    const limits = doseLimits(range, patient.weightKg);
+    calculations.push({
+      medicationName,
+      formularyDrugId: item.formularyDrugId,
+      doseRangeId: range.id,
+      basis: range.basis,
+      unit: range.unit,
+      weightKg: range.basis === 'PER_KG' ? patient.weightKg : null,
+      ...limits,
+      notes: range.notes,
+    });
+
+    if (item.doseAmount == null || !item.doseUnit) continue;
+
+    const dose = convertDose(item.doseAmount, item.doseUnit, range.unit);
+    if (dose === null) {
+      warnings.push({
+        medicationName,
+        type: 'UNIT_MISMATCH',
+        message: `Dose in ${unitLabel(item.doseUnit)} cannot be checked against a range in ${unitLabel(range.unit)}`,
+      });
+      continue;
+    }
+
+    const unit = unitLabel(range.unit);
+    const basis = range.basis === 'PER_KG' ? ` for ${patient.weightKg} kg` : '';
+
+    if (limits.minDose !== null && dose < limits.minDose) {
+      warnings.push({
+        medicationName,
+        type: 'UNDERDOSE',
+        message: `${roundDose(dose)} ${unit} is below the minimum dose of ${limits.minDose} ${unit}${basis}`,
+        dose: roundDose(dose),
+        limit: limits.minDose,
+        unit: range.unit,
+      });
+    }
+
+    if (limits.maxDose !== null && dose > limits.maxDose) {
+      warnings.push({
+        medicationName,
+        type: 'OVERDOSE',
+        message: `${roundDose(dose)} ${unit} exceeds the maximum dose of ${limits.maxDose} ${unit}${basis}`,
+        dose: roundDose(dose),
+        limit: limits.maxDose,
+        unit: range.unit,
+      });
+    }
+
+    const perDay = item.frequencyCode ? DOSES_PER_DAY[item.frequencyCode] : null;
+    if (perDay !== null && limits.maxDailyDose !== null && dose * perDay > limits.maxDailyDose) {
+      const daily = roundDose(dose * perDay);
+      warnings.push({
+        medicationName,
+        type: 'DAILY_OVERDOSE',
+        message: `${daily} ${unit} a day exceeds the daily maximum of ${limits.maxDailyDose} ${unit}${basis}`,
+        dose: daily,
+        limit: limits.maxDailyDose,
+        unit: range.unit,
+      });
+    }
+  }
+
+  return { calculations, warnings };
+};
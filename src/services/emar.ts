@@ -0,0 +1,376 @@
+/**
+ * Medication administration record (eMAR)
+ *
+ * Expands an admission's prescriptions into doses at the ward's standard
+ * times and records what happened to each one: given, held or refused.
+ * Expansion covers a window either side of now and is idempotent (one dose
+ * per item per time), so the scheduling job and every read of the record can
+ * run it. STAT items get a single dose when prescribed; PRN items and items
+ * without a frequency code are not scheduled and are recorded when given.
+ *
+ * Configured in `settings.emar`:
+ *   doseTimes    - local HH:MM times per frequency code, e.g. { "BD": ["09:00", "21:00"] }
+ *   horizonHours - how far either side of now doses are scheduled (default 24)
+ *   graceMinutes - how long after its time a dose may be given before it is overdue (default 60)
+ */
+
+import { FrequencyCode, MedicationDoseStatus, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { hospitalTimezone, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+
+type Db = Prisma.TransactionClient;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Doses may be charted a little ahead of the server clock
+const CLOCK_SKEW_MS = 5 * MINUTE_MS;
+
+const DEFAULT_DOSE_TIMES: Partial<Record<FrequencyCode, string[]>> = {
+  OD: ['08:00'],
+  BD: ['08:00', '20:00'],
+  TDS: ['06:00', '14:00', '22:00'],
+  QDS: ['06:00', '12:00', '18:00', '22:00'],
+  Q4H: ['02:00', '06:00', '10:00', '14:00', '18:00', '22:00'],
+  Q6H: ['00:00', '06:00', '12:00', '18:00'],
+  Q8H: ['06:00', '14:00', '22:00'],
+  Q12H: ['08:00', '20:00'],
+  NOCTE: ['22:00'],
+  WEEKLY: ['08:00'],
+};
+
+/**
+ * Raised when a dose cannot be recorded; carries the HTTP status to relay.
+ */
+export class EmarError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EmarError';
+    this.status = status;
+  }
+}
+
+export interface DoseRecordInput {
+  status: MedicationDoseStatus;
+  administeredAt?: string | Date;
+  reason?: string;
+  doseGiven?: string;
+  notes?: string;
+  nursingRoundId?: string;
+}
+
+const toMinutes = (time: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+export const emarSettings = (settings: Record<string, any>) => {
+  const configured = (settings.emar?.doseTimes || {}) as Record<string, unknown>;
+
+  const doseTimes = Object.fromEntries(
+    Object.entries(DEFAULT_DOSE_TIMES).map(([code, defaults]) => {
+      const times = Array.isArray(configured[code]) ? (configured[code] as unknown[]) : defaults!;
+      const minutes = times.map((time) => toMinutes(String(time))).filter((value): value is number => value !== null);
+      return [code, [...new Set(minutes)].sort((a, b) => a - b)];
+    })
+  ) as Partial<Record<FrequencyCode, number[]>>;
+
+  const horizonHours = Number(settings.emar?.horizonHours);
+  const graceMinutes = Number(settings.emar?.graceMinutes ?? 60);
+
+  return {
+    doseTimes,
+    horizonHours: horizonHours > 0 ? horizonHours : 24,
+    graceMinutes: graceMinutes >= 0 ? graceMinutes : 60,
+  };
+};
+
+// Scheduled doses for one item that fall in [from, to)
+const doseTimesFor = (
+  item: { frequencyCode: FrequencyCode | null },
+  start: Date,
+  from: Date,
+  to: Date,
+  doseTimes: Partial<Record<FrequencyCode, number[]>>,
+  timezone: string
+): Date[] => {
+  if (!item.frequencyCode || item.frequencyCode === 'PRN') return [];
+  if (item.frequencyCode === 'STAT') return start >= from && start < to ? [start] : [];
+
+  const minutes = doseTimes[item.frequencyCode] || [];
+  const firstDay = localDateKey(start, timezone);
+  const times: Date[] = [];
+
+  for (let day = localDateKey(from, timezone); day <= localDateKey(to, timezone); ) {
+    const dayIndex = Math.round((Date.parse(day) - Date.parse(firstDay)) / DAY_MS);
+    if (item.frequencyCode !== 'WEEKLY' || dayIndex % 7 === 0) {
+      const midnight = startOfLocalDay(day, timezone).getTime();
+      for (const minute of minutes) {
+        const at = new Date(midnight + minute * MINUTE_MS);
+        if (at >= start && at >= from && at < to) times.push(at);
+      }
+    }
+    day = new Date(Date.parse(day) + DAY_MS).toISOString().slice(0, 10);
+  }
+
+  return times;
+};
+
+// Prescriptions that belong to an admission: written on its visit or during the stay
+const admissionPrescriptionsWhere = (admission: {
+  patientId: string;
+  visitId: string | null;
+  admissionDate: Date;
+  dischargeDate: Date | null;
+}): Prisma.PrescriptionWhereInput => ({
+  patientId: admission.patientId,
+  status: { not: 'CANCELLED' },
+  OR: [
+    ...(admission.visitId ? [{ visitId: admission.visitId }] : []),
+    {
+      createdAt: {
+        gte: admission.admissionDate,
+        ...(admission.dischargeDate && { lt: admission.dischargeDate }),
+      },
+    },
+  ],
+});
+
+/**
+ * Schedule an admission's doses around now and drop scheduled doses that no
+ * longer apply (cancelled prescriptions, after discharge). Returns how many
+ * doses were added.
+ */
+export const syncAdmissionDoses = async (admissionId: string, now: Date = new Date()): Promise<number> => {
+  const admission = await prisma.admission.findUniqueOrThrow({ where: { id: admissionId } });
+  const settings = await getHospitalSettings(admission.hospitalId);
+  const timezone = hospitalTimezone(settings);
+  const { doseTimes, horizonHours } = emarSettings(settings);
+
+  await prisma.medicationDose.deleteMany({
+    where: {
+      admissionId,
+      status: 'SCHEDULED',
+      OR: [
+        { prescriptionItem: { prescription: { status: 'CANCELLED' } } },
+        ...(admission.dischargeDate ? [{ scheduledAt: { gte: admission.dischargeDate } }] : []),
+      ],
+    },
+  });
+
+  if (admission.status !== 'ADMITTED') return 0;
+
+  const prescriptions = await prisma.prescription.findMany({
+    where: admissionPrescriptionsWhere(admission),
+    include: { items: true },
+  });
+
+  const from = new Date(now.getTime() - horizonHours * HOUR_MS);
+  const until = new Date(now.getTime() + horizonHours * HOUR_MS);
+  const doses: Prisma.MedicationDoseCreateManyInput[] = [];
+
+  for (const prescription of prescriptions) {
+    const start = prescription.createdAt > admission.admissionDate ? prescription.createdAt : admission.admissionDate;
+
+    for (const item of prescription.items) {
+      const courseEnd = item.durationDays ? new Date(start.getTime() + item.durationDays * DAY_MS) : until;
+      const to = courseEnd < until ? courseEnd : until;
+
+      for (const scheduledAt of doseTimesFor(item, start, from, to, doseTimes, timezone)) {
+        doses.push({ admissionId, prescriptionItemId: item.id, scheduledAt });
+      }
+    }
+  }
+
+  if (doses.length === 0) return 0;
+
+  const { count } = await prisma.medicationDose.createMany({ data: doses, skipDuplicates: true });
+  return count;
+};
+
+/**
+ * Schedule doses for every current admission, or one hospital's. Run by the
+ * scheduling job and before overdue doses are listed.
+ */
+export const scheduleAdmissionDoses = async (hospitalId?: string, now: Date = new Date()) => {
+  const admissions = await prisma.admission.findMany({
+    where: { status: 'ADMITTED', ...(hospitalId && { hospitalId }) },
+    select: { id: true },
+  });
+
+  const summary = { admissionsChecked: admissions.length, dosesScheduled: 0, failed: 0 };
+
+  for (const admission of admissions) {
+    try {
+      summary.dosesScheduled += await syncAdmissionDoses(admission.id, now);
+    } catch (error) {
+      console.error(`[eMAR] Scheduling for admission ${admission.id} failed:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Items on an admission's prescriptions that are charted as given rather than
+ * scheduled: PRN, and anything prescribed without a frequency code.
+ */
+export const unscheduledItems = async (admissionId: string, db: Db = prisma) => {
+  const admission = await db.admission.findUniqueOrThrow({ where: { id: admissionId } });
+  const prescriptions = await db.prescription.findMany({
+    where: admissionPrescriptionsWhere(admission),
+    include: { items: { where: { OR: [{ frequencyCode: null }, { frequencyCode: 'PRN' }] } } },
+  });
+  return prescriptions.flatMap((prescription) => prescription.items);
+};
+
+// What the record shows for each dose
+export const medicationDoseInclude = {
+  prescriptionItem: {
+    select: {
+      id: true,
+      medicationName: true,
+      dosage: true,
+      frequency: true,
+      route: true,
+      doseAmount: true,
+      doseUnit: true,
+      frequencyCode: true,
+      instructions: true,
+      prescriptionId: true,
+    },
+  },
+  recorder: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.MedicationDoseInclude;
+
+/**
+ * Flag doses still outstanding past their grace period, and doses given late.
+ */
+export const annotateDose = <T extends { status: MedicationDoseStatus; scheduledAt: Date | null; administeredAt: Date | null }>(
+  dose: T,
+  graceMinutes: number,
+  now: Date = new Date()
+) => {
+  const deadline = dose.scheduledAt ? dose.scheduledAt.getTime() + graceMinutes * MINUTE_MS : null;
+  return {
+    ...dose,
+    overdue: dose.status === 'SCHEDULED' && deadline !== null && now.getTime() > deadline,
+    late: dose.status === 'GIVEN' && deadline !== null && !!dose.administeredAt && dose.administeredAt.getTime() > deadline,
+  };
+};
+
+const validateRecord = async (db: Db, admissionId: string, input: DoseRecordInput, now: Date) => {
+  if (!['GIVEN', 'HELD', 'REFUSED'].includes(input.status)) {
+    throw new EmarError('Status must be GIVEN, HELD or REFUSED');
+  }
+
+  const reason = input.reason?.trim();
+  if (input.status !== 'GIVEN' && !reason) {
+    throw new EmarError(`A reason is required when a dose is ${input.status.toLowerCase()}`);
+  }
+
+  const administeredAt = input.administeredAt ? new Date(input.administeredAt) : now;
+  if (Number.isNaN(administeredAt.getTime()) || administeredAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new EmarError('Administration time must be a valid time, not in the future');
+  }
+
+  if (input.nursingRoundId) {
+    const round = await db.nursingRound.findUnique({ where: { id: input.nursingRoundId }, select: { admissionId: true } });
+    if (!round || round.admissionId !== admissionId) {
+      throw new EmarError('Nursing round not found on this admission');
+    }
+  }
+
+  return {
+    status: input.status,
+    administeredAt,
+    reason: reason || undefined,
+    doseGiven: input.doseGiven?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+    nursingRoundId: input.nursingRoundId || undefined,
+  };
+};
+
+/**
+ * Chart a scheduled dose as given, held or refused. A dose is charted once;
+ * a second attempt is a 409.
+ */
+export const recordDose = async (
+  db: Db,
+  doseId: string,
+  input: DoseRecordInput,
+  userId: string,
+  now: Date = new Date()
+) => {
+  const dose = await db.medicationDose.findUnique({ where: { id: doseId } });
+  if (!dose) {
+    throw new EmarError('Dose not found', 404);
+  }
+
+  const data = await validateRecord(db, dose.admissionId, input, now);
+
+  // Guard against two nurses charting the same dose
+  const { count } = await db.medicationDose.updateMany({
+    where: { id: doseId, status: 'SCHEDULED' },
+    data: { ...data, recordedBy: userId },
+  });
+  if (count === 0) {
+    throw new EmarError('Dose has already been charted', 409);
+  }
+
+  return db.medicationDose.findUniqueOrThrow({ where: { id: doseId }, include: medicationDoseInclude });
+};
+
+/**
+ * Chart an unscheduled dose (PRN or no frequency code) on an admission.
+ */
+export const recordUnscheduledDose = async (
+  db: Db,
+  admissionId: string,
+  prescriptionItemId: string,
+  input: DoseRecordInput,
+  userId: string,
+  now: Date = new Date()
+) => {
+  const items = await unscheduledItems(admissionId, db);
+  if (!items.some((item) => item.id === prescriptionItemId)) {
+    throw new EmarError('Item is not an unscheduled medication on this admission');
+  }
+
+  const data = await validateRecord(db, admissionId, input, now);
+
+  return db.medicationDose.create({
+    data: { admissionId, prescriptionItemId, ...data, recordedBy: userId },
+    include: medicationDoseInclude,
+  });
+};
+
+/**
+ * Scheduled doses past their grace period on current admissions.
+ */
+export const overdueDoses = async (hospitalId: string, graceMinutes: number, now: Date = new Date()) =>
+  prisma.medicationDose.findMany({
+    where: {
+      status: 'SCHEDULED',
+      scheduledAt: { lt: new Date(now.getTime() - graceMinutes * MINUTE_MS) },
+      admission: { hospitalId, status: 'ADMITTED' },
+    },
+    include: {
+      ...medicationDoseInclude,
+      admission: {
+        select: {
+          id: true,
+          patient: { select: { id: true, firstName: true, lastName: true } },
+          ward: { select: { id: true, name: true } },
+          room: { select: { id: true, roomNumber: true } },
+          bed: { select: { id: true, bedNumber: true } },
+        },
+      },
+    },
+    orderBy: { scheduledAt: 'asc' },
+  });
@@ -0,0 +1,189 @@
+/**
+ * Formulary
+ *
+ * Resolves prescribed drugs against the hospital's formulary. Items that name
+ * a formulary drug take its label; free-text drugs are kept as typed and
+ * flagged off-formulary for pharmacy to review. A structured dose (amount,
+ * unit, route, frequency code, days) fills in the free-text dosage, frequency
+ * and duration when they are not written out. Controlled drugs must come from
+ * the formulary, so they are dispensed with a witness and registered.
+ *
+ * Configured in `settings.formulary`:
+ *   allowOffFormulary - set false to require every item to be a formulary drug (default true)
+ */
+
+import { DoseUnit, DrugRoute, FormularyDrug, FrequencyCode, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { describeDose, isDoseUnit, isDrugRoute, isFrequencyCode } from './dosing';
+import { isControlledDrugName } from './clinicalDecisionSupport';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a prescription's drugs cannot be resolved; carries the HTTP status to relay.
+ */
+export class FormularyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'FormularyError';
+    this.status = status;
+  }
+}
+
+export interface PrescriptionItemInput {
+  formularyDrugId?: string;
+  medicationName?: string;
+  quantity?: number | string;
+  dosage?: string;
+  frequency?: string;
+  duration?: string;
+  instructions?: string;
+  doseAmount?: number | string;
+  doseUnit?: DoseUnit;
+  route?: DrugRoute;
+  frequencyCode?: FrequencyCode;
+  durationDays?: number | string;
+}
+
+const optionalNumber = (value: number | string | undefined | null): number | null =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+// Validate the structured dose fields that were given
+const structuredDose = (item: PrescriptionItemInput) => {
+  const doseAmount = optionalNumber(item.doseAmount);
+  const durationDays = optionalNumber(item.durationDays);
+
+  if (doseAmount !== null && !(doseAmount > 0)) {
+    throw new FormularyError('Dose amount must be a number above zero');
+  }
+  if (doseAmount !== null && !item.doseUnit) {
+    throw new FormularyError('Dose unit is required with a dose amount');
+  }
+  if (item.doseUnit && !isDoseUnit(item.doseUnit)) {
+    throw new FormularyError(`Invalid dose unit ${item.doseUnit}`);
+  }
+  if (item.route && !isDrugRoute(item.route)) {
+    throw new FormularyError(`Invalid route ${item.route}`);
+  }
+  if (item.frequencyCode && !isFrequencyCode(item.frequencyCode)) {
+    throw new FormularyError(`Invalid frequency code ${item.frequencyCode}`);
+  }
+  if (durationDays !== null && (!Number.isInteger(durationDays) || durationDays <= 0)) {
+    throw new FormularyError('Duration must be a whole number of days above zero');
+  }
+
+  return {
+    doseAmount,
+    doseUnit: item.doseUnit || null,
+    route: item.route || null,
+    frequencyCode: item.frequencyCode || null,
+    durationDays,
+  };
+};
+
+export const formularySettings = (settings: Record<string, any>) => ({
+  allowOffFormulary: settings.formulary?.allowOffFormulary !== false,
+});
+
+/**
+ * How a formulary drug reads on a prescription, e.g. "Amoxicillin 500mg capsule (Amoxil)".
+ */
+export const drugLabel = (drug: Pick<FormularyDrug, 'genericName' | 'brandName' | 'strength' | 'form'>): string =>
+  `${drug.genericName} ${drug.strength} ${drug.form.toLowerCase()}${drug.brandName ? ` (${drug.brandName})` : ''}`;
+
+// Stock shown alongside formulary drugs for prescribers and pharmacy
+export const formularyDrugInclude = {
+  inventoryItem: { select: { id: true, name: true, stock: true, reorderLevel: true, expiryDate: true } },
+} satisfies Prisma.FormularyDrugInclude;
+
+// Names the hospital keeps as controlled: formulary generic names and the
+// leading word of controlled stock items, e.g. "Pethidine" from "Pethidine 50mg/ml"
+const controlledDrugNames = async (db: Db, hospitalId: string): Promise<string[]> => {
+  const [drugs, stock] = await Promise.all([
+    db.formularyDrug.findMany({ where: { hospitalId, controlled: true }, select: { genericName: true } }),
+    db.inventoryItem.findMany({ where: { hospitalId, controlled: true }, select: { name: true } }),
+  ]);
+
+  return [
+    ...drugs.map((drug) => drug.genericName),
+    ...stock.map((item) => item.name.split(/\s+/)[0]),
+  ].filter((name) => name.length >= 3);
+};
+
+/**
+ * Turn prescribed items into PrescriptionItem rows: formulary drugs must be
+ * active and belong to the hospital; free text is flagged unless the hospital
+ * forbids it.
+ */
+export const resolvePrescriptionItems = async (
+  hospitalId: string,
+  items: PrescriptionItemInput[],
+  settings: Record<string, any>,
+  db: Db = prisma
+) => {
+  const { allowOffFormulary } = formularySettings(settings);
+
+  if (!Array.isArray(items) || items.length === 0 || items.some((item) => !item || typeof item !== 'object')) {
+    throw new FormularyError('At least one prescription item is required');
+  }
+
+  const drugIds = [...new Set(items.map((item) => item.formularyDrugId).filter((id): id is string => !!id))];
+  const drugs = drugIds.length
+    ? await db.formularyDrug.findMany({ where: { id: { in: drugIds }, hospitalId, active: true } })
+    : [];
+  const byId = new Map(drugs.map((drug) => [drug.id, drug]));
+  const controlledNames = items.some((item) => !item.formularyDrugId) ? await controlledDrugNames(db, hospitalId) : [];
+
+  return items.map((item) => {
+    const quantity = item.quantity !== undefined ? Number(item.quantity) : 1;
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new FormularyError('Quantity must be a whole number above zero');
+    }
+
+    const dose = structuredDose(item);
+    const described = describeDose(dose);
+    const details = {
+      quantity,
+      dosage: item.dosage || described.dosage,
+      frequency: item.frequency || described.frequency,
+      duration: item.duration || described.duration,
+      instructions: item.instructions,
+      ...dose,
+    };
+
+    if (!details.dosage || !details.frequency || !details.duration) {
+      throw new FormularyError('Each item needs a dosage, frequency and duration, written out or structured');
+    }
+
+    if (item.formularyDrugId) {
+      const drug = byId.get(item.formularyDrugId);
+      if (!drug) {
+        throw new FormularyError(`Formulary drug ${item.formularyDrugId} not found or inactive`);
+      }
+      // Structured doses default to the drug's route so the right dose range applies
+      return {
+        ...details,
+        route: details.doseAmount !== null ? details.route || drug.route : details.route,
+        medicationName: drugLabel(drug),
+        formularyDrugId: drug.id,
+        offFormulary: false,
+      };
+    }
+
+    const medicationName = item.medicationName?.trim();
+    if (!medicationName) {
+      throw new FormularyError('Each item needs a formulary drug or a medication name');
+    }
+    if (!allowOffFormulary) {
+      throw new FormularyError(`${medicationName} is not on the formulary`);
+    }
+    // Free text would bypass the witness and the register
+    if (isControlledDrugName(medicationName, controlledNames)) {
+      throw new FormularyError(`${medicationName} is a controlled drug and must be prescribed from the formulary`);
+    }
+
+    return { ...details, medicationName, offFormulary: true };
+  });
+};
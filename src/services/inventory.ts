@@ -0,0 +1,198 @@
+/**
+ * Inventory
+ *
+ * Batch-level stock keeping. Receipts add a batch with its own expiry and unit
+ * cost; issues draw from batches earliest expiry first (first-expired,
+ * first-out) and record what each unit cost. InventoryItem.stock is kept equal
+ * to the sum of its batches so existing stock screens stay correct. Movements
+ * of controlled items are also written to the controlled-drug register, so
+ * callers must say who moved the stock and why.
+ */
+
+import { InventoryItem, Prisma } from '@prisma/client';
+import { broadcastInventoryUpdate } from '../socket';
+import { RegisterMovement, recordRegisterEntry } from './controlledDrugs';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when stock cannot be issued; carries the HTTP status to relay.
+ */
+export class InventoryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'InventoryError';
+    this.status = status;
+  }
+}
+
+export interface StockIssueLine {
+  batchId: string;
+  batchNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface StockChange {
+  item: InventoryItem;
+  previousStock: number;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Dispensable stock excludes expired batches; manual reductions can write them off
+const batchFilter = (inventoryItemId: string, includeExpired: boolean, now: Date): Prisma.InventoryBatchWhereInput => ({
+  inventoryItemId,
+  quantity: { gt: 0 },
+  ...(!includeExpired && { OR: [{ expiryDate: null }, { expiryDate: { gt: now } }] }),
+});
+
+/**
+ * Units of an item that can be dispensed now (unexpired batches only).
+ */
+export const availableStock = async (db: Db, inventoryItemId: string, now: Date = new Date()): Promise<number> => {
+  const { _sum } = await db.inventoryBatch.aggregate({
+    where: batchFilter(inventoryItemId, false, now),
+    _sum: { quantity: true },
+  });
+  return _sum.quantity || 0;
+};
+
+/**
+ * Add a delivery as a new batch and raise the item's stock.
+ */
+export const receiveBatch = async (
+  db: Db,
+  inventoryItemId: string,
+  input: { quantity: number; unitCost: number; batchNumber?: string | null; expiryDate?: Date | null },
+  movement?: RegisterMovement
+): Promise<StockChange> => {
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    throw new InventoryError('Quantity received must be a whole number above zero');
+  }
+
+  await db.inventoryBatch.create({
+    data: {
+      inventoryItemId,
+      batchNumber: input.batchNumber || undefined,
+      expiryDate: input.expiryDate || undefined,
+      receivedQuantity: input.quantity,
+      quantity: input.quantity,
+      unitCost: input.unitCost,
+    },
+  });
+
+  const item = await db.inventoryItem.update({
+    where: { id: inventoryItemId },
+    data: { stock: { increment: input.quantity } },
+  });
+
+  if (item.controlled) {
+    if (!movement) {
+      throw new InventoryError(`${item.name} is a controlled drug; receipts must be registered`);
+    }
+    await recordRegisterEntry(db, item, input.quantity, { ...movement, batchNumbers: [input.batchNumber || ''] });
+  }
+
+  return { item, previousStock: item.stock - input.quantity };
+};
+
+/**
+ * Take up to `quantity` units out of an item's batches, earliest expiry first,
+ * recording a StockIssue per batch. Issues less than asked only when
+ * `allowShort` is set; otherwise a shortfall is a 409.
+ */
+export const issueStock = async (
+  db: Db,
+  inventoryItemId: string,
+  quantity: number,
+  options: {
+    userId: string;
+    prescriptionItemId?: string;
+    dispenseEventItemId?: string;
+    allowShort?: boolean;
+    includeExpired?: boolean;
+    now?: Date;
+    register?: Omit<RegisterMovement, 'userId' | 'batchNumbers'>;
+  }
+): Promise<{ issued: number; cost: number; lines: StockIssueLine[]; change: StockChange | null }> => {
+  const now = options.now || new Date();
+
+  const batches = await db.inventoryBatch.findMany({
+    where: batchFilter(inventoryItemId, options.includeExpired === true, now),
+    orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }],
+  });
+  const available = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+
+  if (available < quantity && !options.allowShort) {
+    throw new InventoryError(`Only ${available} of ${quantity} units in stock`, 409);
+  }
+
+  const lines: StockIssueLine[] = [];
+  let remaining = Math.min(quantity, available);
+
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const take = Math.min(batch.quantity, remaining);
+
+    // Guard against another dispense draining the batch since it was read
+    const { count } = await db.inventoryBatch.updateMany({
+      where: { id: batch.id, quantity: { gte: take } },
+      data: { quantity: { decrement: take } },
+    });
+    if (count === 0) {
+      throw new InventoryError('Stock changed while dispensing; please try again', 409);
+    }
+
+    await db.stockIssue.create({
+      data: {
+        inventoryBatchId: batch.id,
+        prescriptionItemId: options.prescriptionItemId,
+        dispenseEventItemId: options.dispenseEventItemId,
+        quantity: take,
+        unitCost: batch.unitCost,
+        issuedBy: options.userId,
+      },
+    });
+
+    lines.push({ batchId: batch.id, batchNumber: batch.batchNumber, expiryDate: batch.expiryDate, quantity: take, unitCost: batch.unitCost });
+    remaining -= take;
+  }
+
+  const issued = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const cost = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+  if (issued === 0) return { issued, cost, lines, change: null };
+
+  const item = await db.inventoryItem.update({
+    where: { id: inventoryItemId },
+    data: { stock: { decrement: issued } },
+  });
+
+  if (item.controlled) {
+    if (!options.register) {
+      throw new InventoryError(`${item.name} is a controlled drug; issues must be registered`);
+    }
+    await recordRegisterEntry(db, item, -issued, {
+      ...options.register,
+      userId: options.userId,
+      batchNumbers: lines.map((line) => line.batchNumber || ''),
+    });
+  }
+
+  return { issued, cost, lines, change: { item, previousStock: item.stock + issued } };
+};
+
+/**
+ * Tell connected clients about stock changes once committed, flagging items
+ * that have just dropped to their reorder level.
+ */
+export const announceStockChanges = (changes: StockChange[]): void => {
+  for (const { item, previousStock } of changes) {
+    const crossedReorderLevel = previousStock > item.reorderLevel && item.stock <= item.reorderLevel;
+    broadcastInventoryUpdate(item.hospitalId, crossedReorderLevel ? 'low-stock' : 'updated', item);
+  }
+};
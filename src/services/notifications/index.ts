@@ -0,0 +1,53 @@
+/**
+ * Notification channels
+ *
+ * Resolves how a hospital reaches its patients. Hospitals choose with
+ * `settings.notifications.channel` ('termii' | 'log'); otherwise
+ * NOTIFICATION_CHANNEL, then Termii in production and the log elsewhere.
+ */
+
+import { getHospitalSettings } from '../../utils/hospitalSettings';
+import { logChannel } from './log';
+import { termiiChannel } from './termii';
+import { NotificationChannel, NotificationChannelName, NotificationMessage, SendResult } from './types';
+
+export * from './types';
+
+const channels: Record<NotificationChannelName, NotificationChannel> = {
+  termii: termiiChannel,
+  log: logChannel,
+};
+
+const isChannelName = (name: unknown): name is NotificationChannelName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(channels, name);
+
+const defaultChannelName = (): NotificationChannelName => {
+  const configured = process.env.NOTIFICATION_CHANNEL;
+  if (isChannelName(configured)) return configured;
+  return process.env.NODE_ENV === 'production' ? 'termii' : 'log';
+};
+
+export const getHospitalNotificationChannel = async (hospitalId: string): Promise<NotificationChannel> => {
+  const settings = await getHospitalSettings(hospitalId);
+  const configured = (settings.notifications as Record<string, any> | undefined)?.channel;
+  return channels[isChannelName(configured) ? configured : defaultChannelName()];
+};
+
+/**
+ * Send a message through the hospital's channel. Never throws: a failed
+ * reminder is reported to the caller, not allowed to break the job sending it.
+ */
+export const notifyPatient = async (hospitalId: string, notification: NotificationMessage): Promise<SendResult> => {
+  try {
+    const channel = await getHospitalNotificationChannel(hospitalId);
+
+    if (!channel.isConfigured()) {
+      return { delivered: false, error: `${channel.name} channel is not configured` };
+    }
+
+    return await channel.send(notification);
+  } catch (error) {
+    console.error('[Notification] Send error:', error);
+    return { delivered: false, error: error instanceof Error ? error.message : 'Send failed' };
+  }
+};
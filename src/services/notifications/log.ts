@@ -0,0 +1,19 @@
+/**
+ * Log channel: writes messages to the server log instead of sending them.
+ * The default outside production, so reminders can be exercised offline.
+ */
+
+import { NotificationChannel } from './types';
+
+export const logChannel: NotificationChannel = {
+  name: 'log',
+
+  isConfigured() {
+    return true;
+  },
+
+  async send({ to, message }) {
+    console.log(`[Notification] To ${to}: ${message}`);
+    return { delivered: true };
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Termii SMS channel
+ * https://developers.termii.com/messaging-api
+ */
+
+import { NotificationChannel } from './types';
+
+const TERMII_API = 'https://api.ng.termii.com/api';
+
+// SECURITY: API key from environment only
+const apiKey = () => process.env.TERMII_API_KEY;
+const senderId = () => process.env.TERMII_SENDER_ID || 'MediSeen';
+
+/**
+ * Termii expects international format without the plus (234...); patients
+ * are usually registered with a local 0-prefixed number.
+ */
+const toInternational = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('0') ? `234${digits.slice(1)}` : digits;
+};
+
+export const termiiChannel: NotificationChannel = {
+  name: 'termii',
+
+  isConfigured() {
+    return !!apiKey();
+  },
+
+  async send({ to, message }) {
+    const response = await fetch(`${TERMII_API}/sms/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        api_key: apiKey(),
+        to: toInternational(to),
+        from: senderId(),
+        sms: message,
+        type: 'plain',
+        channel: 'generic',
+      }),
+    });
+
+    const data: { message_id?: string; message?: string } = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('[Notification] Termii send failed:', data);
+      return { delivered: false, error: data.message || `Termii responded ${response.status}` };
+    }
+
+    return { delivered: true, messageId: data.message_id };
+  },
+};
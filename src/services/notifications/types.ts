@@ -0,0 +1,25 @@
+/**
+ * Notification channel contract
+ *
+ * Patient-facing messages (payment reminders and the like) go out through a
+ * channel so callers never depend on an SMS vendor's API.
+ */
+
+export type NotificationChannelName = 'termii' | 'log';
+
+export interface NotificationMessage {
+  to: string; // Phone number as held on the patient record
+  message: string;
+}
+
+export interface SendResult {
+  delivered: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  isConfigured(): boolean;
+  send(notification: NotificationMessage): Promise<SendResult>;
+}
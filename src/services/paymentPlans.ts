@@ -0,0 +1,331 @@
+/**
+ * Payment Plans
+ *
+ * Lets a patient settle a large bill in instalments. A plan schedules the
+ * patient balance outstanding when it is agreed; patient payments made after
+ * that settle instalments in due-date order, so an instalment's state is
+ * always worked out from the bill's payments rather than stored.
+ *
+ * Configured in `settings.paymentPlans`:
+ *   maxInstallments     - longest schedule allowed (default 12)
+ *   reminderDaysBefore  - days ahead of a due date to send a reminder (default 3)
+ *   overdueReminderDays - days between reminders while overdue (default 7)
+ */
+
+import { BillingStatus, Payment, PaymentPlan, PaymentPlanInstallment, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { hospitalTimezone, localDateKey, startOfLocalDay } from '../utils/dates';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { notifyPatient } from './notifications';
+import { patientOutstanding } from './wallet';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a payment plan cannot be set up or changed; carries the HTTP status to relay.
+ */
+export class PaymentPlanError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PaymentPlanError';
+    this.status = status;
+  }
+}
+
+export type PlanFrequency = 'WEEKLY' | 'MONTHLY';
+
+export const paymentPlanSettings = (settings: Record<string, any>) => {
+  const config = (settings.paymentPlans as Record<string, any>) || {};
+  return {
+    maxInstallments: Number(config.maxInstallments) || 12,
+    reminderDaysBefore: config.reminderDaysBefore !== undefined ? Number(config.reminderDaysBefore) : 3,
+    overdueReminderDays: Number(config.overdueReminderDays) || 7,
+  };
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add days or calendar months to a YYYY-MM-DD date. Month steps clamp to the
+ * end of shorter months (31 Jan + 1 month = 28/29 Feb).
+ */
+const addToDateKey = (dateKey: string, frequency: PlanFrequency, steps: number): string => {
+  const [year, month, day] = dateKey.split('-').map((part) => parseInt(part, 10));
+
+  if (frequency === 'WEEKLY') {
+    return new Date(Date.UTC(year, month - 1, day) + steps * 7 * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  const lastDay = new Date(Date.UTC(year, month - 1 + steps + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + steps, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+/**
+ * Split an amount into equal instalments from a first due date; rounding
+ * differences go on the last instalment.
+ */
+export const buildSchedule = (
+  amount: number,
+  count: number,
+  firstDueDate: string,
+  frequency: PlanFrequency
+): { dueDate: string; amount: number }[] => {
+  const each = Math.floor((amount / count) * 100) / 100;
+
+  return Array.from({ length: count }, (_, index) => ({
+    dueDate: addToDateKey(firstDueDate, frequency, index),
+    amount: index === count - 1 ? roundMoney(amount - each * (count - 1)) : each,
+  }));
+};
+
+/**
+ * Agree a plan for a bill's outstanding patient balance. Instalments are
+ * YYYY-MM-DD due dates in the hospital's timezone and must add up to the balance.
+ */
+export const createPaymentPlan = async (
+  billingRecordId: string,
+  installments: { dueDate: string; amount: number }[],
+  userId: string,
+  notes?: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const bill = await tx.billingRecord.findUniqueOrThrow({ where: { id: billingRecordId } });
+
+    if (bill.status === 'PAID' || bill.status === 'CANCELLED') {
+      throw new PaymentPlanError(`Cannot set up a payment plan on a ${bill.status} bill`);
+    }
+
+    const existing = await tx.paymentPlan.findFirst({ where: { billingRecordId, status: 'ACTIVE' } });
+    if (existing) {
+      throw new PaymentPlanError('Bill already has an active payment plan; cancel it first', 409);
+    }
+
+    const settings = await getHospitalSettings(bill.hospitalId);
+    const timezone = hospitalTimezone(settings);
+    const { maxInstallments } = paymentPlanSettings(settings);
+
+    if (installments.length < 2 || installments.length > maxInstallments) {
+      throw new PaymentPlanError(`A plan needs between 2 and ${maxInstallments} instalments`);
+    }
+
+    const today = localDateKey(new Date(), timezone);
+    for (const [index, installment] of installments.entries()) {
+      if (!(installment.amount > 0)) {
+        throw new PaymentPlanError('Every instalment must be for more than zero');
+      }
+      if (installment.dueDate < today) {
+        throw new PaymentPlanError('Instalments cannot fall due in the past');
+      }
+      if (index > 0 && installment.dueDate <= installments[index - 1].dueDate) {
+        throw new PaymentPlanError('Instalment due dates must be in order and on different days');
+      }
+    }
+
+    const outstanding = await patientOutstanding(tx, billingRecordId);
+    const scheduled = roundMoney(installments.reduce((sum, installment) => sum + installment.amount, 0));
+
+    if (outstanding <= 0) {
+      throw new PaymentPlanError('Bill has no patient balance to schedule');
+    }
+
+    if (Math.abs(scheduled - outstanding) > 0.01) {
+      throw new PaymentPlanError(`Instalments add up to ${scheduled} but the patient balance is ${outstanding}`);
+    }
+
+    return tx.paymentPlan.create({
+      data: {
+        billingRecordId,
+        hospitalId: bill.hospitalId,
+        totalAmount: outstanding,
+        notes,
+        createdBy: userId,
+        installments: {
+          create: installments.map((installment, index) => ({
+            sequence: index + 1,
+            dueDate: startOfLocalDay(installment.dueDate, timezone),
+            amount: installment.amount,
+          })),
+        },
+      },
+      include: { installments: { orderBy: { sequence: 'asc' } } },
+    });
+  });
+
+/**
+ * Where a plan stands: what each instalment has received, which are overdue
+ * and what is due next. Works on already-loaded rows so lists can use it.
+ */
+export const planProgress = (
+  plan: PaymentPlan & { installments: PaymentPlanInstallment[] },
+  bill: { status: BillingStatus; payments: Pick<Payment, 'amount' | 'refundedAmount' | 'remittanceId' | 'corporatePaymentId' | 'createdAt'>[] },
+  timezone: string,
+  now: Date = new Date()
+) => {
+  // Insurer and corporate money never counts towards the patient's schedule
+  const paidSinceStart = bill.status === 'PAID'
+    ? plan.totalAmount
+    : bill.payments
+        .filter((payment) => !payment.remittanceId && !payment.corporatePaymentId && payment.createdAt >= plan.createdAt)
+        .reduce((sum, payment) => sum + payment.amount - payment.refundedAmount, 0);
+
+  const today = localDateKey(now, timezone);
+  let available = roundMoney(paidSinceStart);
+
+  const installments = [...plan.installments]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((installment) => {
+      const paidAmount = roundMoney(Math.min(Math.max(available, 0), installment.amount));
+      available = roundMoney(available - paidAmount);
+      const dueDateKey = localDateKey(installment.dueDate, timezone);
+      const balance = roundMoney(installment.amount - paidAmount);
+
+      return {
+        ...installment,
+        dueDateKey,
+        paidAmount,
+        balance,
+        status: balance <= 0 ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'PENDING',
+        overdue: balance > 0 && dueDateKey < today,
+      };
+    });
+
+  const overdue = installments.filter((installment) => installment.overdue);
+  const next = installments.find((installment) => installment.balance > 0);
+  const oldestOverdue = overdue[0];
+
+  return {
+    installments,
+    paidAmount: roundMoney(Math.min(paidSinceStart, plan.totalAmount)),
+    remaining: roundMoney(installments.reduce((sum, installment) => sum + installment.balance, 0)),
+    settled: !next,
+    overdue: overdue.length > 0,
+    overdueAmount: roundMoney(overdue.reduce((sum, installment) => sum + installment.balance, 0)),
+    overdueInstallments: overdue.length,
+    overdueSince: oldestOverdue?.dueDateKey,
+    daysOverdue: oldestOverdue
+      ? Math.round((Date.parse(today) - Date.parse(oldestOverdue.dueDateKey)) / DAY_MS)
+      : 0,
+    nextDue: next ? { sequence: next.sequence, dueDate: next.dueDateKey, amount: next.balance } : null,
+  };
+};
+
+/**
+ * A bill's active plan with its progress, or null when it has none.
+ */
+export const getActivePlan = async (db: Db, billingRecordId: string) => {
+  const plan = await db.paymentPlan.findFirst({
+    where: { billingRecordId, status: 'ACTIVE' },
+    include: { installments: true },
+  });
+
+  if (!plan) return null;
+
+  const bill = await db.billingRecord.findUniqueOrThrow({
+    where: { id: billingRecordId },
+    include: { payments: true },
+  });
+  const timezone = hospitalTimezone(await getHospitalSettings(bill.hospitalId));
+
+  return { plan, progress: planProgress(plan, bill, timezone) };
+};
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Remind patients of instalments coming due and chase overdue ones, and close
+ * plans whose bill has been settled. Run periodically by the job scheduler.
+ */
+export const sendPaymentPlanReminders = async (now: Date = new Date()) => {
+  const plans = await prisma.paymentPlan.findMany({
+    where: { status: 'ACTIVE' },
+    include: {
+      installments: true,
+      hospital: { select: { name: true, settings: true } },
+      billingRecord: {
+        include: {
+          payments: true,
+          patient: { select: { firstName: true, phone: true } },
+        },
+      },
+    },
+  });
+
+  const summary = { plansChecked: plans.length, remindersSent: 0, failed: 0, completed: 0 };
+
+  for (const plan of plans) {
+    // One plan's failure must not hold up reminders for the rest
+    try {
+      const settings = (plan.hospital.settings as Record<string, any>) || {};
+      const timezone = hospitalTimezone(settings);
+      const { reminderDaysBefore, overdueReminderDays } = paymentPlanSettings(settings);
+      const bill = plan.billingRecord;
+      const progress = planProgress(plan, bill, timezone, now);
+
+      if (progress.settled || bill.status === 'CANCELLED') {
+        await prisma.paymentPlan.update({
+          where: { id: plan.id },
+          data: progress.settled
+            ? { status: 'COMPLETED', completedAt: now }
+            : { status: 'CANCELLED', cancelledAt: now },
+        });
+        if (progress.settled) summary.completed++;
+        continue;
+      }
+
+      const today = localDateKey(now, timezone);
+      const reminderHorizon = localDateKey(new Date(now.getTime() + reminderDaysBefore * DAY_MS), timezone);
+      const invoice = bill.invoiceNumber || bill.id.slice(0, 8);
+      const oldestOverdue = progress.installments.find((installment) => installment.overdue);
+      const upcoming = progress.installments.find(
+        (installment) => installment.balance > 0 && !installment.overdue && installment.dueDateKey <= reminderHorizon
+      );
+
+      let target: (typeof progress.installments)[number] | undefined;
+      let message = '';
+
+      if (oldestOverdue) {
+        const lastReminded = oldestOverdue.lastRemindedAt ? localDateKey(oldestOverdue.lastRemindedAt, timezone) : null;
+        const nextReminder = lastReminded
+          ? new Date(Date.parse(lastReminded) + overdueReminderDays * DAY_MS).toISOString().slice(0, 10)
+          : null;
+
+        // Chase from the day after the due date, then every overdueReminderDays
+        if (!lastReminded || lastReminded <= oldestOverdue.dueDateKey || (nextReminder && nextReminder <= today)) {
+          target = oldestOverdue;
+          message = `Dear ${bill.patient.firstName}, NGN ${formatAmount(progress.overdueAmount)} on invoice ${invoice} ` +
+            `at ${plan.hospital.name} is overdue since ${progress.overdueSince}. Please pay at the hospital or contact billing.`;
+        }
+      } else if (upcoming && upcoming.remindersSent === 0) {
+        target = upcoming;
+        message = `Dear ${bill.patient.firstName}, instalment ${upcoming.sequence} of NGN ${formatAmount(upcoming.balance)} ` +
+          `on invoice ${invoice} at ${plan.hospital.name} is due on ${upcoming.dueDateKey}.`;
+      }
+
+      if (!target) continue;
+
+      const result = await notifyPatient(plan.hospitalId, { to: bill.patient.phone, message });
+
+      if (!result.delivered) {
+        console.error(`[PaymentPlans] Reminder for plan ${plan.id} not delivered:`, result.error);
+        summary.failed++;
+        continue;
+      }
+
+      await prisma.paymentPlanInstallment.update({
+        where: { id: target.id },
+        data: { remindersSent: { increment: 1 }, lastRemindedAt: now },
+      });
+      summary.remindersSent++;
+    } catch (error) {
+      console.error(`[PaymentPlans] Reminders for plan ${plan.id} failed:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,15 @@
+import { Bank } from './types';
+
+// Common Nigerian banks, served when no live gateway is configured
+export const NIGERIAN_BANKS: Bank[] = [
+  { name: 'Access Bank', code: '044', type: 'nuban' },
+  { name: 'First Bank', code: '011', type: 'nuban' },
+  { name: 'GTBank', code: '058', type: 'nuban' },
+  { name: 'UBA', code: '033', type: 'nuban' },
+  { name: 'Zenith Bank', code: '057', type: 'nuban' },
+  { name: 'Fidelity Bank', code: '070', type: 'nuban' },
+  { name: 'Union Bank', code: '032', type: 'nuban' },
+  { name: 'Sterling Bank', code: '232', type: 'nuban' },
+  { name: 'Wema Bank', code: '035', type: 'nuban' },
+  { name: 'Stanbic IBTC', code: '221', type: 'nuban' },
+];
@@ -0,0 +1,220 @@
+/**
+ * Flutterwave provider (v3 API)
+ * https://developer.flutterwave.com/docs
+ *
+ * Flutterwave works in major units (Naira), so amounts are converted at the
+ * boundary to keep the PaymentProvider contract in kobo.
+ */
+
+import crypto from 'crypto';
+import { PaymentProvider, PaymentProviderError } from './types';
+
+const FLUTTERWAVE_API = 'https://api.flutterwave.com/v3';
+
+// Flutterwave API response shape
+interface FlutterwaveResponse {
+  status?: string;
+  message?: string;
+  data?: any;
+}
+
+// Entry in the /banks/:country listing
+interface FlutterwaveBank {
+  id: number;
+  code: string;
+  name: string;
+}
+
+// SECURITY: Secret keys from environment only
+const secretKey = () => process.env.FLUTTERWAVE_SECRET_KEY;
+const webhookHash = () => process.env.FLUTTERWAVE_WEBHOOK_HASH;
+
+async function request(path: string, init: RequestInit = {}): Promise<FlutterwaveResponse> {
+  const response = await fetch(`${FLUTTERWAVE_API}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${secretKey()}`,
+      'Content-Type': 'application/json',
+      ...(init.headers || {}),
+    },
+  });
+
+  const data: FlutterwaveResponse = await response.json();
+
+  if (!response.ok || data.status === 'error') {
+    console.error(`[Payment] Flutterwave ${path} failed:`, data);
+    throw new PaymentProviderError(data.message || 'Flutterwave request failed', response.ok ? 502 : response.status);
+  }
+
+  return data;
+}
+
+function refundResult(data: FlutterwaveResponse) {
+  const status = String(data.data?.status || '').toLowerCase();
+  return {
+    refundId: data.data?.id !== undefined ? String(data.data.id) : undefined,
+    status: status === 'completed' || status === 'successful' ? 'success' : status === 'failed' ? 'failed' : 'pending',
+    message: data.message,
+  };
+}
+
+// Map our Paystack-style channel names onto Flutterwave payment_options
+const CHANNEL_OPTIONS: Record<string, string> = {
+  card: 'card',
+  bank: 'account',
+  bank_transfer: 'banktransfer',
+  ussd: 'ussd',
+  mobile_money: 'mobilemoneyghana',
+};
+
+// ...and Flutterwave payment types back onto channels used for PaymentMethod
+const PAYMENT_TYPE_CHANNELS: Record<string, string> = {
+  card: 'card',
+  account: 'bank',
+  bank_transfer: 'bank_transfer',
+  banktransfer: 'bank_transfer',
+  ussd: 'ussd',
+  mobilemoney: 'mobile_money',
+};
+
+const normalizeStatus = (status?: string): string => {
+  if (status === 'successful') return 'success';
+  if (status === 'failed' || status === 'cancelled') return 'failed';
+  return 'pending';
+};
+
+export const flutterwaveProvider: PaymentProvider = {
+  name: 'flutterwave',
+
+  isConfigured() {
+    return !!secretKey();
+  },
+
+  async initialize(params) {
+    const redirectUrl = params.callbackUrl || process.env.FLUTTERWAVE_REDIRECT_URL;
+
+    if (!redirectUrl) {
+      throw new PaymentProviderError('Flutterwave requires a callback URL', 400);
+    }
+
+    const paymentOptions = (params.channels || ['card', 'bank_transfer', 'ussd'])
+      .map((channel) => CHANNEL_OPTIONS[channel])
+      .filter(Boolean)
+      .join(',');
+
+    const data = await request('/payments', {
+      method: 'POST',
+      body: JSON.stringify({
+        tx_ref: params.reference,
+        amount: params.amount / 100,
+        currency: params.currency || 'NGN',
+        redirect_url: redirectUrl,
+        payment_options: paymentOptions,
+        customer: { email: params.email },
+        meta: params.metadata,
+      }),
+    });
+
+    return {
+      authorizationUrl: data.data?.link,
+      reference: params.reference,
+    };
+  },
+
+  async verify(reference) {
+    const data = await request(`/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`);
+    const transaction = data.data || {};
+
+    return {
+      reference: transaction.tx_ref || reference,
+      amount: Math.round((transaction.amount || 0) * 100),
+      currency: transaction.currency,
+      channel: PAYMENT_TYPE_CHANNELS[transaction.payment_type] || transaction.payment_type,
+      status: normalizeStatus(transaction.status),
+      paidAt: transaction.created_at,
+      customerEmail: transaction.customer?.email,
+      metadata: transaction.meta || undefined,
+    };
+  },
+
+  async refund(params) {
+    // Refunds are keyed on Flutterwave's transaction ID, not our tx_ref
+    const transaction = await request(`/transactions/verify_by_reference?tx_ref=${encodeURIComponent(params.reference)}`);
+    const transactionId = transaction.data?.id;
+
+    if (!transactionId) {
+      throw new PaymentProviderError('Flutterwave transaction not found', 404);
+    }
+
+    const data = await request(`/transactions/${transactionId}/refund`, {
+      method: 'POST',
+      body: JSON.stringify({
+        amount: params.amount / 100, // Flutterwave expects Naira
+        comments: params.reason,
+      }),
+    });
+
+    return refundResult(data);
+  },
+
+  async refundStatus(refundId) {
+    return refundResult(await request(`/refunds/${encodeURIComponent(refundId)}`));
+  },
+
+  verifyWebhook(headers) {
+    const expected = webhookHash();
+    const signature = headers['verif-hash'];
+
+    if (!expected || typeof signature !== 'string' || signature.length !== expected.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  },
+
+  async parseWebhook(body) {
+    const data = body?.data || {};
+    const name = body?.event || body?.['event.type'] || 'unknown';
+
+    if (name !== 'charge.completed') {
+      return { name, type: 'other', reference: data.tx_ref };
+    }
+
+    if (data.status !== 'successful') {
+      return { name, type: 'charge.failed', reference: data.tx_ref };
+    }
+
+    // Flutterwave recommends re-verifying before giving value; it also returns the meta we set
+    const verified = await this.verify(data.tx_ref);
+
+    if (verified.status !== 'success') {
+      return { name, type: 'charge.failed', reference: data.tx_ref };
+    }
+
+    return {
+      name,
+      type: 'charge.success',
+      reference: verified.reference,
+      charge: {
+        gateway: 'flutterwave',
+        event: name,
+        reference: verified.reference,
+        amount: verified.amount / 100,
+        currency: verified.currency,
+        channel: verified.channel,
+        metadata: verified.metadata || body?.meta_data,
+        payload: body,
+      },
+    };
+  },
+
+  async listBanks() {
+    const data = await request('/banks/NG');
+    const banks: FlutterwaveBank[] = Array.isArray(data.data) ? data.data : [];
+    return banks.map((bank) => ({
+      name: bank.name,
+      code: bank.code,
+      type: 'nuban',
+    }));
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * Payment providers
+ *
+ * Resolves which gateway a hospital uses. Hospitals choose theirs with
+ * `settings.paymentGateway` ('paystack' | 'flutterwave' | 'sandbox');
+ * otherwise PAYMENT_GATEWAY, then Paystack, is used.
+ */
+
+import { getHospitalSettings } from '../../utils/hospitalSettings';
+import { flutterwaveProvider } from './flutterwave';
+import { paystackProvider } from './paystack';
+import { reconcileGatewayCharge, ReconcileResult } from './reconciliation';
+import { sandboxProvider } from './sandbox';
+import { PaymentProvider, PaymentProviderName, WebhookEvent } from './types';
+
+export * from './types';
+export { NIGERIAN_BANKS } from './banks';
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paystack: paystackProvider,
+  flutterwave: flutterwaveProvider,
+  sandbox: sandboxProvider,
+};
+
+export const isPaymentProviderName = (name: unknown): name is PaymentProviderName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(providers, name);
+
+export const getPaymentProvider = (name: PaymentProviderName): PaymentProvider => providers[name];
+
+const defaultProviderName = (): PaymentProviderName => {
+  const configured = process.env.PAYMENT_GATEWAY;
+  return isPaymentProviderName(configured) ? configured : 'paystack';
+};
+
+/**
+ * The provider a hospital has selected, falling back to the platform default.
+ */
+export const getHospitalPaymentProvider = async (hospitalId?: string): Promise<PaymentProvider> => {
+  if (hospitalId) {
+    const settings = await getHospitalSettings(hospitalId);
+    if (isPaymentProviderName(settings.paymentGateway)) {
+      return providers[settings.paymentGateway];
+    }
+  }
+
+  return providers[defaultProviderName()];
+};
+
+/**
+ * Verify and process a provider webhook. Successful charges are reconciled
+ * into bill payments; everything else is only logged.
+ */
+export const handleProviderWebhook = async (
+  provider: PaymentProvider,
+  headers: Record<string, string | string[] | undefined>,
+  body: unknown
+): Promise<{ verified: boolean; event?: WebhookEvent; result?: ReconcileResult }> => {
+  if (!provider.verifyWebhook(headers, body)) {
+    return { verified: false };
+  }
+
+  const event = await provider.parseWebhook(body);
+  console.log(`[Payment] ${provider.name} webhook event:`, event.name);
+
+  if (event.type === 'charge.success' && event.charge) {
+    const result = await reconcileGatewayCharge(event.charge);
+    console.log(`[Payment] Charge ${event.charge.reference} reconciliation: ${result.outcome}`);
+    return { verified: true, event, result };
+  }
+
+  if (event.type === 'charge.failed') {
+    console.log(`[Payment] Charge failed:`, event.reference);
+  }
+
+  return { verified: true, event };
+};
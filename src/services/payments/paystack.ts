@@ -0,0 +1,196 @@
+/**
+ * Paystack provider
+ * https://paystack.com/docs/api
+ */
+
+import crypto from 'crypto';
+import { PaymentProvider, PaymentProviderError, VerifyResult } from './types';
+
+const PAYSTACK_API = 'https://api.paystack.co';
+
+// Paystack API response shape
+interface PaystackResponse {
+  status?: boolean;
+  message?: string;
+  data?: {
+    id?: number;
+    authorization_url?: string;
+    access_code?: string;
+    reference?: string;
+    amount?: number;
+    currency?: string;
+    channel?: string;
+    status?: string;
+    paid_at?: string;
+    customer?: {
+      email?: string;
+    };
+    metadata?: Record<string, any> | string;
+  };
+}
+
+// SECURITY: Secret keys from environment only
+const secretKey = () => process.env.PAYSTACK_SECRET_KEY;
+const webhookSecret = () => process.env.PAYSTACK_WEBHOOK_SECRET;
+
+/**
+ * Paystack echoes metadata back as an object, but clients sometimes send it
+ * as a JSON string when initializing.
+ */
+function parseMetadata(metadata: unknown): Record<string, any> | undefined {
+  if (!metadata) return undefined;
+  if (typeof metadata === 'string') {
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      return undefined;
+    }
+  }
+  return metadata as Record<string, any>;
+}
+
+// Paystack queues refunds; 'processed' means the money has left
+function refundResult(data: PaystackResponse) {
+  const status = data.data?.status;
+  return {
+    refundId: data.data?.id !== undefined ? String(data.data.id) : undefined,
+    status: status === 'processed' ? 'success' : status === 'failed' ? 'failed' : 'pending',
+    message: data.message,
+  };
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<PaystackResponse> {
+  const response = await fetch(`${PAYSTACK_API}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${secretKey()}`,
+      'Content-Type': 'application/json',
+      ...(init.headers || {}),
+    },
+  });
+
+  const data: PaystackResponse = await response.json();
+
+  if (!response.ok) {
+    console.error(`[Payment] Paystack ${path} failed:`, data);
+    throw new PaymentProviderError(data.message || 'Paystack request failed', response.status);
+  }
+
+  return data;
+}
+
+export const paystackProvider: PaymentProvider = {
+  name: 'paystack',
+
+  isConfigured() {
+    return !!secretKey();
+  },
+
+  async initialize(params) {
+    const data = await request('/transaction/initialize', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: params.email,
+        amount: params.amount, // Amount in kobo
+        reference: params.reference,
+        currency: params.currency || 'NGN',
+        channels: params.channels || ['card', 'bank', 'ussd', 'bank_transfer'],
+        metadata: params.metadata,
+        callback_url: params.callbackUrl,
+      }),
+    });
+
+    return {
+      authorizationUrl: data.data?.authorization_url,
+      accessCode: data.data?.access_code,
+      reference: data.data?.reference || params.reference,
+    };
+  },
+
+  async verify(reference) {
+    const data = await request(`/transaction/verify/${encodeURIComponent(reference)}`);
+    const transaction = data.data || {};
+
+    const result: VerifyResult = {
+      reference: transaction.reference || reference,
+      amount: transaction.amount || 0,
+      currency: transaction.currency,
+      channel: transaction.channel,
+      status: transaction.status === 'success' ? 'success' : transaction.status === 'failed' ? 'failed' : 'pending',
+      paidAt: transaction.paid_at,
+      customerEmail: transaction.customer?.email,
+      metadata: parseMetadata(transaction.metadata),
+    };
+    return result;
+  },
+
+  async refund(params) {
+    const data = await request('/refund', {
+      method: 'POST',
+      body: JSON.stringify({
+        transaction: params.reference,
+        amount: params.amount, // Amount in kobo
+        merchant_note: params.reason,
+      }),
+    });
+
+    return refundResult(data);
+  },
+
+  async refundStatus(refundId) {
+    return refundResult(await request(`/refund/${encodeURIComponent(refundId)}`));
+  },
+
+  verifyWebhook(headers, body) {
+    const secret = webhookSecret();
+    const signature = headers['x-paystack-signature'];
+
+    if (!secret || typeof signature !== 'string') {
+      return false;
+    }
+
+    const hash = crypto
+      .createHmac('sha512', secret)
+      .update(JSON.stringify(body))
+      .digest('hex');
+
+    return hash === signature;
+  },
+
+  async parseWebhook(body) {
+    const data = body?.data || {};
+
+    if (body?.event === 'charge.success') {
+      return {
+        name: body.event,
+        type: 'charge.success',
+        reference: data.reference,
+        charge: {
+          gateway: 'paystack',
+          event: body.event,
+          reference: data.reference,
+          amount: (data.amount || 0) / 100, // Paystack amounts are in kobo
+          currency: data.currency,
+          channel: data.channel,
+          metadata: parseMetadata(data.metadata),
+          payload: body,
+        },
+      };
+    }
+
+    return {
+      name: body?.event || 'unknown',
+      type: body?.event === 'charge.failed' ? 'charge.failed' : 'other',
+      reference: data.reference,
+    };
+  },
+
+  async listBanks() {
+    const data = await request('/bank') as { data?: any[] };
+    return (data.data || []).map((bank) => ({
+      name: bank.name,
+      code: bank.code,
+      type: bank.type,
+    }));
+  },
+};
@@ -0,0 +1,245 @@
+/**
+ * Payment Reconciliation
+ *
+ * Turns settled gateway charges (provider webhooks) into Payment rows on the
+ * matching BillingRecord. Charges that cannot be matched to a bill are parked
+ * in the PaymentReconciliation queue for finance to resolve by hand.
+ */
+
+import { Prisma, PaymentMethod } from '@prisma/client';
+import { prisma } from '../../db';
+import { createAuditLog } from '../../utils/audit';
+import { resolveBillingStatus } from '../../utils/billing';
+import { broadcastBillingUpdate } from '../../socket';
+import { nextDocumentNumber } from '../documentNumbers';
+
+export interface GatewayCharge {
+  gateway: string;
+  event: string;
+  reference: string;
+  amount: number; // Major currency units (Naira), already converted from kobo
+  currency?: string;
+  channel?: string;
+  metadata?: Record<string, any>;
+  payload: unknown;
+}
+
+export type ReconcileResult =
+  | { outcome: 'applied'; paymentId: string; billingRecordId: string }
+  | { outcome: 'duplicate'; paymentId: string; billingRecordId: string }
+  | { outcome: 'unmatched'; reconciliationId: string; reason: string };
+
+const CHANNEL_METHODS: Record<string, PaymentMethod> = {
+  card: 'CARD',
+  bank: 'BANK_TRANSFER',
+  bank_transfer: 'BANK_TRANSFER',
+  dedicated_nuban: 'BANK_TRANSFER',
+  ussd: 'BANK_TRANSFER',
+  mobile_money: 'MOBILE_MONEY',
+  qr: 'MOBILE_MONEY',
+};
+
+export const paymentMethodForChannel = (channel?: string): PaymentMethod =>
+  CHANNEL_METHODS[(channel || '').toLowerCase()] || 'CARD';
+
+/**
+ * The frontend attaches the bill being paid when it initializes the
+ * transaction, either as plain metadata or as a Paystack custom field.
+ */
+const billingRecordIdFromMetadata = (metadata?: Record<string, any>): string | undefined => {
+  if (!metadata) return undefined;
+  if (metadata.billingRecordId) return String(metadata.billingRecordId);
+  if (metadata.billing_record_id) return String(metadata.billing_record_id);
+
+  const customFields: any[] = Array.isArray(metadata.custom_fields) ? metadata.custom_fields : [];
+  const field = customFields.find(
+    (f) => f?.variable_name === 'billingRecordId' || f?.variable_name === 'billing_record_id'
+  );
+  return field?.value ? String(field.value) : undefined;
+};
+
+const isDuplicateReference = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Record a settled charge against a bill and recompute its paid amount and
+ * status. Gateways retry webhooks, so the unique gatewayReference makes this
+ * idempotent: a repeat returns the original payment instead of a new one.
+ */
+export const applyGatewayCharge = async (
+  charge: GatewayCharge,
+  billingRecordId: string
+): Promise<{ duplicate: boolean; paymentId: string }> => {
+  const existing = await prisma.payment.findUnique({
+    where: { gatewayReference: charge.reference },
+  });
+
+  if (existing) {
+    return { duplicate: true, paymentId: existing.id };
+  }
+
+  try {
+    const { payment, billingRecord } = await prisma.$transaction(async (tx) => {
+      const current = await tx.billingRecord.findUniqueOrThrow({ where: { id: billingRecordId } });
+
+      const payment = await tx.payment.create({
+        data: {
+          billingRecordId,
+          amount: charge.amount,
+          method: paymentMethodForChannel(charge.channel),
+          reference: charge.reference,
+          receiptNumber: await nextDocumentNumber(tx, current.hospitalId, 'RECEIPT'),
+          gateway: charge.gateway,
+          gatewayReference: charge.reference,
+        },
+      });
+
+      // Increment rather than overwrite, so refunds and other payments landing at once are kept
+      const paid = await tx.billingRecord.update({
+        where: { id: billingRecordId },
+        data: { paidAmount: { increment: charge.amount } },
+      });
+
+      const billingRecord = await tx.billingRecord.update({
+        where: { id: billingRecordId },
+        data: {
+          status: resolveBillingStatus(paid.totalAmount, paid.paidAmount, paid.status),
+        },
+        include: {
+          items: true,
+          payments: true,
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+
+      return { payment, billingRecord };
+    });
+
+    await createAuditLog(prisma, {
+      hospitalId: billingRecord.hospitalId,
+      action: 'GATEWAY_PAYMENT',
+      entity: 'PAYMENT',
+      entityId: payment.id,
+      details: {
+        billingRecordId,
+        amount: charge.amount,
+        gateway: charge.gateway,
+        reference: charge.reference,
+        newStatus: billingRecord.status,
+      },
+    });
+
+    broadcastBillingUpdate(billingRecord.hospitalId, 'payment', billingRecord);
+
+    return { duplicate: false, paymentId: payment.id };
+  } catch (error) {
+    // A concurrent retry won the race to insert the same reference
+    if (isDuplicateReference(error)) {
+      const payment = await prisma.payment.findUniqueOrThrow({
+        where: { gatewayReference: charge.reference },
+      });
+      return { duplicate: true, paymentId: payment.id };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Park a charge in the reconciliation queue. Keyed on gateway + reference so
+ * webhook retries do not add the same event twice.
+ */
+const queueUnmatchedCharge = async (
+  charge: GatewayCharge,
+  reason: string,
+  hospitalId?: string
+): Promise<string> => {
+  const reconciliation = await prisma.paymentReconciliation.upsert({
+    where: {
+      gateway_reference: {
+        gateway: charge.gateway,
+        reference: charge.reference,
+      },
+    },
+    update: {},
+    create: {
+      hospitalId,
+      gateway: charge.gateway,
+      event: charge.event,
+      reference: charge.reference,
+      amount: charge.amount,
+      currency: charge.currency,
+      channel: charge.channel,
+      reason,
+      payload: JSON.parse(JSON.stringify(charge.payload ?? {})),
+    },
+  });
+
+  console.warn(`[Payment] Queued ${charge.gateway} charge ${charge.reference} for reconciliation: ${reason}`);
+  return reconciliation.id;
+};
+
+/**
+ * Match a settled gateway charge to its bill and record the payment, or queue
+ * it for finance when no bill can be identified safely.
+ */
+export const reconcileGatewayCharge = async (charge: GatewayCharge): Promise<ReconcileResult> => {
+  const existing = await prisma.payment.findUnique({
+    where: { gatewayReference: charge.reference },
+  });
+
+  if (existing) {
+    return { outcome: 'duplicate', paymentId: existing.id, billingRecordId: existing.billingRecordId };
+  }
+
+  // Only trust a hospital ID from metadata if it actually exists
+  let hospitalId: string | undefined;
+  if (charge.metadata?.hospitalId) {
+    const hospital = await prisma.hospital.findUnique({
+      where: { id: String(charge.metadata.hospitalId) },
+      select: { id: true },
+    });
+    hospitalId = hospital?.id;
+  }
+
+  const unmatched = async (reason: string, scopedHospitalId = hospitalId): Promise<ReconcileResult> => ({
+    outcome: 'unmatched',
+    reason,
+    reconciliationId: await queueUnmatchedCharge(charge, reason, scopedHospitalId),
+  });
+
+  if (!(charge.amount > 0)) {
+    return unmatched('Charge amount is not positive');
+  }
+
+  const billingRecordId = billingRecordIdFromMetadata(charge.metadata);
+  if (!billingRecordId) {
+    return unmatched('No billing record reference in transaction metadata');
+  }
+
+  const billingRecord = await prisma.billingRecord.findUnique({ where: { id: billingRecordId } });
+  if (!billingRecord) {
+    return unmatched(`Billing record ${billingRecordId} not found`);
+  }
+
+  if (hospitalId && billingRecord.hospitalId !== hospitalId) {
+    return unmatched('Billing record belongs to a different hospital', billingRecord.hospitalId);
+  }
+
+  if (billingRecord.status === 'CANCELLED') {
+    return unmatched('Billing record is cancelled', billingRecord.hospitalId);
+  }
+
+  const result = await applyGatewayCharge(charge, billingRecordId);
+
+  return {
+    outcome: result.duplicate ? 'duplicate' : 'applied',
+    paymentId: result.paymentId,
+    billingRecordId,
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * Sandbox provider
+ *
+ * An in-process stand-in for a real gateway so the whole online-payment flow
+ * (initialize -> checkout -> webhook -> reconciliation) can be exercised
+ * offline. Transactions live in memory and are lost on restart.
+ */
+
+import crypto from 'crypto';
+import { NIGERIAN_BANKS } from './banks';
+import { PaymentProvider, PaymentProviderError } from './types';
+
+interface SandboxTransaction {
+  reference: string;
+  email: string;
+  amount: number; // Minor units (kobo)
+  currency: string;
+  metadata?: Record<string, any>;
+  status: 'pending' | 'success' | 'failed';
+  channel?: string;
+  paidAt?: string;
+  refundedAmount: number; // Minor units (kobo)
+}
+
+const transactions = new Map<string, SandboxTransaction>();
+
+const webhookSecret = () => process.env.PAYMENT_SANDBOX_SECRET;
+
+const sign = (body: unknown, secret: string): string =>
+  crypto.createHmac('sha512', secret).update(JSON.stringify(body)).digest('hex');
+
+let warnedUnsigned = false;
+
+/**
+ * The sandbox settles real bills, so it runs only when explicitly enabled and
+ * given its own webhook secret; there is no default to forge signatures with.
+ */
+export const isSandboxEnabled = (): boolean => {
+  if (process.env.PAYMENT_SANDBOX_ENABLED !== 'true') return false;
+
+  if (!webhookSecret()) {
+    if (!warnedUnsigned) {
+      console.warn('[Payment] PAYMENT_SANDBOX_ENABLED is set without PAYMENT_SANDBOX_SECRET; sandbox stays off');
+      warnedUnsigned = true;
+    }
+    return false;
+  }
+
+  return true;
+};
+
+export const getSandboxTransaction = (reference: string): SandboxTransaction | undefined =>
+  transactions.get(reference);
+
+/**
+ * Simulate the customer finishing checkout. Returns a signed webhook event in
+ * the same shape the sandbox provider parses, ready for the webhook pipeline.
+ */
+export const completeSandboxTransaction = (
+  reference: string,
+  outcome: 'success' | 'failed',
+  channel = 'card'
+): { headers: Record<string, string>; body: any } => {
+  const secret = webhookSecret();
+  if (!isSandboxEnabled() || !secret) {
+    throw new PaymentProviderError('Sandbox payments are disabled', 404);
+  }
+
+  const transaction = transactions.get(reference);
+
+  if (!transaction) {
+    throw new PaymentProviderError('Sandbox transaction not found', 404);
+  }
+
+  if (transaction.status !== 'pending') {
+    throw new PaymentProviderError('Sandbox transaction already completed', 400);
+  }
+
+  transaction.status = outcome;
+  transaction.channel = channel;
+  transaction.paidAt = outcome === 'success' ? new Date().toISOString() : undefined;
+
+  const body = {
+    event: outcome === 'success' ? 'charge.success' : 'charge.failed',
+    data: { ...transaction },
+  };
+
+  return { headers: { 'x-sandbox-signature': sign(body, secret) }, body };
+};
+
+export const sandboxProvider: PaymentProvider = {
+  name: 'sandbox',
+
+  isConfigured() {
+    return isSandboxEnabled();
+  },
+
+  async initialize(params) {
+    if (transactions.has(params.reference)) {
+      throw new PaymentProviderError('Duplicate transaction reference', 400);
+    }
+
+    transactions.set(params.reference, {
+      reference: params.reference,
+      email: params.email,
+      amount: params.amount,
+      currency: params.currency || 'NGN',
+      metadata: params.metadata,
+      status: 'pending',
+      refundedAmount: 0,
+    });
+
+    const baseUrl = process.env.API_PUBLIC_URL || '';
+    return {
+      authorizationUrl: `${baseUrl}/api/v1/payments/sandbox/checkout/${encodeURIComponent(params.reference)}`,
+      accessCode: `sandbox_${params.reference}`,
+      reference: params.reference,
+    };
+  },
+
+  async verify(reference) {
+    const transaction = transactions.get(reference);
+
+    if (!transaction) {
+      throw new PaymentProviderError('Transaction not found', 404);
+    }
+
+    return {
+      reference,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      channel: transaction.channel,
+      status: transaction.status,
+      paidAt: transaction.paidAt,
+      customerEmail: transaction.email,
+      metadata: transaction.metadata,
+    };
+  },
+
+  async refund(params) {
+    const transaction = transactions.get(params.reference);
+
+    if (!transaction) {
+      throw new PaymentProviderError('Transaction not found', 404);
+    }
+
+    if (transaction.status !== 'success') {
+      return { status: 'failed', message: 'Only successful transactions can be refunded' };
+    }
+
+    if (transaction.refundedAmount + params.amount > transaction.amount) {
+      return { status: 'failed', message: 'Refund exceeds the amount charged' };
+    }
+
+    transaction.refundedAmount += params.amount;
+    return { refundId: `sandbox_refund_${crypto.randomUUID()}`, status: 'success' };
+  },
+
+  // Sandbox refunds settle at once
+  async refundStatus(refundId) {
+    return { refundId, status: 'success' };
+  },
+
+  verifyWebhook(headers, body) {
+    const signature = headers['x-sandbox-signature'];
+    const secret = webhookSecret();
+    return isSandboxEnabled() && !!secret && typeof signature === 'string' && signature === sign(body, secret);
+  },
+
+  async parseWebhook(body) {
+    const data = body?.data || {};
+
+    if (body?.event === 'charge.success') {
+      return {
+        name: body.event,
+        type: 'charge.success',
+        reference: data.reference,
+        charge: {
+          gateway: 'sandbox',
+          event: body.event,
+          reference: data.reference,
+          amount: (data.amount || 0) / 100,
+          currency: data.currency,
+          channel: data.channel,
+          metadata: data.metadata,
+          payload: body,
+        },
+      };
+    }
+
+    return {
+      name: body?.event || 'unknown',
+      type: body?.event === 'charge.failed' ? 'charge.failed' : 'other',
+      reference: data.reference,
+    };
+  },
+
+  async listBanks() {
+    return NIGERIAN_BANKS;
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Payment provider contract
+ *
+ * Every online gateway (Paystack, Flutterwave, the in-process sandbox) is
+ * wrapped behind this interface so routes never depend on a vendor's URLs or
+ * response shapes. Amounts crossing this interface are in minor units (kobo)
+ * unless stated otherwise.
+ */
+
+import { GatewayCharge } from './reconciliation';
+
+export type PaymentProviderName = 'paystack' | 'flutterwave' | 'sandbox';
+
+export interface InitializeParams {
+  email: string;
+  amount: number; // Minor units (kobo)
+  reference: string;
+  currency?: string;
+  channels?: string[];
+  metadata?: Record<string, any>;
+  callbackUrl?: string;
+}
+
+export interface InitializeResult {
+  authorizationUrl?: string;
+  accessCode?: string;
+  reference: string;
+}
+
+export interface VerifyResult {
+  reference: string;
+  amount: number; // Minor units (kobo)
+  currency?: string;
+  channel?: string;
+  status: string; // Normalized to success | failed | pending
+  paidAt?: string;
+  customerEmail?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RefundParams {
+  reference: string; // Gateway reference of the original charge
+  amount: number; // Minor units (kobo)
+  reason?: string;
+}
+
+export interface RefundResult {
+  refundId?: string;
+  status: string; // Normalized to success | failed | pending
+  message?: string;
+}
+
+export interface WebhookEvent {
+  name: string; // Provider's own event name, for logging
+  type: 'charge.success' | 'charge.failed' | 'other';
+  reference?: string;
+  charge?: GatewayCharge; // Present for successful charges
+}
+
+export interface Bank {
+  name: string;
+  code: string;
+  type?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  isConfigured(): boolean;
+  initialize(params: InitializeParams): Promise<InitializeResult>;
+  verify(reference: string): Promise<VerifyResult>;
+  refund(params: RefundParams): Promise<RefundResult>;
+  refundStatus(refundId: string): Promise<RefundResult>; // Where a pending refund stands now
+  verifyWebhook(headers: Record<string, string | string[] | undefined>, body: unknown): boolean;
+  parseWebhook(body: any): Promise<WebhookEvent>;
+  listBanks(): Promise<Bank[]>;
+}
+
+/**
+ * Raised when a provider's API rejects a request; carries the HTTP status to relay.
+ */
+export class PaymentProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Pre-Authorization
+ *
+ * HMOs and NHIS only pay for admissions and high-cost services that they
+ * approved up front with a pre-auth code. This checks the code presented for
+ * an insured patient's admission or order before it goes ahead.
+ *
+ * Behaviour is configured in `settings.preAuthorization`:
+ *   enforcement      - BLOCK (refuse), WARN (proceed with a warning, default) or OFF
+ *   labCostThreshold - lab/imaging orders priced at or above this need pre-auth (default 50000)
+ *   labTestTypes     - test types that always need pre-auth (e.g. MRI, CT Scan)
+ */
+
+import { Patient, PreAuthorization, PreAuthServiceType, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+type Db = Prisma.TransactionClient;
+
+export type PreAuthEnforcement = 'BLOCK' | 'WARN' | 'OFF';
+
+/**
+ * Raised when an insured service is refused for lack of a valid pre-auth;
+ * carries the HTTP status to relay.
+ */
+export class PreAuthorizationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PreAuthorizationError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_LAB_COST_THRESHOLD = 50000;
+
+export const preAuthSettings = (settings: Record<string, any>) => {
+  const config = (settings.preAuthorization as Record<string, any>) || {};
+  const enforcement: PreAuthEnforcement = ['BLOCK', 'WARN', 'OFF'].includes(config.enforcement)
+    ? config.enforcement
+    : 'WARN';
+
+  return {
+    enforcement,
+    labCostThreshold: typeof config.labCostThreshold === 'number' ? config.labCostThreshold : DEFAULT_LAB_COST_THRESHOLD,
+    labTestTypes: Array.isArray(config.labTestTypes)
+      ? (config.labTestTypes as string[]).map((type) => type.toUpperCase())
+      : [],
+  };
+};
+
+/**
+ * Mark approvals past their validity date as EXPIRED.
+ */
+export const expireStalePreAuthorizations = async (hospitalId?: string, db: Db = prisma): Promise<number> => {
+  const { count } = await db.preAuthorization.updateMany({
+    where: {
+      ...(hospitalId && { hospitalId }),
+      status: 'APPROVED',
+      validUntil: { lt: new Date() },
+    },
+    data: { status: 'EXPIRED' },
+  });
+  return count;
+};
+
+/**
+ * Why a pre-auth cannot cover the service, or null when it can.
+ */
+const preAuthProblem = (
+  preAuth: PreAuthorization | null,
+  code: string,
+  serviceTypes: PreAuthServiceType[],
+  amount: number
+): string | null => {
+  if (!preAuth) {
+    return `Pre-authorization code ${code} not found for this patient`;
+  }
+  if (preAuth.status !== 'APPROVED' || (preAuth.validUntil && preAuth.validUntil < new Date())) {
+    return `Pre-authorization ${code} is ${preAuth.status === 'APPROVED' ? 'EXPIRED' : preAuth.status}`;
+  }
+  if (!serviceTypes.includes(preAuth.serviceType)) {
+    return `Pre-authorization ${code} covers ${preAuth.serviceType}, not ${serviceTypes.join('/')}`;
+  }
+  if (preAuth.approvedAmount !== null && preAuth.usedAmount + amount > preAuth.approvedAmount) {
+    return `Pre-authorization ${code} has ${preAuth.approvedAmount - preAuth.usedAmount} left of its approved limit`;
+  }
+  return null;
+};
+
+export interface PreAuthCheck {
+  preAuthorization: PreAuthorization | null;
+  warning?: string;
+}
+
+/**
+ * Validate the pre-auth code presented for an insured patient's service.
+ * Returns the covering pre-auth, or a warning when enforcement is WARN;
+ * throws PreAuthorizationError when enforcement is BLOCK.
+ */
+export const checkPreAuthorization = async (params: {
+  hospitalId: string;
+  patient: Pick<Patient, 'id' | 'insuranceProvider'>;
+  serviceTypes: PreAuthServiceType[];
+  required: boolean;
+  enforcement: PreAuthEnforcement;
+  code?: string;
+  amount?: number;
+  description: string;
+}): Promise<PreAuthCheck> => {
+  const { hospitalId, patient, serviceTypes, enforcement, description } = params;
+  const code = params.code?.trim();
+
+  // Self-paying patients and services below the threshold need nothing
+  if (!patient.insuranceProvider || (!params.required && !code)) {
+    return { preAuthorization: null };
+  }
+
+  let problem: string | null;
+  let preAuth: PreAuthorization | null = null;
+
+  if (!code) {
+    problem = `${patient.insuranceProvider} requires a pre-authorization code for ${description}`;
+  } else {
+    preAuth = await prisma.preAuthorization.findFirst({
+      where: { hospitalId, patientId: patient.id, code },
+    });
+    problem = preAuthProblem(preAuth, code, serviceTypes, params.amount || 0);
+  }
+
+  if (!problem) {
+    return { preAuthorization: preAuth };
+  }
+
+  if (enforcement === 'BLOCK' && params.required) {
+    throw new PreAuthorizationError(problem);
+  }
+
+  return { preAuthorization: null, warning: problem };
+};
+
+/**
+ * Draw an order's cost down against the pre-auth's approved limit.
+ */
+export const consumePreAuthorization = async (preAuthorizationId: string, amount: number, db: Db = prisma): Promise<void> => {
+  if (amount <= 0) return;
+  await db.preAuthorization.update({
+    where: { id: preAuthorizationId },
+    data: { usedAmount: { increment: amount } },
+  });
+};
@@ -0,0 +1,308 @@
+/**
+ * Refunds and Reversals
+ *
+ * A refund hands money back against a recorded payment (cash, bank transfer,
+ * or through the gateway that settled it); a reversal undoes a payment that
+ * was recorded in error. Both are requested, then approved by a role listed in
+ * `settings.billing.refundApprovalRoles` (default ADMIN; SUPER_ADMIN always
+ * may) before they touch the bill. Gateway refunds are sent to the provider on
+ * approval and complete only once the provider has paid them out; one it has
+ * queued stays PROCESSING until a periodic check sees it settle. Payments made from a
+ * patient wallet can only be reversed, which returns the money to the wallet.
+ */
+
+import { Prisma, Refund, RefundMethod, RefundStatus } from '@prisma/client';
+import { prisma } from '../db';
+import { resolveBillingStatus } from '../utils/billing';
+import { broadcastBillingUpdate } from '../socket';
+import { getPaymentProvider, isPaymentProviderName } from './payments';
+import { tillSessionFor } from './cashierSessions';
+import { creditWallet } from './wallet';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a refund cannot be requested or processed; carries the HTTP status to relay.
+ */
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_APPROVAL_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+// Refunds still holding part of the payment until they complete or fail
+const OPEN_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'PROCESSING'];
+
+export const canApproveRefunds = (role: string, settings: Record<string, any>): boolean => {
+  if (role === 'SUPER_ADMIN') return true;
+
+  const configured = settings.billing?.refundApprovalRoles;
+  const roles: string[] = Array.isArray(configured) ? configured : DEFAULT_APPROVAL_ROLES;
+  return roles.includes(role);
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * What can still be refunded on a payment: its amount less completed refunds
+ * and any refunds already waiting for approval.
+ */
+export const refundableAmount = async (db: Db, paymentId: string): Promise<number> => {
+  const payment = await db.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  const open = await db.refund.aggregate({
+    where: { paymentId, status: { in: OPEN_REFUND_STATUSES } },
+    _sum: { amount: true },
+  });
+  return roundMoney(payment.amount - payment.refundedAmount - (open._sum.amount || 0));
+};
+
+/**
+ * Take a completed refund off its payment and bill, and re-derive the bill's status.
+ */
+const completeRefund = async (db: Db, refund: Refund, gatewayRefundId?: string) => {
+  // Cash and transfers leave the requesting cashier's till, if they have one open
+  const cashierSessionId = refund.method === 'GATEWAY'
+    ? null
+    : await tillSessionFor(db, refund.requestedBy, refund.hospitalId, false);
+
+  const completed = await db.refund.update({
+    where: { id: refund.id },
+    data: { status: 'COMPLETED', completedAt: new Date(), gatewayRefundId, cashierSessionId },
+  });
+
+  const payment = await db.payment.update({
+    where: { id: refund.paymentId },
+    data: { refundedAmount: { increment: refund.amount } },
+  });
+
+  const bill = await db.billingRecord.update({
+    where: { id: payment.billingRecordId },
+    data: { paidAmount: { decrement: refund.amount } },
+  });
+
+  // Wallet money goes back into the wallet rather than out of the till
+  if (payment.method === 'DEPOSIT') {
+    await creditWallet(db, 'REVERSAL', {
+      patientId: bill.patientId,
+      hospitalId: bill.hospitalId,
+      amount: refund.amount,
+      billingRecordId: bill.id,
+      paymentId: payment.id,
+      notes: refund.reason,
+      userId: refund.decidedBy || refund.requestedBy,
+    });
+  }
+
+  const billingRecord = await db.billingRecord.update({
+    where: { id: bill.id },
+    data: {
+      // A cancelled bill stays cancelled while its money is handed back
+      status: bill.status === 'CANCELLED'
+        ? bill.status
+        : resolveBillingStatus(bill.totalAmount, bill.paidAmount, bill.status),
+    },
+    include: {
+      items: true,
+      payments: true,
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+
+  return { refund: completed, billingRecord };
+};
+
+/**
+ * Approve a pending refund and carry it out. Gateway refunds go to the
+ * provider first; a refusal leaves the refund FAILED and the bill untouched,
+ * and one the provider has only queued stays PROCESSING with the bill untouched.
+ */
+export const approveRefund = async (refundId: string, userId: string, notes?: string) => {
+  // Claim the refund so a second approver cannot send it to the gateway twice
+  const { count } = await prisma.refund.updateMany({
+    where: { id: refundId, status: 'PENDING' },
+    data: { status: 'PROCESSING', decidedBy: userId, decisionNotes: notes, decidedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new RefundError('Refund is no longer pending', 409);
+  }
+
+  const refund = await prisma.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: { payment: true },
+  });
+
+  let gatewayRefundId: string | undefined;
+
+  if (refund.method === 'GATEWAY') {
+    const { gateway, gatewayReference } = refund.payment;
+
+    try {
+      if (!isPaymentProviderName(gateway) || !gatewayReference) {
+        throw new RefundError('Payment was not settled through a supported gateway');
+      }
+
+      const result = await getPaymentProvider(gateway).refund({
+        reference: gatewayReference,
+        amount: Math.round(refund.amount * 100),
+        reason: refund.reason,
+      });
+
+      if (result.status === 'failed') {
+        throw new RefundError(result.message || 'Gateway declined the refund', 502);
+      }
+
+      gatewayRefundId = result.refundId;
+
+      // Not paid out yet: the bill keeps the money until settleGatewayRefunds sees it leave
+      if (result.status !== 'success') {
+        const processing = await prisma.refund.update({
+          where: { id: refundId },
+          data: { gatewayRefundId },
+        });
+        return { refund: processing, billingRecord: null };
+      }
+    } catch (error) {
+      const failureReason = error instanceof Error ? error.message : 'Gateway refund failed';
+      const failed = await prisma.refund.update({
+        where: { id: refundId },
+        data: { status: 'FAILED', failureReason },
+      });
+      return { refund: failed, billingRecord: null };
+    }
+  }
+
+  return prisma.$transaction((tx) => completeRefund(tx, refund, gatewayRefundId));
+};
+
+/**
+ * Ask the gateway about refunds it queued but had not paid out, completing
+ * those it has since paid and failing those it declined. Run periodically by
+ * the job scheduler.
+ */
+export const settleGatewayRefunds = async () => {
+  const refunds = await prisma.refund.findMany({
+    where: { status: 'PROCESSING', method: 'GATEWAY', gatewayRefundId: { not: null } },
+    include: { payment: { select: { gateway: true } } },
+  });
+
+  const summary = { refundsChecked: refunds.length, completed: 0, declined: 0, failed: 0 };
+
+  for (const refund of refunds) {
+    try {
+      const { gateway } = refund.payment;
+      if (!isPaymentProviderName(gateway)) continue;
+
+      const result = await getPaymentProvider(gateway).refundStatus(refund.gatewayRefundId!);
+
+      if (result.status === 'success') {
+        const settled = await prisma.$transaction(async (tx) => {
+          // Only one settlement wins if the refund is checked twice at once
+          const { count } = await tx.refund.updateMany({
+            where: { id: refund.id, status: 'PROCESSING' },
+            data: { status: 'COMPLETED' },
+          });
+          return count === 0 ? null : completeRefund(tx, refund, refund.gatewayRefundId!);
+        });
+
+        if (settled) {
+          broadcastBillingUpdate(settled.billingRecord.hospitalId, 'updated', settled.billingRecord);
+          summary.completed++;
+        }
+      } else if (result.status === 'failed') {
+        const { count } = await prisma.refund.updateMany({
+          where: { id: refund.id, status: 'PROCESSING' },
+          data: { status: 'FAILED', failureReason: result.message || 'Gateway declined the refund' },
+        });
+        summary.declined += count;
+      }
+    } catch (error) {
+      console.error(`[Refunds] Settlement check for refund ${refund.id} failed:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Refunds for the cashier's end-of-day report: completed refunds by the day
+ * they were paid out (or any status by request date), with totals per method.
+ */
+export const refundRegister = async (options: {
+  hospitalId?: string;
+  from: Date;
+  to: Date;
+  status?: RefundStatus;
+  method?: RefundMethod;
+  requestedBy?: string;
+}) => {
+  const status = options.status || 'COMPLETED';
+  const dateField = status === 'COMPLETED' ? 'completedAt' : 'createdAt';
+
+  const refunds = await prisma.refund.findMany({
+    where: {
+      ...(options.hospitalId && { hospitalId: options.hospitalId }),
+      status,
+      ...(options.method && { method: options.method }),
+      ...(options.requestedBy && { requestedBy: options.requestedBy }),
+      [dateField]: { gte: options.from, lte: options.to },
+    },
+    include: {
+      payment: {
+        select: {
+          id: true,
+          amount: true,
+          method: true,
+          receiptNumber: true,
+          billingRecord: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              patient: { select: { id: true, firstName: true, lastName: true } },
+            },
+          },
+        },
+      },
+      requestedByUser: { select: { id: true, firstName: true, lastName: true } },
+      decidedByUser: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { [dateField]: 'asc' },
+  });
+
+  // Reversals hand nothing back, so they are totalled apart from money paid out
+  const byMethod: Record<string, number> = {};
+  let reversals = 0;
+  for (const refund of refunds) {
+    if (refund.type === 'REVERSAL' || !refund.method) {
+      reversals += refund.amount;
+      continue;
+    }
+    byMethod[refund.method] = roundMoney((byMethod[refund.method] || 0) + refund.amount);
+  }
+
+  return {
+    from: options.from,
+    to: options.to,
+    status,
+    refunds,
+    totals: {
+      byMethod,
+      paidOut: roundMoney(Object.values(byMethod).reduce((sum, amount) => sum + amount, 0)),
+      reversals: roundMoney(reversals),
+      count: refunds.length,
+    },
+  };
+};
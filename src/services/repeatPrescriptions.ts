@@ -0,0 +1,293 @@
+/**
+ * Repeat prescriptions
+ *
+ * A prescription for chronic medication can authorise refills: further
+ * supplies of the same items, each due a set number of days after the last,
+ * until the refills are used up or the repeat expires. Pharmacy issues a
+ * refill without a new consultation, as a prescription copied from the repeat
+ * on a pharmacy visit and dispensed at once, so it is stock-tracked, registered
+ * and billed like any other supply. Each refill is checked again as if newly
+ * prescribed: drugs must still be on the formulary (or free text still
+ * allowed), allergies or medications recorded since the repeat was written
+ * are screened, with severe alerts needing a stated reason, and doses are
+ * checked against the patient's current age and weight.
+ *
+ * Configured in `settings.repeats`:
+ *   maxRefills      - most refills one prescription may authorise (default 12)
+ *   maxValidityDays - how long repeats last at most, and by default (default 180)
+ *   earlyRefillDays - how many days before it is due a refill may be issued (default 3)
+ */
+
+import { Prescription, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { ClinicalAlert, checkPrescription as screenPrescription, hasSevereAlerts } from './clinicalDecisionSupport';
+import { DispenseOptions, dispenseInTransaction } from './dispensing';
+import { checkDoses, dosingPatient } from './dosing';
+import { resolvePrescriptionItems } from './formulary';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Raised when repeats cannot be set up or a refill cannot be issued; carries the HTTP status to relay.
+ */
+export class RepeatPrescriptionError extends Error {
+  status: number;
+  alerts?: ClinicalAlert[];
+
+  constructor(message: string, status = 400, alerts?: ClinicalAlert[]) {
+    super(message);
+    this.name = 'RepeatPrescriptionError';
+    this.status = status;
+    this.alerts = alerts;
+  }
+}
+
+export interface RepeatInput {
+  refillsAllowed?: unknown;
+  refillIntervalDays?: unknown;
+  repeatUntil?: unknown;
+}
+
+export const repeatSettings = (settings: Record<string, any>) => {
+  const maxRefills = Number(settings.repeats?.maxRefills ?? 12);
+  const maxValidityDays = Number(settings.repeats?.maxValidityDays ?? 180);
+  const earlyRefillDays = Number(settings.repeats?.earlyRefillDays ?? 3);
+
+  return {
+    maxRefills: Number.isInteger(maxRefills) && maxRefills > 0 ? maxRefills : 12,
+    maxValidityDays: Number.isInteger(maxValidityDays) && maxValidityDays > 0 ? maxValidityDays : 180,
+    earlyRefillDays: Number.isFinite(earlyRefillDays) && earlyRefillDays >= 0 ? earlyRefillDays : 3,
+  };
+};
+
+/**
+ * Validate the repeat terms given when prescribing. The interval defaults to
+ * the longest course among the items and the end date to the longest the
+ * hospital allows. Returns nothing to store when no refills are asked for.
+ */
+export const repeatTerms = (
+  input: RepeatInput,
+  items: { durationDays?: number | null }[],
+  settings: Record<string, any>,
+  now: Date = new Date()
+): Pick<Prisma.PrescriptionUncheckedCreateInput, 'refillsAllowed' | 'refillIntervalDays' | 'repeatExpiresAt'> => {
+  if (input.refillsAllowed === undefined || input.refillsAllowed === null || Number(input.refillsAllowed) === 0) {
+    return {};
+  }
+
+  const { maxRefills, maxValidityDays } = repeatSettings(settings);
+  const refillsAllowed = Number(input.refillsAllowed);
+
+  if (!Number.isInteger(refillsAllowed) || refillsAllowed < 0 || refillsAllowed > maxRefills) {
+    throw new RepeatPrescriptionError(`Refills must be a whole number from 0 to ${maxRefills}`);
+  }
+
+  const courses = items.map((item) => item.durationDays || 0);
+  const refillIntervalDays = input.refillIntervalDays !== undefined && input.refillIntervalDays !== null
+    ? Number(input.refillIntervalDays)
+    : Math.max(0, ...courses) || null;
+
+  if (refillIntervalDays === null) {
+    throw new RepeatPrescriptionError('A refill interval is required when the items have no course length');
+  }
+  if (!Number.isInteger(refillIntervalDays) || refillIntervalDays < 1) {
+    throw new RepeatPrescriptionError('Refill interval must be a whole number of days');
+  }
+
+  const latest = new Date(now.getTime() + maxValidityDays * DAY_MS);
+  const repeatExpiresAt = input.repeatUntil ? new Date(String(input.repeatUntil)) : latest;
+
+  if (Number.isNaN(repeatExpiresAt.getTime()) || repeatExpiresAt <= now) {
+    throw new RepeatPrescriptionError('Repeats must run until a future date');
+  }
+  if (repeatExpiresAt > latest) {
+    throw new RepeatPrescriptionError(`Repeats can run for at most ${maxValidityDays} days`);
+  }
+
+  return { refillsAllowed, refillIntervalDays, repeatExpiresAt };
+};
+
+/**
+ * Where a repeat stands: refills left, whether it has expired, and when the
+ * next refill can be issued.
+ */
+export const repeatStatus = (
+  prescription: Pick<Prescription, 'refillsAllowed' | 'refillsIssued' | 'repeatExpiresAt' | 'nextRefillDue' | 'status'>,
+  earlyRefillDays: number,
+  now: Date = new Date()
+) => {
+  const refillsRemaining = Math.max(prescription.refillsAllowed - prescription.refillsIssued, 0);
+  const expired = !!prescription.repeatExpiresAt && prescription.repeatExpiresAt <= now;
+  const refillableFrom = prescription.nextRefillDue
+    ? new Date(prescription.nextRefillDue.getTime() - earlyRefillDays * DAY_MS)
+    : null;
+
+  return {
+    refillsRemaining,
+    expired,
+    nextRefillDue: prescription.nextRefillDue,
+    refillableFrom,
+    active: refillsRemaining > 0 && !expired && prescription.status !== 'CANCELLED',
+  };
+};
+
+/**
+ * Issue the next refill of a repeat prescription: re-check its items, copy
+ * them onto a new prescription on a pharmacy visit and dispense them, all in
+ * one transaction so a refused dispense leaves the repeat untouched.
+ */
+export const refillPrescription = async (
+  repeatId: string,
+  userId: string,
+  options: DispenseOptions & { overrideReason?: string } = {},
+  now: Date = new Date()
+) => {
+  const repeat = await prisma.prescription.findUniqueOrThrow({
+    where: { id: repeatId },
+    include: {
+      items: true,
+      visit: { select: { hospitalId: true } },
+      patient: { select: { allergies: true, currentMedications: true } },
+    },
+  });
+  const settings = await getHospitalSettings(repeat.visit.hospitalId);
+  const { earlyRefillDays } = repeatSettings(settings);
+  const status = repeatStatus(repeat, earlyRefillDays, now);
+
+  if (repeat.repeatOfId) {
+    throw new RepeatPrescriptionError('Refills are issued from the original repeat prescription');
+  }
+  if (repeat.refillsAllowed === 0) {
+    throw new RepeatPrescriptionError('Prescription has no repeats');
+  }
+  if (repeat.status === 'CANCELLED') {
+    throw new RepeatPrescriptionError('Prescription is cancelled');
+  }
+  if (repeat.status === 'PENDING') {
+    throw new RepeatPrescriptionError('The first supply has not been dispensed', 409);
+  }
+  if (status.refillsRemaining === 0) {
+    throw new RepeatPrescriptionError('All refills have been issued', 409);
+  }
+  if (status.expired) {
+    throw new RepeatPrescriptionError('Repeats on this prescription have expired', 409);
+  }
+  if (status.refillableFrom && now < status.refillableFrom) {
+    throw new RepeatPrescriptionError(`Refill is not due until ${status.nextRefillDue!.toISOString().slice(0, 10)}`, 409);
+  }
+
+  // Re-resolve as if prescribed today: inactive drugs and newly forbidden free text are refused
+  const items = await resolvePrescriptionItems(
+    repeat.visit.hospitalId,
+    repeat.items.map((item) => ({
+      formularyDrugId: item.formularyDrugId || undefined,
+      medicationName: item.medicationName,
+      quantity: item.quantity,
+      dosage: item.dosage,
+      frequency: item.frequency,
+      duration: item.duration,
+      instructions: item.instructions || undefined,
+      doseAmount: item.doseAmount ?? undefined,
+      doseUnit: item.doseUnit || undefined,
+      route: item.route || undefined,
+      frequencyCode: item.frequencyCode || undefined,
+      durationDays: item.durationDays ?? undefined,
+    })),
+    settings
+  );
+
+  const alerts = screenPrescription(repeat.patient, items.map((item) => item.medicationName));
+  const overridden = hasSevereAlerts(alerts);
+
+  if (overridden && !options.overrideReason?.trim()) {
+    throw new RepeatPrescriptionError('Severe clinical alerts must be overridden with a reason', 409, alerts);
+  }
+
+  // A child may have grown into a different range since the repeat was written; flagged, not refused
+  const dosing = await dosingPatient(repeat.patientId, settings);
+  const doseCheck = await checkDoses(items, dosing);
+
+  const refillNumber = repeat.refillsIssued + 1;
+
+  return prisma.$transaction(async (tx) => {
+    // Guard against another refill of the same repeat since it was read
+    const { count } = await tx.prescription.updateMany({
+      where: { id: repeat.id, refillsIssued: repeat.refillsIssued },
+      data: {
+        refillsIssued: { increment: 1 },
+        nextRefillDue: new Date(now.getTime() + repeat.refillIntervalDays! * DAY_MS),
+      },
+    });
+    if (count === 0) {
+      throw new RepeatPrescriptionError('Prescription changed while refilling; please try again', 409);
+    }
+
+    const visit = await tx.visit.create({
+      data: {
+        hospitalId: repeat.visit.hospitalId,
+        patientId: repeat.patientId,
+        department: 'Pharmacy',
+        reasonForVisit: `Repeat prescription refill ${refillNumber} of ${repeat.refillsAllowed}`,
+        status: 'COMPLETED',
+        completedTime: now,
+        createdBy: userId,
+      },
+    });
+
+    // The refill is the prescriber's, issued on their authority
+    const refill = await tx.prescription.create({
+      data: {
+        patientId: repeat.patientId,
+        visitId: visit.id,
+        doctorId: repeat.doctorId,
+        repeatOfId: repeat.id,
+        status: 'PENDING',
+        items: {
+          create: items,
+        },
+      },
+    });
+
+    const dispense = await dispenseInTransaction(tx, refill.id, userId, options);
+    const updatedRepeat = await tx.prescription.findUniqueOrThrow({ where: { id: repeat.id } });
+
+    return {
+      ...dispense,
+      hospitalId: repeat.visit.hospitalId,
+      refillNumber,
+      alerts,
+      overridden,
+      dosing: {
+        weightKg: dosing.weightKg,
+        weighedAt: dosing.weighedAt,
+        calculations: doseCheck.calculations,
+        warnings: doseCheck.warnings,
+      },
+      repeat: { ...updatedRepeat, ...repeatStatus(updatedRepeat, earlyRefillDays, now) },
+    };
+  });
+};
+
+/**
+ * Repeat prescriptions with a refill due by `until` that can still be issued,
+ * soonest first, for pharmacy to prepare and patients to be reminded.
+ */
+export const refillsDue = (hospitalId: string, until: Date, now: Date = new Date()) =>
+  prisma.prescription.findMany({
+    where: {
+      visit: { hospitalId },
+      repeatOfId: null,
+      status: { in: ['DISPENSED', 'PARTIALLY_DISPENSED'] },
+      refillsIssued: { lt: prisma.prescription.fields.refillsAllowed },
+      nextRefillDue: { lte: until },
+      OR: [{ repeatExpiresAt: null }, { repeatExpiresAt: { gt: now } }],
+    },
+    include: {
+      items: { select: { id: true, medicationName: true, quantity: true, dosage: true, frequency: true } },
+      patient: { select: { id: true, firstName: true, lastName: true, phone: true } },
+      doctor: { select: { id: true, firstName: true, lastName: true } },
+      refills: { select: { id: true, status: true, createdAt: true }, orderBy: { createdAt: 'desc' }, take: 1 },
+    },
+    orderBy: { nextRefillDue: 'asc' },
+  });
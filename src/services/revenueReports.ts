@@ -0,0 +1,251 @@
+/**
+ * Revenue Reports
+ *
+ * Finance analytics over a range of local days in the hospital's timezone.
+ * Billed revenue counts non-cancelled bills raised in the range, net of
+ * approved adjustments; collections count payments received in the range, net
+ * of refunds. Debtor ageing covers bills raised before the end of the range
+ * that are still unpaid today, aged to the end of the range from the day each
+ * bill was raised.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { localDateKey } from '../utils/dates';
+
+export type ReportInterval = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SELF_PAY = 'Self-pay';
+const UNASSIGNED = 'Unassigned';
+
+const AGEING_BUCKETS = [
+  { label: '0-30', maxDays: 30 },
+  { label: '31-60', maxDays: 60 },
+  { label: '61-90', maxDays: 90 },
+  { label: '90+', maxDays: Infinity },
+];
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const add = (totals: Map<string, { amount: number; count: number }>, key: string, amount: number) => {
+  const entry = totals.get(key) || { amount: 0, count: 0 };
+  entry.amount += amount;
+  entry.count++;
+  totals.set(key, entry);
+};
+
+// Largest first, amounts rounded once at the end
+const ranked = (totals: Map<string, { amount: number; count: number }>, keyName: string) =>
+  [...totals.entries()]
+    .map(([key, entry]) => ({ [keyName]: key, amount: roundMoney(entry.amount), count: entry.count }))
+    .sort((a, b) => b.amount - a.amount);
+
+/**
+ * The period a local date falls in: the date itself, the Monday starting its
+ * week, or its YYYY-MM month.
+ */
+export const periodKey = (dateKey: string, interval: ReportInterval): string => {
+  if (interval === 'MONTHLY') return dateKey.slice(0, 7);
+  if (interval === 'DAILY') return dateKey;
+
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+};
+
+// Every period between two local dates, so quiet days still show as zero
+const periodKeys = (startDate: string, endDate: string, interval: ReportInterval): string[] => {
+  const keys: string[] = [];
+  for (let day = Date.parse(startDate); day <= Date.parse(endDate); day += DAY_MS) {
+    const key = periodKey(new Date(day).toISOString().slice(0, 10), interval);
+    if (keys[keys.length - 1] !== key) keys.push(key);
+  }
+  return keys;
+};
+
+const billInclude = {
+  items: { select: { category: true, amount: true, quantity: true, taxAmount: true } },
+  corporateAccount: { select: { name: true } },
+  visit: {
+    select: {
+      department: true,
+      assignedUser: { select: { id: true, firstName: true, lastName: true } },
+      consultations: {
+        select: { doctor: { select: { id: true, firstName: true, lastName: true } } },
+        orderBy: { createdAt: 'asc' as const },
+        take: 1,
+      },
+    },
+  },
+} satisfies Prisma.BillingRecordInclude;
+
+type ReportBill = Prisma.BillingRecordGetPayload<{ include: typeof billInclude }>;
+
+// Who a bill's share is owed by: the insurer or corporate account for its share, the patient for the rest
+const payerShares = (bill: ReportBill): { payer: string; amount: number }[] => {
+  const payer = bill.corporateAccount?.name || bill.insuranceProvider;
+  if (!payer || bill.payerAmount <= 0) return [{ payer: SELF_PAY, amount: bill.totalAmount }];
+
+  return [
+    { payer, amount: bill.payerAmount },
+    { payer: SELF_PAY, amount: bill.totalAmount - bill.payerAmount },
+  ].filter((share) => share.amount > 0);
+};
+
+// The doctor who saw the patient, else the one the visit was assigned to
+const billDoctor = (bill: ReportBill) => bill.visit.consultations[0]?.doctor || bill.visit.assignedUser;
+
+/**
+ * Debtor ageing of bills still owed as at `asOf`, overall and per payer.
+ */
+const debtorAgeing = async (hospitalId: string, asOf: Date) => {
+  const bills = await prisma.billingRecord.findMany({
+    where: { hospitalId, status: { in: ['PENDING', 'PARTIAL'] }, createdAt: { lt: asOf } },
+    include: billInclude,
+  });
+
+  const buckets = AGEING_BUCKETS.map((bucket) => ({ bucket: bucket.label, amount: 0, count: 0 }));
+  const byPayer = new Map<string, Record<string, number>>();
+
+  for (const bill of bills) {
+    const balance = bill.totalAmount - bill.paidAmount;
+    if (balance <= 0) continue;
+
+    const ageDays = Math.floor((asOf.getTime() - bill.createdAt.getTime()) / DAY_MS);
+    const index = AGEING_BUCKETS.findIndex((bucket) => ageDays <= bucket.maxDays);
+    buckets[index].amount += balance;
+    buckets[index].count++;
+
+    // Payments reduce each share pro rata; good enough for an ageing view
+    const owedRatio = balance / bill.totalAmount;
+    for (const share of payerShares(bill)) {
+      const row = byPayer.get(share.payer) || Object.fromEntries(AGEING_BUCKETS.map((bucket) => [bucket.label, 0]));
+      row[AGEING_BUCKETS[index].label] += share.amount * owedRatio;
+      byPayer.set(share.payer, row);
+    }
+  }
+
+  return {
+    asOf,
+    buckets: buckets.map((bucket) => ({ ...bucket, amount: roundMoney(bucket.amount) })),
+    total: roundMoney(buckets.reduce((sum, bucket) => sum + bucket.amount, 0)),
+    byPayer: [...byPayer.entries()].map(([payer, row]) => ({
+      payer,
+      ...Object.fromEntries(Object.entries(row).map(([label, amount]) => [label, roundMoney(amount)])),
+      total: roundMoney(Object.values(row).reduce((sum, amount) => sum + amount, 0)),
+    })),
+  };
+};
+
+/**
+ * Revenue, collections and debtor ageing for a hospital between two local
+ * dates (inclusive). `from` and `to` are the instants bounding those days.
+ */
+export const revenueReport = async (params: {
+  hospitalId: string;
+  startDate: string;
+  endDate: string;
+  from: Date;
+  to: Date;
+  timezone: string;
+  interval: ReportInterval;
+}) => {
+  const { hospitalId, startDate, endDate, from, to, timezone, interval } = params;
+
+  const [bills, payments] = await Promise.all([
+    prisma.billingRecord.findMany({
+      where: { hospitalId, status: { not: 'CANCELLED' }, createdAt: { gte: from, lt: to } },
+      include: billInclude,
+    }),
+    prisma.payment.findMany({
+      where: { billingRecord: { hospitalId }, createdAt: { gte: from, lt: to } },
+      select: { amount: true, refundedAmount: true, method: true, createdAt: true },
+    }),
+  ]);
+
+  const byCategory = new Map<string, { amount: number; count: number }>();
+  const byDepartment = new Map<string, { amount: number; count: number }>();
+  const byDoctor = new Map<string, { amount: number; count: number }>();
+  const doctorNames = new Map<string, string>();
+  const byPayer = new Map<string, { amount: number; count: number }>();
+  const byMethod = new Map<string, { amount: number; count: number }>();
+
+  const series = new Map(periodKeys(startDate, endDate, interval).map((key) => [key, { billed: 0, collected: 0 }]));
+
+  let billed = 0;
+  let adjustments = 0;
+  let tax = 0;
+  let paidOnBilled = 0;
+
+  for (const bill of bills) {
+    billed += bill.totalAmount;
+    adjustments += bill.adjustmentAmount;
+    tax += bill.taxAmount;
+    paidOnBilled += bill.paidAmount;
+
+    // Categories are reported gross; discounts are shown once, against the total
+    for (const item of bill.items) {
+      add(byCategory, item.category, item.amount * item.quantity + item.taxAmount);
+    }
+
+    add(byDepartment, bill.visit.department, bill.totalAmount);
+
+    const doctor = billDoctor(bill);
+    if (doctor) doctorNames.set(doctor.id, `${doctor.firstName} ${doctor.lastName}`);
+    add(byDoctor, doctor?.id || UNASSIGNED, bill.totalAmount);
+
+    for (const share of payerShares(bill)) {
+      add(byPayer, share.payer, share.amount);
+    }
+
+    const period = series.get(periodKey(localDateKey(bill.createdAt, timezone), interval));
+    if (period) period.billed += bill.totalAmount;
+  }
+
+  let collected = 0;
+  for (const payment of payments) {
+    const net = payment.amount - payment.refundedAmount;
+    collected += net;
+    add(byMethod, payment.method, net);
+
+    const period = series.get(periodKey(localDateKey(payment.createdAt, timezone), interval));
+    if (period) period.collected += net;
+  }
+
+  return {
+    hospitalId,
+    startDate,
+    endDate,
+    interval,
+    totals: {
+      billed: roundMoney(billed),
+      adjustments: roundMoney(adjustments),
+      tax: roundMoney(tax),
+      bills: bills.length,
+      collected: roundMoney(collected),
+      // Share of the period's billing already paid, whenever it was paid
+      collectionRate: billed > 0 ? Math.round((paidOnBilled / billed) * 10000) / 100 : 0,
+    },
+    revenue: {
+      byCategory: ranked(byCategory, 'category'),
+      byDepartment: ranked(byDepartment, 'department'),
+      byDoctor: ranked(byDoctor, 'doctorId').map((row) => ({
+        ...row,
+        doctorId: row.doctorId === UNASSIGNED ? null : row.doctorId,
+        doctorName: doctorNames.get(row.doctorId as string) || UNASSIGNED,
+      })),
+      byPayer: ranked(byPayer, 'payer'),
+    },
+    collections: {
+      byMethod: ranked(byMethod, 'method'),
+    },
+    series: [...series.entries()].map(([period, entry]) => ({
+      period,
+      billed: roundMoney(entry.billed),
+      collected: roundMoney(entry.collected),
+    })),
+    ageing: await debtorAgeing(hospitalId, to),
+  };
+};
@@ -0,0 +1,239 @@
+/**
+ * Tariffs
+ *
+ * Resolves bill lines against the hospital's service catalogue so amounts
+ * come from the price list rather than from whatever the client posts.
+ */
+
+import { BillingCategory, Prisma, RoomType, Tariff, WardType } from '@prisma/client';
+import { prisma } from '../db';
+
+type Db = Prisma.TransactionClient;
+
+export const BILLING_CATEGORIES: BillingCategory[] = ['CONSULTATION', 'LAB', 'MEDICATION', 'PROCEDURE', 'OTHER'];
+
+export const isBillingCategory = (value: unknown): value is BillingCategory =>
+  typeof value === 'string' && (BILLING_CATEGORIES as string[]).includes(value);
+
+export interface BillItemInput {
+  serviceCode?: string;
+  description?: string;
+  category?: BillingCategory;
+  amount?: number;
+  quantity?: number;
+}
+
+export interface ResolvedBillItem {
+  description: string;
+  category: BillingCategory;
+  amount: number;
+  quantity: number;
+  serviceCode?: string;
+  tariffId?: string;
+  priceOverridden: boolean;
+}
+
+/**
+ * Raised when a bill line cannot be priced; carries the HTTP status to relay.
+ */
+export class TariffError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'TariffError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_OVERRIDE_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+/**
+ * Roles allowed to bill ad-hoc items or change a tariff price, from
+ * `settings.billing.priceOverrideRoles`.
+ */
+export const canOverridePrices = (role: string, settings: Record<string, any>): boolean => {
+  const roles = settings.billing?.priceOverrideRoles;
+  return (Array.isArray(roles) ? roles : DEFAULT_OVERRIDE_ROLES).includes(role);
+};
+
+// NHIS was renamed NHIA in 2022; hospitals use both names
+const isNhisPayer = (insuranceProvider: string): boolean => /^(NHIS|NHIA)\b/i.test(insuranceProvider.trim());
+
+/**
+ * Price a tariff for the bill's payer: NHIS and HMO prices apply when set,
+ * otherwise the standard price.
+ */
+export const priceForPayer = (tariff: Tariff, insuranceProvider?: string | null): number => {
+  if (insuranceProvider) {
+    if (isNhisPayer(insuranceProvider)) {
+      return tariff.nhisPrice ?? tariff.price;
+    }
+    return tariff.hmoPrice ?? tariff.price;
+  }
+  return tariff.price;
+};
+
+/**
+ * The tariff version in force for a service code at a point in time.
+ */
+export const findEffectiveTariff = async (
+  hospitalId: string,
+  code: string,
+  at: Date = new Date(),
+  db: Db = prisma
+): Promise<Tariff | null> => {
+  return db.tariff.findFirst({
+    where: {
+      hospitalId,
+      code: code.trim().toUpperCase(),
+      active: true,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  });
+};
+
+/**
+ * Price the lines of a new bill. Lines with a service code take the tariff
+ * price; ad-hoc lines and changed prices need the override permission.
+ */
+export const resolveBillItems = async (
+  hospitalId: string,
+  items: BillItemInput[],
+  options: { insuranceProvider?: string | null; allowOverride: boolean },
+  db: Db = prisma
+): Promise<ResolvedBillItem[]> => {
+  const resolved: ResolvedBillItem[] = [];
+
+  for (const item of items) {
+    const quantity = item.quantity !== undefined && item.quantity !== null ? Number(item.quantity) : 1;
+    const hasAmount = item.amount !== undefined && item.amount !== null;
+
+    // Negative lines would cut the bill without an approved adjustment
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new TariffError('Quantity must be a whole number above zero');
+    }
+    if (hasAmount && (!Number.isFinite(Number(item.amount)) || Number(item.amount) < 0)) {
+      throw new TariffError('Amount must be a number of at least zero');
+    }
+
+    if (item.serviceCode !== undefined && item.serviceCode !== null && typeof item.serviceCode !== 'string') {
+      throw new TariffError('Service code must be a string');
+    }
+    if (item.description !== undefined && item.description !== null && typeof item.description !== 'string') {
+      throw new TariffError('Description must be a string');
+    }
+
+    if (!item.serviceCode) {
+      if (!options.allowOverride) {
+        throw new TariffError('Ad-hoc billing items require a service code or price override permission', 403);
+      }
+      if (!item.description || !item.category || !hasAmount) {
+        throw new TariffError('Ad-hoc billing items need a description, category and amount');
+      }
+      if (!isBillingCategory(item.category)) {
+        throw new TariffError(`Category must be one of ${BILLING_CATEGORIES.join(', ')}`);
+      }
+      resolved.push({
+        description: item.description,
+        category: item.category,
+        amount: Number(item.amount),
+        quantity,
+        priceOverridden: true,
+      });
+      continue;
+    }
+
+    const tariff = await findEffectiveTariff(hospitalId, item.serviceCode, new Date(), db);
+
+    if (!tariff) {
+      throw new TariffError(`No active tariff for service code ${item.serviceCode}`);
+    }
+
+    const tariffPrice = priceForPayer(tariff, options.insuranceProvider);
+    const overridden = hasAmount && Number(item.amount) !== tariffPrice;
+
+    if (overridden && !options.allowOverride) {
+      throw new TariffError(`Price for ${item.serviceCode} differs from tariff and override is not permitted`, 403);
+    }
+
+    resolved.push({
+      description: item.description || tariff.name,
+      category: tariff.category,
+      amount: overridden ? Number(item.amount) : tariffPrice,
+      quantity,
+      serviceCode: tariff.code,
+      tariffId: tariff.id,
+      priceOverridden: overridden,
+    });
+  }
+
+  return resolved;
+};
+
+/**
+ * The tariff in force whose name matches a clinical description (a lab test
+ * type or a drug name), for charges captured without an explicit code.
+ */
+export const findEffectiveTariffByName = async (
+  hospitalId: string,
+  category: BillingCategory,
+  name: string,
+  at: Date = new Date(),
+  db: Db = prisma
+): Promise<Tariff | null> => {
+  return db.tariff.findFirst({
+    where: {
+      hospitalId,
+      category,
+      active: true,
+      effectiveFrom: { lte: at },
+      AND: [
+        { OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }] },
+        { OR: [{ name: { equals: name, mode: 'insensitive' } }, { code: name.trim().toUpperCase() }] },
+      ],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  });
+};
+
+/**
+ * The tariff for a lab test: the code mapped in `settings.chargeCapture.labTestCodes`,
+ * else the LAB tariff named like the test.
+ */
+export const findLabTestTariff = async (
+  hospitalId: string,
+  testType: string,
+  settings: Record<string, any>,
+  db: Db = prisma
+): Promise<Tariff | null> => {
+  const code = settings.chargeCapture?.labTestCodes?.[testType];
+  return code
+    ? findEffectiveTariff(hospitalId, code, new Date(), db)
+    : findEffectiveTariffByName(hospitalId, 'LAB', testType, new Date(), db);
+};
+
+/**
+ * The tariff for a bed-day: the code mapped for the ward type in
+ * `settings.chargeCapture.bedDayCodes`, else BED-<WARD>-<ROOM>, then BED-<WARD>.
+ */
+export const findBedDayTariff = async (
+  hospitalId: string,
+  wardType: WardType,
+  roomType: RoomType,
+  settings: Record<string, any>,
+  at: Date = new Date(),
+  db: Db = prisma
+): Promise<{ tariff: Tariff | null; codes: string[] }> => {
+  const mapped = settings.chargeCapture?.bedDayCodes?.[wardType];
+  const codes: string[] = mapped ? [mapped] : [`BED-${wardType}-${roomType}`, `BED-${wardType}`];
+
+  for (const code of codes) {
+    const tariff = await findEffectiveTariff(hospitalId, code, at, db);
+    if (tariff) return { tariff, codes };
+  }
+
+  return { tariff: null, codes };
+};
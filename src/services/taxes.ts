@@ -0,0 +1,147 @@
+/**
+ * Taxes
+ *
+ * VAT, service charge and similar levies on billable items. Rules live in
+ * `settings.taxes.rules` and are applied in order:
+ *   { code, name, rate, categories?, tariffCodes?, excludeTariffCodes?, compound? }
+ * A rule applies to an item whose category is in `categories` or whose service
+ * code is in `tariffCodes`, unless the code is in `excludeTariffCodes`.
+ * `compound` rules are charged on the item plus the taxes before them (VAT on
+ * a service charge). Tax is fixed on each item when it is billed; discounts
+ * and waivers come off the tax-inclusive total.
+ */
+
+import { BillingCategory, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface TaxRule {
+  code: string;
+  name: string;
+  rate: number; // Percentage
+  categories: BillingCategory[];
+  tariffCodes: string[];
+  excludeTariffCodes: string[];
+  compound: boolean;
+}
+
+// A type rather than an interface so it can be stored as JSON
+export type ItemTax = {
+  code: string;
+  name: string;
+  rate: number;
+  base: number;
+  amount: number;
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const upperCodes = (codes: unknown): string[] =>
+  Array.isArray(codes) ? codes.map((code) => String(code).trim().toUpperCase()) : [];
+
+/**
+ * The hospital's tax rules; malformed entries are skipped.
+ */
+export const taxRules = (settings: Record<string, any>): TaxRule[] => {
+  const rules = settings.taxes?.rules;
+  if (!Array.isArray(rules)) return [];
+
+  return rules
+    .filter((rule) => rule && rule.code && Number(rule.rate) > 0)
+    .map((rule) => ({
+      code: String(rule.code).toUpperCase(),
+      name: rule.name || String(rule.code),
+      rate: Number(rule.rate),
+      categories: Array.isArray(rule.categories) ? rule.categories : [],
+      tariffCodes: upperCodes(rule.tariffCodes),
+      excludeTariffCodes: upperCodes(rule.excludeTariffCodes),
+      compound: rule.compound === true,
+    }));
+};
+
+/**
+ * Taxes due on a bill line (amount x quantity) under the given rules.
+ */
+export const computeItemTaxes = (
+  item: { category: BillingCategory; serviceCode?: string | null; amount: number; quantity: number },
+  rules: TaxRule[]
+): { taxAmount: number; taxes: ItemTax[] } => {
+  const code = item.serviceCode?.toUpperCase();
+  const net = item.amount * item.quantity;
+  const taxes: ItemTax[] = [];
+
+  for (const rule of rules) {
+    const matches = rule.categories.includes(item.category) || (!!code && rule.tariffCodes.includes(code));
+    if (!matches || (code && rule.excludeTariffCodes.includes(code))) continue;
+
+    const base = rule.compound ? net + taxes.reduce((sum, tax) => sum + tax.amount, 0) : net;
+    const amount = roundMoney((base * rule.rate) / 100);
+    if (amount > 0) {
+      taxes.push({ code: rule.code, name: rule.name, rate: rule.rate, base: roundMoney(base), amount });
+    }
+  }
+
+  return { taxAmount: roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0)), taxes };
+};
+
+/**
+ * A bill's tax lines: item taxes totalled per tax and rate, for invoices and bill views.
+ */
+export const taxLines = (items: { taxes: Prisma.JsonValue | null }[]): ItemTax[] => {
+  const lines = new Map<string, ItemTax>();
+
+  for (const item of items) {
+    for (const tax of (item.taxes as ItemTax[] | null) || []) {
+      const key = `${tax.code}:${tax.rate}`;
+      const line = lines.get(key) || { code: tax.code, name: tax.name, rate: tax.rate, base: 0, amount: 0 };
+      line.base = roundMoney(line.base + tax.base);
+      line.amount = roundMoney(line.amount + tax.amount);
+      lines.set(key, line);
+    }
+  }
+
+  return [...lines.values()];
+};
+
+/**
+ * Tax charged on bills raised in a period, per tax and rate and per billing
+ * category, for filing returns. Cancelled bills are left out.
+ */
+export const taxSummary = async (hospitalId: string, from: Date, to: Date) => {
+  const items = await prisma.billingItem.findMany({
+    where: {
+      taxAmount: { gt: 0 },
+      billingRecord: { hospitalId, status: { not: 'CANCELLED' }, createdAt: { gte: from, lt: to } },
+    },
+    select: { category: true, taxes: true, billingRecordId: true },
+  });
+
+  const taxes = new Map<string, ItemTax & { items: number; bills: Set<string> }>();
+  const byCategory: Record<string, Record<string, number>> = {};
+
+  for (const item of items) {
+    for (const tax of (item.taxes as ItemTax[] | null) || []) {
+      const key = `${tax.code}:${tax.rate}`;
+      const line = taxes.get(key) || { code: tax.code, name: tax.name, rate: tax.rate, base: 0, amount: 0, items: 0, bills: new Set<string>() };
+      line.base = roundMoney(line.base + tax.base);
+      line.amount = roundMoney(line.amount + tax.amount);
+      line.items++;
+      line.bills.add(item.billingRecordId);
+      taxes.set(key, line);
+
+      byCategory[item.category] = byCategory[item.category] || {};
+      byCategory[item.category][tax.code] = roundMoney((byCategory[item.category][tax.code] || 0) + tax.amount);
+    }
+  }
+
+  const lines = [...taxes.values()].map(({ bills, base, ...line }) => ({
+    ...line,
+    taxableAmount: base,
+    bills: bills.size,
+  }));
+
+  return {
+    taxes: lines,
+    byCategory,
+    totalTax: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+};
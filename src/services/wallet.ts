@@ -0,0 +1,237 @@
+/**
+ * Patient Wallets
+ *
+ * A prepaid balance per patient, mostly deposits taken on admission. Every
+ * movement is a WalletTransaction carrying the balance after it, and money
+ * only reaches a bill as a DEPOSIT payment, so bills, receipts and refunds
+ * keep working the way they do for cash.
+ *
+ * Configured in `settings.wallet`:
+ *   autoApply          - apply the balance to new charges automatically (default on)
+ *   minimumDeposits    - { [WardType]: amount } required before admission
+ *   depositEnforcement - BLOCK | WARN | OFF when the deposit falls short (default BLOCK)
+ * Admissions with an approved pre-authorization are exempt; the payer guarantees them.
+ */
+
+import { PaymentMethod, Prisma, WalletTransactionType, WardType } from '@prisma/client';
+import { prisma } from '../db';
+import { resolveBillingStatus } from '../utils/billing';
+import { getHospitalSettings } from '../utils/hospitalSettings';
+import { nextDocumentNumber } from './documentNumbers';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised when a wallet movement is not allowed; carries the HTTP status to relay.
+ */
+export class WalletError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'WalletError';
+    this.status = status;
+  }
+}
+
+export type DepositEnforcement = 'BLOCK' | 'WARN' | 'OFF';
+
+export const walletSettings = (settings: Record<string, any>) => {
+  const config = (settings.wallet as Record<string, any>) || {};
+  const enforcement: DepositEnforcement = ['BLOCK', 'WARN', 'OFF'].includes(config.depositEnforcement)
+    ? config.depositEnforcement
+    : 'BLOCK';
+
+  return {
+    autoApply: config.autoApply !== false,
+    minimumDeposits: (config.minimumDeposits as Partial<Record<WardType, number>>) || {},
+    enforcement,
+  };
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getWalletBalance = async (patientId: string, db: Db = prisma): Promise<number> => {
+  const wallet = await db.patientWallet.findUnique({ where: { patientId } });
+  return wallet?.balance || 0;
+};
+
+interface WalletEntry {
+  patientId: string;
+  hospitalId: string;
+  amount: number;
+  method?: PaymentMethod | null;
+  reference?: string;
+  receiptNumber?: string;
+  billingRecordId?: string;
+  paymentId?: string;
+  notes?: string;
+  cashierSessionId?: string | null;
+  userId: string;
+}
+
+const recordEntry = async (db: Db, walletId: string, type: WalletTransactionType, balanceAfter: number, entry: WalletEntry) =>
+  db.walletTransaction.create({
+    data: {
+      walletId,
+      type,
+      amount: entry.amount,
+      balanceAfter,
+      method: entry.method,
+      reference: entry.reference,
+      receiptNumber: entry.receiptNumber,
+      billingRecordId: entry.billingRecordId,
+      paymentId: entry.paymentId,
+      notes: entry.notes,
+      cashierSessionId: entry.cashierSessionId,
+      createdBy: entry.userId,
+    },
+  });
+
+/**
+ * Add money to a patient's wallet, opening it on first use.
+ */
+export const creditWallet = async (db: Db, type: 'DEPOSIT' | 'REVERSAL', entry: WalletEntry) => {
+  if (entry.amount <= 0) {
+    throw new WalletError('Amount must be greater than zero');
+  }
+
+  const wallet = await db.patientWallet.upsert({
+    where: { patientId: entry.patientId },
+    create: { patientId: entry.patientId, hospitalId: entry.hospitalId, balance: entry.amount },
+    update: { balance: { increment: entry.amount } },
+  });
+
+  const transaction = await recordEntry(db, wallet.id, type, wallet.balance, entry);
+  return { wallet, transaction };
+};
+
+/**
+ * Take money out of a patient's wallet; fails rather than go below zero.
+ */
+export const debitWallet = async (db: Db, type: 'APPLICATION' | 'REFUND', entry: WalletEntry) => {
+  if (entry.amount <= 0) {
+    throw new WalletError('Amount must be greater than zero');
+  }
+
+  // Conditional decrement so two debits cannot both spend the same balance
+  const { count } = await db.patientWallet.updateMany({
+    where: { patientId: entry.patientId, balance: { gte: entry.amount - 0.005 } },
+    data: { balance: { decrement: entry.amount } },
+  });
+
+  if (count === 0) {
+    throw new WalletError('Insufficient wallet balance');
+  }
+
+  const wallet = await db.patientWallet.findUniqueOrThrow({ where: { patientId: entry.patientId } });
+  const transaction = await recordEntry(db, wallet.id, type, wallet.balance, entry);
+  return { wallet, transaction };
+};
+
+/**
+ * What the patient still owes on a bill: their co-pay less what they have
+ * paid. Insurer remittances and corporate payments count against the payer
+ * portion only.
+ */
+export const patientOutstanding = async (db: Db, billingRecordId: string): Promise<number> => {
+  const bill = await db.billingRecord.findUniqueOrThrow({
+    where: { id: billingRecordId },
+    include: {
+      payments: {
+        where: { remittanceId: null, corporatePaymentId: null },
+        select: { amount: true, refundedAmount: true },
+      },
+    },
+  });
+
+  const patientPaid = bill.payments.reduce((sum, payment) => sum + payment.amount - payment.refundedAmount, 0);
+  return roundMoney(Math.max(bill.patientAmount - patientPaid, 0));
+};
+
+/**
+ * Pay as much of a bill's patient portion as the wallet covers (capped at
+ * `maxAmount`), as a DEPOSIT payment. Returns null when nothing applies.
+ */
+export const applyWalletToBill = async (db: Db, billingRecordId: string, userId: string, maxAmount?: number) => {
+  const bill = await db.billingRecord.findUniqueOrThrow({ where: { id: billingRecordId } });
+
+  if (bill.status === 'CANCELLED' || bill.status === 'PAID') {
+    return null;
+  }
+
+  const balance = await getWalletBalance(bill.patientId, db);
+  const outstanding = await patientOutstanding(db, billingRecordId);
+  const amount = roundMoney(Math.min(balance, outstanding, maxAmount ?? Infinity));
+
+  if (amount <= 0) {
+    return null;
+  }
+
+  const payment = await db.payment.create({
+    data: {
+      billingRecordId,
+      amount,
+      method: 'DEPOSIT',
+      receiptNumber: await nextDocumentNumber(db, bill.hospitalId, 'RECEIPT'),
+      receivedBy: userId,
+    },
+  });
+
+  await debitWallet(db, 'APPLICATION', {
+    patientId: bill.patientId,
+    hospitalId: bill.hospitalId,
+    amount,
+    billingRecordId,
+    paymentId: payment.id,
+    userId,
+  });
+
+  // Increment so a payment landing on the bill meanwhile is not overwritten
+  const paid = await db.billingRecord.update({
+    where: { id: billingRecordId },
+    data: { paidAmount: { increment: amount } },
+  });
+  const billingRecord = await db.billingRecord.update({
+    where: { id: billingRecordId },
+    data: { status: resolveBillingStatus(paid.totalAmount, paid.paidAmount, paid.status) },
+  });
+
+  return { payment, billingRecord, amount };
+};
+
+/**
+ * Apply the wallet to a bill if the hospital has auto-apply on. For use
+ * inside the transaction that created or grew the bill.
+ */
+export const autoApplyWallet = async (db: Db, billingRecordId: string, hospitalId: string, userId: string) => {
+  const { autoApply } = walletSettings(await getHospitalSettings(hospitalId));
+  return autoApply ? applyWalletToBill(db, billingRecordId, userId) : null;
+};
+
+/**
+ * Check a patient's wallet against the minimum deposit for the ward type they
+ * are being admitted to. Throws when short and enforcement is BLOCK.
+ */
+export const checkMinimumDeposit = async (options: {
+  patientId: string;
+  wardType: WardType;
+  settings: Record<string, any>;
+  exempt?: boolean;
+}): Promise<{ minimumDeposit: number; balance: number; warning?: string }> => {
+  const { minimumDeposits, enforcement } = walletSettings(options.settings);
+  const minimumDeposit = Number(minimumDeposits[options.wardType]) || 0;
+  const balance = await getWalletBalance(options.patientId);
+
+  if (enforcement === 'OFF' || options.exempt || minimumDeposit <= 0 || balance + 0.005 >= minimumDeposit) {
+    return { minimumDeposit, balance };
+  }
+
+  const message = `A deposit of ${minimumDeposit} is required for ${options.wardType} admission; wallet balance is ${balance}`;
+
+  if (enforcement === 'BLOCK') {
+    throw new WalletError(message, 402);
+  }
+
+  return { minimumDeposit, balance, warning: message };
+};
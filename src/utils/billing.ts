@@ -0,0 +1,55 @@
+import { BillingStatus } from '@prisma/client';
+
+/**
+ * Derive a bill's status after its paid amount changes.
+ * Fully covered bills are PAID, anything short of the total is PARTIAL, and a
+ * bill whose payments have all been refunded is PENDING again.
+ */
+export const resolveBillingStatus = (
+  totalAmount: number,
+  paidAmount: number,
+  currentStatus: BillingStatus
+): BillingStatus => {
+  if (paidAmount >= totalAmount) {
+    return 'PAID';
+  }
+  if (paidAmount > 0) {
+    return 'PARTIAL';
+  }
+  if (currentStatus === 'PAID' || currentStatus === 'PARTIAL') {
+    return 'PENDING';
+  }
+  return currentStatus;
+};
+
+/**
+ * Split a bill into the insurer's share and the patient's co-pay.
+ * `insuranceCoverage` is a percentage; uninsured bills are all co-pay.
+ */
+export const splitBillAmount = (
+  totalAmount: number,
+  insuranceProvider: string | null | undefined,
+  insuranceCoverage: number | null | undefined
+): { payerAmount: number; patientAmount: number } => {
+  if (!insuranceProvider || !insuranceCoverage) {
+    return { payerAmount: 0, patientAmount: totalAmount };
+  }
+  const coverage = Math.min(Math.max(insuranceCoverage, 0), 100);
+  const payerAmount = Math.round(totalAmount * coverage) / 100;
+  return { payerAmount, patientAmount: totalAmount - payerAmount };
+};
+
+/**
+ * Re-split a stored bill after its total changes: bills routed to a corporate
+ * account split by the account's coverage, others by their insurance.
+ */
+export const billShares = (bill: {
+  totalAmount: number;
+  insuranceProvider: string | null;
+  insuranceCoverage: number | null;
+  corporateAccountId: string | null;
+  corporateCoverage: number | null;
+}): { payerAmount: number; patientAmount: number } =>
+  bill.corporateAccountId
+    ? splitBillAmount(bill.totalAmount, bill.corporateAccountId, bill.corporateCoverage)
+    : splitBillAmount(bill.totalAmount, bill.insuranceProvider, bill.insuranceCoverage);
@@ -0,0 +1,79 @@
+const DEFAULT_TIMEZONE = 'Africa/Lagos';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest date range a day-by-day listing or report may ask for
+export const MAX_RANGE_DAYS = 366;
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the hospital's timezone.
+ */
+export const localDateKey = (date: Date, timezone: string = DEFAULT_TIMEZONE): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+};
+
+/**
+ * Whether a string is an IANA timezone this runtime knows, e.g. Africa/Lagos.
+ */
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a string is a real calendar date as YYYY-MM-DD (so not 2026-02-31).
+ */
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+  new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value;
+
+/**
+ * Days from one calendar date to another, both included.
+ */
+export const daysInRange = (startKey: string, endKey: string): number =>
+  (Date.parse(endKey) - Date.parse(startKey)) / DAY_MS + 1;
+
+/**
+ * The calendar date a number of days after a YYYY-MM-DD date.
+ */
+export const addDays = (dateKey: string, days: number): string =>
+  new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// An unknown zone in settings falls back to the default rather than failing every date
+export const hospitalTimezone = (settings: Record<string, any>): string =>
+  isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+
+/**
+ * The instant a calendar date (YYYY-MM-DD) begins in the hospital's timezone.
+ */
+export const startOfLocalDay = (dateKey: string, timezone: string = DEFAULT_TIMEZONE): Date => {
+  const utcMidnight = new Date(`${dateKey}T00:00:00Z`);
+
+  // The zone's offset at that moment, read from how it renders UTC midnight
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(utcMidnight);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return new Date(utcMidnight.getTime() - (asUtc - utcMidnight.getTime()));
+};
@@ -0,0 +1,13 @@
+import { prisma } from '../db';
+
+/**
+ * Load a hospital's settings JSON, or an empty object when the hospital has none.
+ */
+export const getHospitalSettings = async (hospitalId: string): Promise<Record<string, any>> => {
+  const hospital = await prisma.hospital.findUnique({
+    where: { id: hospitalId },
+    select: { settings: true },
+  });
+
+  return (hospital?.settings as Record<string, any>) || {};
+};